@@ -21,6 +21,14 @@ import path from 'path';
 import { ArgumentParser } from 'argparse';
 import UserAuthorizer from '../lib/auth.js';
 import SlideGenerator from '../lib/slide_generator.js';
+import DryRunSlideGenerator from '../lib/dry_run.js';
+import ImageCache from '../lib/images/cache.js';
+import exportMarkdown from '../lib/export_markdown.js';
+import Watcher, {findLocalImages} from '../lib/watch.js';
+import extractSlides from '../lib/parser/extract_slides.js';
+import {parseFrontMatter} from '../lib/parser/front_matter.js';
+import validate, {formatDiagnostic} from '../lib/validate.js';
+import renderPreview, {prepareImages} from '../lib/preview.js';
 import opener  from 'opener';
 import readline from 'readline';
 import { createRequire } from 'module';
@@ -42,6 +50,16 @@ const STORED_CLIENT_ID_PATH = path.join(
   '.md2googleslides',
   'client_id.json'
 );
+const IMAGE_CACHE_PATH = path.join(
+  USER_HOME,
+  '.md2googleslides',
+  'image_cache.json'
+);
+const RENDERED_IMAGES_PATH = path.join(
+  USER_HOME,
+  '.md2googleslides',
+  'rendered'
+);
 
 const parser = new ArgumentParser({
   add_help: true,
@@ -73,6 +91,12 @@ parser.add_argument('-e', '--erase', {
   help: 'Erase existing slides prior to appending.',
   required: false,
 });
+parser.add_argument('--sync', {
+  dest: 'sync',
+  action: 'store_true',
+  help: 'Only replace slides that changed since the last sync. Requires --append, and --erase the first time a deck that was not synced is used.',
+  required: false,
+});
 parser.add_argument('-n', '--no-browser', {
   action: 'store_true',
   dest: 'headless',
@@ -83,7 +107,6 @@ parser.add_argument('-s', '--style', {
   help: 'Name of highlight.js theme for code formatting',
   dest: 'style',
   required: false,
-  default: 'default',
 });
 parser.add_argument('-t', '--title', {
   help: 'Title of the presentation',
@@ -100,11 +123,125 @@ parser.add_argument('-c', '--copy', {
   dest: 'copy',
   required: false,
 });
+parser.add_argument('--image-store', {
+  help: 'Where to upload local images: drive (default), s3 or url',
+  dest: 'imageStore',
+  choices: ['drive', 's3', 'url'],
+  default: 'drive',
+  required: false,
+});
+parser.add_argument('--image-folder', {
+  help: 'Id of the GDrive folder to upload images to. Defaults to the root of your Drive',
+  dest: 'imageFolder',
+  required: false,
+});
+parser.add_argument('--image-bucket', {
+  help: 'Name of the S3 bucket to upload images to',
+  dest: 'imageBucket',
+  required: false,
+});
+parser.add_argument('--image-region', {
+  help: 'Region of the S3 bucket',
+  dest: 'imageRegion',
+  required: false,
+});
+parser.add_argument('--image-endpoint', {
+  help: 'URL of an S3-compatible service, if not AWS',
+  dest: 'imageEndpoint',
+  required: false,
+});
+parser.add_argument('--image-base-url', {
+  help: 'For --image-store url, URL the markdown directory is served from. ' +
+    'For s3, public URL of the bucket if different from the endpoint',
+  dest: 'imageBaseUrl',
+  required: false,
+});
+parser.add_argument('--watch', {
+  dest: 'watch',
+  action: 'store_true',
+  help: 'Keep running and sync the deck whenever the markdown, theme or local images change',
+  required: false,
+});
+parser.add_argument('--no-image-cache', {
+  dest: 'noImageCache',
+  action: 'store_true',
+  help: 'Upload and render every image again instead of reusing previous runs',
+  required: false,
+});
+parser.add_argument('--dry-run', {
+  dest: 'dryRun',
+  action: 'store_true',
+  help: 'Write the API requests instead of sending them. Requires --snapshot.',
+  required: false,
+});
+parser.add_argument('--snapshot', {
+  help: 'Path to a presentation JSON file to use in place of a live presentation',
+  dest: 'snapshot',
+  required: false,
+});
+parser.add_argument('--export', {
+  dest: 'export',
+  action: 'store_true',
+  help: 'Convert the presentation given with --id or --snapshot back to markdown',
+  required: false,
+});
+parser.add_argument('--validate', {
+  dest: 'validate',
+  action: 'store_true',
+  help: 'Check the markdown for problems and exit. Layout names are checked when --snapshot is given.',
+  required: false,
+});
+parser.add_argument('--preview', {
+  help: 'Write an HTML preview of the slides to this file instead of generating them. Requires --snapshot.',
+  dest: 'preview',
+  required: false,
+});
+parser.add_argument('-o', '--output', {
+  help: 'File to write the requests (dry run) or markdown (export) to. Defaults to stdout',
+  dest: 'output',
+  required: false,
+});
 
 const args = parser.parse_args();
 
+// A dry run syncs against its snapshot; otherwise there would be no deck to
+// sync and a new one would be created instead
+if (args.sync && !args.id && !args.dryRun) {
+  parser.error('--sync requires --append with the ID of the presentation');
+}
+
+// Resolve before generateSlides() changes the working directory
+const markdownPath = args.file && path.resolve(args.file);
+const snapshotPath = args.snapshot && path.resolve(args.snapshot);
+const outputPath = args.output && path.resolve(args.output);
+const previewPath = args.preview && path.resolve(args.preview);
+
+function readFrontMatter() {
+  if (!markdownPath) {
+    return {}; // Standard input can only be read once, when generating
+  }
+  try {
+    const markdown = fs.readFileSync(markdownPath, {encoding: 'UTF-8'});
+    return parseFrontMatter(markdown).metadata;
+  } catch (err) {
+    return {};
+  }
+}
+
+// Command line flags take precedence over the front matter
+const frontMatter = readFrontMatter();
+const title = args.title || frontMatter.title;
+const theme = args.style || frontMatter.theme || 'default';
+const copyId = args.copy || frontMatter.copy;
+const parentId = args.parentId || frontMatter.parent;
+
+class ValidationError extends Error {}
+
 function handleError(err) {
-  if(err && err.errors && err.errors[0] && err.errors[0].message) {
+  if (err instanceof ValidationError) {
+    console.error('❌ %s', err.message);
+    process.exitCode = 1;
+  } else if(err && err.errors && err.errors[0] && err.errors[0].message) {
     let errorString = '❌ Unable to generate slides:\n';
     errorString += err.errors[0].message + '\n';
     const reqMatch = err.errors[0].message.match(/requests\[([0-9]+)\]/);
@@ -179,21 +316,42 @@ function authorizeUser() {
 }
 
 function buildSlideGenerator(oauth2Client) {
-  const title = args.title || args.file;
+  const presentationTitle = title || args.file;
   const presentationId = args.id;
-  const copyId = args.copy;
-  const parentId = args.parentId;
   if (presentationId) {
     return SlideGenerator.forPresentation(oauth2Client, presentationId);
   } else if (copyId) {
-    return SlideGenerator.copyPresentation(oauth2Client, title, copyId, parentId);
+    return SlideGenerator.copyPresentation(oauth2Client, presentationTitle, copyId, parentId);
   } else {
-    return SlideGenerator.newPresentation(oauth2Client, title, parentId);
+    return SlideGenerator.newPresentation(oauth2Client, presentationTitle, parentId);
   }    
 }
 
+function configureImageStore(slideGenerator) {
+  slideGenerator.setImageStore({
+    type: args.imageStore,
+    folderId: args.imageFolder,
+    bucket: args.imageBucket,
+    region: args.imageRegion,
+    endpoint: args.imageEndpoint,
+    publicUrl: args.imageStore === 's3' ? args.imageBaseUrl : undefined,
+    baseUrl: args.imageBaseUrl,
+    rootDir: markdownPath ? path.dirname(markdownPath) : process.cwd(),
+  });
+  if (!args.noImageCache) {
+    slideGenerator.setImageCache(
+      new ImageCache({
+        filePath: IMAGE_CACHE_PATH,
+        renderDir: RENDERED_IMAGES_PATH,
+      })
+    );
+  }
+  return slideGenerator;
+}
+
 function eraseIfNeeded(slideGenerator) {
-  if (args.erase || !args.id) {
+  const isNewPresentation = !args.id && !args.dryRun;
+  if (args.erase || isNewPresentation) {
     return slideGenerator.erase().then(() => {
       return slideGenerator;
     });
@@ -226,22 +384,79 @@ function loadCss(theme) {
   return css;
 }
 
+function themeFile(theme) {
+  const builtIn = path.join(
+    require.resolve('highlight.js'),
+    '..',
+    '..',
+    'styles',
+    theme + '.css'
+  );
+  return fs.existsSync(builtIn) ? builtIn : path.resolve(theme);
+}
+
+let stdinMarkdown;
+
+function readMarkdown() {
+  if (markdownPath) {
+    return fs.readFileSync(markdownPath, {encoding: 'UTF-8'});
+  }
+  // Standard input can only be read once
+  if (stdinMarkdown === undefined) {
+    stdinMarkdown = fs.readFileSync(0, {encoding: 'UTF-8'});
+  }
+  return stdinMarkdown;
+}
+
+function printDiagnostics() {
+  const presentation = snapshotPath
+    ? JSON.parse(fs.readFileSync(snapshotPath, 'UTF-8'))
+    : undefined;
+  const diagnostics = validate(readMarkdown(), {
+    css: loadCss(theme),
+    presentation: presentation,
+    baseDir: markdownPath ? path.dirname(markdownPath) : process.cwd(),
+  });
+  const file = args.file || '<stdin>';
+  diagnostics.forEach(d => console.error(formatDiagnostic(d, file)));
+  return diagnostics.filter(d => d.severity === 'error').length;
+}
+
+// Rejects if the markdown has errors, before anything is sent
+function checkMarkdown() {
+  const errors = printDiagnostics();
+  if (errors) {
+    return Promise.reject(
+      new ValidationError(`Found ${errors} error(s), no slides were generated`)
+    );
+  }
+  return Promise.resolve();
+}
+
+function validateOnly() {
+  const errors = printDiagnostics();
+  if (errors) {
+    return Promise.reject(new ValidationError(`Found ${errors} error(s)`));
+  }
+  console.log('✔ No errors found');
+  return Promise.resolve();
+}
+
 function generateSlides(slideGenerator) {
   // try to limit warning spew
   require('events').EventEmitter.defaultMaxListeners = 15;
 
-  let source;
-  if (args.file) {
-    source = path.resolve(args.file);
+  if (markdownPath) {
     // Set working directory relative to markdown file
-    process.chdir(path.dirname(source));
-  } else {
-    source = 0;
+    process.chdir(path.dirname(markdownPath));
   }
-  const input = fs.readFileSync(source, {encoding: 'UTF-8'});
-  const css = loadCss(args.style);
+  const input = readMarkdown();
+  const css = loadCss(theme);
 
-  return slideGenerator.generateFromMarkdown(input, { css: css });
+  return slideGenerator.generateFromMarkdown(input, {
+    css: css,
+    sync: args.watch || args.sync,
+  });
 }
 
 function displayResults(id) {
@@ -253,9 +468,157 @@ function displayResults(id) {
     opener(url);
   }
 }
-authorizeUser()
-  .then(buildSlideGenerator)
-  .then(eraseIfNeeded)
-  .then(generateSlides)
-  .then(displayResults)
-  .catch(handleError);
+function watchedFiles() {
+  const files = [markdownPath, themeFile(theme)];
+  try {
+    const markdown = fs.readFileSync(markdownPath, {encoding: 'UTF-8'});
+    files.push(...findLocalImages(markdown, loadCss(theme)));
+  } catch (err) {
+    // Keep watching the markdown so the next save can fix it
+  }
+  return files;
+}
+
+function printSummary(slideGenerator, started) {
+  const summary = slideGenerator.lastSyncSummary();
+  const seconds = ((Date.now() - started) / 1000).toFixed(1);
+  const time = new Date().toLocaleTimeString();
+  console.log(
+    '[%s] ✔ Synced in %ss: %d created, %d updated, %d removed, %d unchanged',
+    time,
+    seconds,
+    summary.created,
+    summary.updated,
+    summary.removed,
+    summary.unchanged
+  );
+}
+
+function watch(slideGenerator) {
+  if (!markdownPath) {
+    return Promise.reject(new Error('--watch requires a markdown file'));
+  }
+  let firstRun = true;
+  const watcher = new Watcher(changed => {
+    if (changed.length) {
+      const names = changed.map(file => path.relative(process.cwd(), file));
+      console.log('Changed: %s', names.join(', '));
+    }
+    const started = Date.now();
+    // The first run was checked before signing in
+    const checked = firstRun ? Promise.resolve() : checkMarkdown();
+    return checked
+      .then(() => generateSlides(slideGenerator))
+      .then(id => {
+        printSummary(slideGenerator, started);
+        if (firstRun) {
+          firstRun = false;
+          displayResults(id);
+        }
+      })
+      .catch(err => {
+        try {
+          handleError(err);
+        } catch (e) {
+          console.error('❌ Unable to generate slides:\n%s', e.message ?? e);
+        }
+      })
+      .then(() => watchedFiles());
+  });
+  return watcher
+    .start(watchedFiles())
+    .then(() => console.log('Watching for changes, press Ctrl+C to stop'));
+}
+
+function writeRequestPlan(slideGenerator) {
+  const plan = JSON.stringify(slideGenerator.requestBatches(), null, 2);
+  if (outputPath) {
+    fs.writeFileSync(outputPath, plan + '\n');
+    console.error('Wrote request plan to %s', outputPath);
+  } else {
+    console.log(plan);
+  }
+}
+
+function dryRun() {
+  if (!snapshotPath) {
+    return Promise.reject(new Error('--dry-run requires --snapshot'));
+  }
+  const slideGenerator = DryRunSlideGenerator.fromFile(snapshotPath);
+  return eraseIfNeeded(slideGenerator)
+    .then(generateSlides)
+    .then(() => writeRequestPlan(slideGenerator));
+}
+
+function writeMarkdown(markdown) {
+  if (outputPath) {
+    fs.writeFileSync(outputPath, markdown);
+    console.error('Wrote markdown to %s', outputPath);
+  } else {
+    process.stdout.write(markdown);
+  }
+}
+
+function exportPresentation() {
+  if (snapshotPath) {
+    const presentation = JSON.parse(fs.readFileSync(snapshotPath, 'UTF-8'));
+    return Promise.resolve(exportMarkdown(presentation)).then(writeMarkdown);
+  }
+  if (!args.id) {
+    return Promise.reject(new Error('--export requires --id or --snapshot'));
+  }
+  return authorizeUser()
+    .then(oauth2Client =>
+      SlideGenerator.forPresentation(oauth2Client, args.id)
+    )
+    .then(slideGenerator => slideGenerator.exportToMarkdown())
+    .then(writeMarkdown);
+}
+
+function preview() {
+  if (!snapshotPath) {
+    return Promise.reject(new Error('--preview requires --snapshot'));
+  }
+  const presentation = JSON.parse(fs.readFileSync(snapshotPath, 'UTF-8'));
+  if (markdownPath) {
+    // Resolve images relative to the markdown file, as when generating
+    process.chdir(path.dirname(markdownPath));
+  }
+  const input = readMarkdown();
+  const slides = extractSlides(input, loadCss(theme));
+  const cache = args.noImageCache
+    ? undefined
+    : new ImageCache({filePath: IMAGE_CACHE_PATH, renderDir: RENDERED_IMAGES_PATH});
+  return prepareImages(slides, cache, presentation).then(() => {
+    const html = renderPreview(presentation, slides, title);
+    fs.writeFileSync(previewPath, html);
+    console.log('Wrote preview to %s', previewPath);
+  });
+}
+
+if (args.export) {
+  exportPresentation().catch(handleError);
+} else if (args.validate) {
+  validateOnly().catch(handleError);
+} else if (args.preview) {
+  checkMarkdown().then(preview).catch(handleError);
+} else if (args.dryRun) {
+  checkMarkdown().then(dryRun).catch(handleError);
+} else if (args.watch) {
+  checkMarkdown()
+    .then(authorizeUser)
+    .then(buildSlideGenerator)
+    .then(configureImageStore)
+    .then(eraseIfNeeded)
+    .then(watch)
+    .catch(handleError);
+} else {
+  checkMarkdown()
+    .then(authorizeUser)
+    .then(buildSlideGenerator)
+    .then(configureImageStore)
+    .then(eraseIfNeeded)
+    .then(generateSlides)
+    .then(displayResults)
+    .catch(handleError);
+}
@@ -0,0 +1,235 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import fs from 'fs';
+import {google, slides_v1 as SlidesV1} from 'googleapis';
+import SlideGenerator from './slide_generator.js';
+import {sequentialObjectIds} from './object_ids.js';
+import assert from 'assert';
+
+const debug = Debug('md2gslides');
+
+// Placeholders on a layout that are not copied onto new slides
+const LAYOUT_ONLY_PLACEHOLDERS = [
+  'SLIDE_NUMBER',
+  'FOOTER',
+  'HEADER',
+  'DATE_AND_TIME',
+];
+
+/**
+ * Mimics what the Slides API does for a createSlide request: adds a page
+ * with a copy of each placeholder from the layout.
+ */
+function simulateCreateSlide(
+  presentation: SlidesV1.Schema$Presentation,
+  request: SlidesV1.Schema$CreateSlideRequest
+): void {
+  const layoutId = request.slideLayoutReference?.layoutId;
+  const layout = presentation.layouts?.find(l => l.objectId === layoutId);
+  if (!layout) {
+    throw new Error(`Unable to find layout ${layoutId}`);
+  }
+  assert(request.objectId);
+  const objectId = request.objectId;
+
+  const pageElements = (layout.pageElements ?? [])
+    .filter(element => {
+      const type = element.shape?.placeholder?.type;
+      return type && !LAYOUT_ONLY_PLACEHOLDERS.includes(type);
+    })
+    .map(element => ({
+      objectId: `${objectId}_${element.objectId}`,
+      size: element.size,
+      transform: element.transform,
+      shape: {
+        shapeType: element.shape?.shapeType,
+        placeholder: {
+          type: element.shape?.placeholder?.type,
+          index: element.shape?.placeholder?.index,
+          parentObjectId: element.objectId,
+        },
+      },
+    }));
+
+  const slide: SlidesV1.Schema$Page = {
+    objectId: objectId,
+    pageType: 'SLIDE',
+    pageElements: pageElements,
+    slideProperties: {
+      layoutObjectId: layout.objectId,
+      masterObjectId: layout.layoutProperties?.masterObjectId,
+      notesPage: {
+        notesProperties: {
+          speakerNotesObjectId: `${objectId}_notes`,
+        },
+        pageElements: [
+          {
+            objectId: `${objectId}_notes`,
+            shape: {shapeType: 'TEXT_BOX', placeholder: {type: 'BODY'}},
+          },
+        ],
+      },
+    },
+  };
+  presentation.slides = presentation.slides ?? [];
+  const index = request.insertionIndex ?? presentation.slides.length;
+  presentation.slides.splice(index, 0, slide);
+}
+
+function simulateDeleteObject(
+  presentation: SlidesV1.Schema$Presentation,
+  request: SlidesV1.Schema$DeleteObjectRequest
+): void {
+  presentation.slides = presentation.slides?.filter(
+    slide => slide.objectId !== request.objectId
+  );
+  presentation.slides?.forEach(slide => {
+    slide.pageElements = slide.pageElements?.filter(
+      element => element.objectId !== request.objectId
+    );
+  });
+}
+
+function simulateUpdatePageElementAltText(
+  presentation: SlidesV1.Schema$Presentation,
+  request: SlidesV1.Schema$UpdatePageElementAltTextRequest
+): void {
+  for (const slide of presentation.slides ?? []) {
+    const elements = [
+      ...(slide.pageElements ?? []),
+      ...(slide.slideProperties?.notesPage?.pageElements ?? []),
+    ];
+    const element = elements.find(e => e.objectId === request.objectId);
+    if (element) {
+      element.title = request.title ?? element.title;
+      element.description = request.description ?? element.description;
+    }
+  }
+}
+
+function simulateUpdateSlidesPosition(
+  presentation: SlidesV1.Schema$Presentation,
+  request: SlidesV1.Schema$UpdateSlidesPositionRequest
+): void {
+  assert(presentation.slides);
+  const ids = request.slideObjectIds ?? [];
+  const moved = presentation.slides.filter(s => ids.includes(s.objectId!));
+  let index = request.insertionIndex ?? 0;
+  // Insertion index is relative to the arrangement before the move
+  index -= presentation.slides
+    .slice(0, index)
+    .filter(s => ids.includes(s.objectId!)).length;
+  presentation.slides = presentation.slides.filter(
+    s => !ids.includes(s.objectId!)
+  );
+  presentation.slides.splice(index, 0, ...moved);
+}
+
+/**
+ * Runs the full generation pipeline against a local snapshot of a
+ * presentation instead of the Slides API. Batches of requests are
+ * recorded rather than sent, and local images are not uploaded.
+ *
+ * The snapshot is the JSON returned by `presentations.get` and must
+ * include the layouts used by the deck.
+ *
+ * Object IDs are numbered rather than random, so the same markdown and
+ * snapshot always give the same requests. Images are still generated
+ * and probed as usual, so remote images need the network.
+ *
+ * @example
+ *
+ *   const generator = DryRunSlideGenerator.fromFile('snapshot.json');
+ *   await generator.generateFromMarkdown(markdown, {css});
+ *   console.log(JSON.stringify(generator.requestBatches(), null, 2));
+ */
+export default class DryRunSlideGenerator extends SlideGenerator {
+  private batches: SlidesV1.Schema$BatchUpdatePresentationRequest[] = [];
+
+  public constructor(presentation: SlidesV1.Schema$Presentation) {
+    // The client is never used to make requests
+    super(google.slides({version: 'v1'}), presentation);
+    this.newObjectId = sequentialObjectIds();
+  }
+
+  /**
+   * Returns a generator for a snapshot saved to disk.
+   *
+   * @param {string} filePath Path to the presentation JSON
+   * @returns {DryRunSlideGenerator}
+   */
+  public static fromFile(filePath: string): DryRunSlideGenerator {
+    const presentation = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!presentation.presentationId) {
+      throw new Error(`${filePath} is not a presentation snapshot`);
+    }
+    return new DryRunSlideGenerator(presentation);
+  }
+
+  /**
+   * Batches of requests that would have been sent, in order.
+   *
+   * @returns {Array.<BatchUpdatePresentationRequest>}
+   */
+  public requestBatches(): SlidesV1.Schema$BatchUpdatePresentationRequest[] {
+    return this.batches;
+  }
+
+  public async erase(): Promise<void> {
+    debug('Erasing previous slides');
+    const requests = (this.presentation.slides ?? []).map(slide => ({
+      deleteObject: {
+        objectId: slide.objectId,
+      },
+    }));
+    await this.updatePresentation({requests});
+  }
+
+  protected async uploadLocalImages(): Promise<void> {
+    debug('Dry run, skipping image upload');
+  }
+
+  protected async updatePresentation(
+    batch: SlidesV1.Schema$BatchUpdatePresentationRequest
+  ): Promise<void> {
+    debug('Recording batch: %O', batch);
+    if (!batch.requests || batch.requests.length === 0) {
+      return;
+    }
+    this.batches.push(JSON.parse(JSON.stringify(batch)));
+    for (const request of batch.requests) {
+      if (request.createSlide) {
+        simulateCreateSlide(this.presentation, request.createSlide);
+      } else if (request.deleteObject) {
+        simulateDeleteObject(this.presentation, request.deleteObject);
+      } else if (request.updatePageElementAltText) {
+        simulateUpdatePageElementAltText(
+          this.presentation,
+          request.updatePageElementAltText
+        );
+      } else if (request.updateSlidesPosition) {
+        simulateUpdateSlidesPosition(
+          this.presentation,
+          request.updateSlidesPosition
+        );
+      }
+    }
+  }
+
+  protected async reloadPresentation(): Promise<void> {
+    // The snapshot is kept up to date by updatePresentation()
+  }
+}
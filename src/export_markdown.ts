@@ -0,0 +1,509 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import {slides_v1 as SlidesV1} from 'googleapis';
+import extractSlides from './parser/extract_slides.js';
+import matchLayout from './layout/match_layout.js';
+
+const debug = Debug('md2gslides');
+
+// Fonts that are written back as inline code or fenced code blocks
+const MONOSPACE_FONTS = [
+  'Courier Prime',
+  'Courier New',
+  'Roboto Mono',
+  'Source Code Pro',
+  'Inconsolata',
+  'Consolas',
+];
+
+// Layouts that are selected by a {.big} title
+const BIG_LAYOUTS = ['MAIN_POINT', 'BIG_NUMBER'];
+
+// markdown-it-video services for the video sources of the Slides API
+const VIDEO_SERVICES: {[source: string]: string} = {
+  YOUTUBE: 'youtube',
+  DRIVE: 'drive',
+};
+
+interface Paragraph {
+  markdown: string;
+  rawText: string;
+  code: boolean;
+  bullet?: {
+    ordered: boolean;
+    level: number;
+  };
+}
+
+interface Column {
+  x: number;
+  width: number;
+  blocks: string[];
+}
+
+interface RunOptions {
+  // Placeholder text is auto-fitted when generated, so explicit font
+  // sizes there are noise rather than intent.
+  fontSizes: boolean;
+  // Header cells are already bold in markdown tables
+  bold: boolean;
+}
+
+const PLACEHOLDER_RUNS: RunOptions = {fontSizes: false, bold: true};
+const SHAPE_RUNS: RunOptions = {fontSizes: true, bold: true};
+
+function isMonospace(style?: SlidesV1.Schema$TextStyle): boolean {
+  return MONOSPACE_FONTS.includes(style?.fontFamily ?? '');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]<>~{}|$]/g, '\\$&');
+}
+
+function escapeBlockStart(text: string): string {
+  return text.replace(/^(\s*)([#>+-]|\d+[.)])(?=\s|$)/, '$1\\$2');
+}
+
+function toHex(color?: SlidesV1.Schema$OptionalColor): string | undefined {
+  const rgb = color?.opaqueColor?.rgbColor;
+  if (!rgb) {
+    // Theme colors follow the target deck, so leave them out
+    return undefined;
+  }
+  const hex = [rgb.red, rgb.green, rgb.blue]
+    .map(c =>
+      Math.round((c ?? 0) * 255)
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('');
+  return '#' + hex;
+}
+
+/**
+ * Converts a single text run to inline markdown, wrapping it with the
+ * markers and inline HTML that the parser turns back into the same style.
+ */
+function formatRun(run: SlidesV1.Schema$TextRun, options: RunOptions): string {
+  const content = (run.content ?? '').replace(/\n$/, '');
+  if (!content.length) {
+    return '';
+  }
+  const style = run.style ?? {};
+  const [, leading, body, trailing] = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!body.length) {
+    return content.replace(/\u000b/g, '\\\n');
+  }
+
+  let text;
+  if (isMonospace(style)) {
+    const fence = body.includes('`') ? '``' : '`';
+    text = `${fence}${body}${fence}`;
+  } else {
+    text = escapeText(body).replace(/\u000b/g, '\\\n');
+    if (options.bold && style.bold) {
+      text = `**${text}**`;
+    }
+    if (style.italic) {
+      text = `*${text}*`;
+    }
+    if (style.strikethrough) {
+      text = `~~${text}~~`;
+    }
+
+    const css = [];
+    const color = toHex(style.foregroundColor);
+    if (color) {
+      css.push(`color: ${color}`);
+    }
+    const backgroundColor = toHex(style.backgroundColor);
+    if (backgroundColor) {
+      css.push(`background-color: ${backgroundColor}`);
+    }
+    if (style.underline && !style.link) {
+      css.push('font-style: underline');
+    }
+    if (style.smallCaps) {
+      css.push('font-variant: small-caps');
+    }
+    if (style.fontFamily) {
+      css.push(`font-family: ${style.fontFamily}`);
+    }
+    if (options.fontSizes && style.fontSize?.magnitude) {
+      css.push(`font-size: ${style.fontSize.magnitude}pt`);
+    }
+    if (style.baselineOffset === 'SUPERSCRIPT') {
+      text = `<sup${css.length ? ` style="${css.join('; ')}"` : ''}>${text}</sup>`;
+    } else if (style.baselineOffset === 'SUBSCRIPT') {
+      text = `<sub${css.length ? ` style="${css.join('; ')}"` : ''}>${text}</sub>`;
+    } else if (css.length) {
+      text = `<span style="${css.join('; ')}">${text}</span>`;
+    }
+  }
+
+  if (style.link?.url) {
+    text = `[${text}](${style.link.url})`;
+  }
+  return leading + text + trailing;
+}
+
+/**
+ * Splits shape or table cell text into paragraphs of inline markdown.
+ */
+function extractParagraphs(
+  text: SlidesV1.Schema$TextContent | undefined,
+  options: RunOptions
+): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  let runs: SlidesV1.Schema$TextRun[] = [];
+  let bullet: SlidesV1.Schema$Bullet | undefined;
+
+  const endParagraph = () => {
+    if (!runs.length) {
+      return;
+    }
+    const rawText = runs
+      .map(run => run.content ?? '')
+      .join('')
+      .replace(/\n$/, '');
+    const code =
+      rawText.trim().length > 0 &&
+      runs.every(run => !run.content?.trim() || isMonospace(run.style));
+    paragraphs.push({
+      markdown: runs.map(run => formatRun(run, options)).join(''),
+      rawText: rawText,
+      code: code,
+      bullet: bullet && {
+        ordered: /^[0-9a-z]+[.)]?$/i.test(bullet.glyph?.trim() ?? ''),
+        level: bullet.nestingLevel ?? 0,
+      },
+    });
+    runs = [];
+  };
+
+  for (const element of text?.textElements ?? []) {
+    if (element.paragraphMarker) {
+      endParagraph();
+      bullet = element.paragraphMarker.bullet ?? undefined;
+    } else if (element.textRun) {
+      runs.push(element.textRun);
+    } else if (element.autoText) {
+      runs.push({content: element.autoText.content});
+    }
+  }
+  endParagraph();
+  return paragraphs;
+}
+
+/**
+ * Joins paragraphs into markdown blocks. Runs of monospace paragraphs
+ * become fenced code blocks, bulleted paragraphs become lists.
+ */
+function paragraphsToMarkdown(paragraphs: Paragraph[]): string[] {
+  const blocks: string[] = [];
+  let list: string[] = [];
+  let code: string[] = [];
+
+  const flush = () => {
+    if (list.length) {
+      blocks.push(list.join('\n'));
+      list = [];
+    }
+    if (code.length) {
+      blocks.push('```\n' + code.join('\n') + '\n```');
+      code = [];
+    }
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.bullet) {
+      if (code.length) {
+        flush();
+      }
+      const indent = '    '.repeat(paragraph.bullet.level);
+      const marker = paragraph.bullet.ordered ? '1.' : '*';
+      list.push(`${indent}${marker} ${paragraph.markdown.trim()}`);
+    } else if (paragraph.code) {
+      if (list.length) {
+        flush();
+      }
+      code.push(paragraph.rawText.replace(/\u000b/g, '\n'));
+    } else {
+      flush();
+      if (paragraph.markdown.trim().length) {
+        blocks.push(escapeBlockStart(paragraph.markdown));
+      }
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function inlineText(text: SlidesV1.Schema$TextContent | undefined): string {
+  return extractParagraphs(text, PLACEHOLDER_RUNS)
+    .map(paragraph => paragraph.markdown.replace(/\\\n/g, ' ').trim())
+    .filter(markdown => markdown.length)
+    .join(' ');
+}
+
+// Attributes for the properties that differ from how videos are
+// embedded by default, e.g. ` {start=10 mute}`
+function videoAttributes(
+  properties: SlidesV1.Schema$VideoProperties | undefined
+): string {
+  if (!properties) {
+    return '';
+  }
+  const attrs = [];
+  if (properties.start) {
+    attrs.push(`start=${properties.start}`);
+  }
+  if (properties.end) {
+    attrs.push(`end=${properties.end}`);
+  }
+  if (properties.mute) {
+    attrs.push('mute');
+  }
+  if (!properties.autoPlay) {
+    attrs.push('autoplay=false');
+  }
+  return attrs.length ? ` {${attrs.join(' ')}}` : '';
+}
+
+function tableToMarkdown(table: SlidesV1.Schema$Table): string {
+  const rows = (table.tableRows ?? []).map((row, rowIndex) =>
+    (row.tableCells ?? []).map(cell =>
+      extractParagraphs(cell.text, {fontSizes: true, bold: rowIndex > 0})
+        .map(paragraph => paragraph.markdown.replace(/\\\n/g, ' ').trim())
+        .filter(markdown => markdown.length)
+        .join(' ')
+    )
+  );
+  const columns = table.columns ?? Math.max(0, ...rows.map(r => r.length));
+  const formatRow = (row: string[]) => {
+    const cells = [];
+    for (let i = 0; i < columns; ++i) {
+      cells.push(row[i] ?? '');
+    }
+    return '| ' + cells.join(' | ') + ' |';
+  };
+  if (!rows.length) {
+    return '';
+  }
+  const separator = '|' + new Array(columns).fill('---').join('|') + '|';
+  return [formatRow(rows[0]), separator, ...rows.slice(1).map(formatRow)].join(
+    '\n'
+  );
+}
+
+function flattenElements(
+  elements: SlidesV1.Schema$PageElement[]
+): SlidesV1.Schema$PageElement[] {
+  return elements.flatMap(element =>
+    element.elementGroup
+      ? flattenElements(element.elementGroup.children ?? [])
+      : [element]
+  );
+}
+
+function horizontalBounds(element: SlidesV1.Schema$PageElement): {
+  x: number;
+  width: number;
+} {
+  return {
+    x: element.transform?.translateX ?? 0,
+    width:
+      (element.size?.width?.magnitude ?? 0) * (element.transform?.scaleX ?? 1),
+  };
+}
+
+/**
+ * Picks the column an element belongs to, by where its center falls.
+ */
+function findColumn(
+  columns: Column[],
+  element: SlidesV1.Schema$PageElement
+): Column {
+  if (!columns.length) {
+    columns.push({x: 0, width: 0, blocks: []});
+  }
+  if (columns.length === 1) {
+    return columns[0];
+  }
+  const {x, width} = horizontalBounds(element);
+  const center = x + width / 2;
+  const distance = (column: Column) =>
+    Math.abs(column.x + column.width / 2 - center);
+  return columns.reduce((best, column) =>
+    distance(column) < distance(best) ? column : best
+  );
+}
+
+function findPlaceholders(
+  elements: SlidesV1.Schema$PageElement[],
+  types: string[]
+): SlidesV1.Schema$PageElement[] {
+  return elements.filter(element =>
+    types.includes(element.shape?.placeholder?.type ?? '')
+  );
+}
+
+function speakerNotes(slide: SlidesV1.Schema$Page): string | undefined {
+  const notesPage = slide.slideProperties?.notesPage;
+  const notesId = notesPage?.notesProperties?.speakerNotesObjectId;
+  const shape = notesPage?.pageElements?.find(e => e.objectId === notesId);
+  const blocks = paragraphsToMarkdown(
+    extractParagraphs(shape?.shape?.text, SHAPE_RUNS)
+  );
+  if (!blocks.length) {
+    return undefined;
+  }
+  return '<!--\n' + blocks.join('\n\n').replace(/--+>/g, '- ->') + '\n-->';
+}
+
+/**
+ * Determines which layout the generator would pick for the markdown,
+ * so an explicit layout is only written when it differs.
+ */
+function inferLayout(
+  presentation: SlidesV1.Schema$Presentation,
+  markdown: string
+): string | undefined {
+  try {
+    const [slide] = extractSlides(markdown);
+    return slide ? matchLayout(presentation, slide).name : undefined;
+  } catch (e) {
+    debug('Unable to infer layout: %O', e);
+    return undefined;
+  }
+}
+
+function exportSlide(
+  presentation: SlidesV1.Schema$Presentation,
+  slide: SlidesV1.Schema$Page
+): string {
+  const layout = presentation.layouts?.find(
+    l => l.objectId === slide.slideProperties?.layoutObjectId
+  );
+  const layoutName = layout?.layoutProperties?.name ?? undefined;
+  const elements = flattenElements(slide.pageElements ?? []);
+  const sections: string[] = [];
+
+  const [title] = findPlaceholders(elements, ['TITLE', 'CENTERED_TITLE']);
+  const titleText = inlineText(title?.shape?.text);
+  if (titleText.length) {
+    const big = BIG_LAYOUTS.includes(layoutName ?? '') ? ' {.big}' : '';
+    sections.push(`# ${titleText}${big}`);
+  }
+  const [subtitle] = findPlaceholders(elements, ['SUBTITLE']);
+  const subtitleText = inlineText(subtitle?.shape?.text);
+  if (subtitleText.length) {
+    sections.push(`## ${subtitleText}`);
+  }
+
+  const bodies = findPlaceholders(elements, ['BODY']).sort(
+    (a, b) => horizontalBounds(a).x - horizontalBounds(b).x
+  );
+  const columns: Column[] = bodies.map(body => ({
+    ...horizontalBounds(body),
+    blocks: paragraphsToMarkdown(
+      extractParagraphs(body.shape?.text, PLACEHOLDER_RUNS)
+    ),
+  }));
+  const tables: string[] = [];
+
+  for (const element of elements) {
+    if (element.shape?.text && !element.shape.placeholder) {
+      findColumn(columns, element).blocks.push(
+        ...paragraphsToMarkdown(
+          extractParagraphs(element.shape.text, SHAPE_RUNS)
+        )
+      );
+    } else if (element.image && !element.image.placeholder) {
+      const url = element.image.sourceUrl ?? element.image.contentUrl;
+      const alt = escapeText(element.description ?? '');
+      findColumn(columns, element).blocks.push(`![${alt}](${url})`);
+    } else if (element.video) {
+      const service = VIDEO_SERVICES[element.video.source ?? ''];
+      if (service) {
+        findColumn(columns, element).blocks.push(
+          `@[${service}](${element.video.id})` +
+            videoAttributes(element.video.videoProperties)
+        );
+      } else {
+        debug('Skipping unsupported video %s', element.video.id);
+      }
+    } else if (element.table) {
+      tables.push(tableToMarkdown(element.table));
+    }
+  }
+
+  // Drop empty trailing columns, but keep empty leading ones in place
+  while (columns.length && !columns[columns.length - 1].blocks.length) {
+    columns.pop();
+  }
+  if (columns.length) {
+    sections.push(
+      columns
+        .map(column => column.blocks.join('\n\n'))
+        .join('\n\n{.column}\n\n')
+    );
+  }
+  sections.push(...tables.filter(table => table.length));
+
+  const background =
+    slide.pageProperties?.pageBackgroundFill?.stretchedPictureFill?.contentUrl;
+  if (background) {
+    sections.push(`![](${background}){.background}`);
+  }
+
+  const displayName = layout?.layoutProperties?.displayName;
+  if (
+    layoutName &&
+    displayName &&
+    inferLayout(presentation, sections.join('\n\n')) !== layoutName
+  ) {
+    sections.push(`{layout="${displayName}"}`);
+  }
+
+  const notes = speakerNotes(slide);
+  if (notes) {
+    sections.push(notes);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Converts a presentation back into markdown that md2gslides can
+ * regenerate it from.
+ *
+ * Layouts are expressed the same way they are selected when generating
+ * -- via titles, subtitles, {.big} and {.column} -- with an explicit
+ * {layout="..."} only when content alone would pick a different one.
+ * Formatting that markdown can't express (positions, sizes, theme
+ * colors) is dropped.
+ *
+ * @param {Object} presentation Presentation, e.g. from presentations.get
+ * @returns {string} Markdown
+ */
+export default function exportMarkdown(
+  presentation: SlidesV1.Schema$Presentation
+): string {
+  const slides = (presentation.slides ?? []).map(slide =>
+    exportSlide(presentation, slide)
+  );
+  return slides.join('\n\n---\n\n') + '\n';
+}
@@ -0,0 +1,172 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import {URL, fileURLToPath} from 'url';
+import sharp from 'sharp';
+import tmp from 'tmp-promise';
+import {ImageCrop, ImageDefinition} from '../slides.js';
+import ImageCache, {hashContent} from './cache.js';
+import assert from 'assert';
+
+const debug = Debug('md2gslides');
+tmp.setGracefulCleanup();
+
+const MAX_REDIRECTS = 5;
+// Milliseconds to wait for a server before giving up
+const DOWNLOAD_TIMEOUT = 30000;
+
+/**
+ * Fetches a URL over HTTP/S, following redirects.
+ *
+ * @param {string} url URL to fetch
+ * @param {number} timeout Milliseconds to wait for the server
+ * @returns {Promise<Buffer>} Body of the response
+ */
+export function download(
+  url: string,
+  timeout = DOWNLOAD_TIMEOUT,
+  redirects = 0
+): Promise<Buffer> {
+  const client = url.startsWith('https:') ? https : http;
+  return new Promise((resolve, reject) => {
+    const fail = (message: string) =>
+      reject(new Error(`Unable to download ${url}: ${message}`));
+    const req = client.get(url, res => {
+      const status = res.statusCode ?? 0;
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          fail('too many redirects');
+          return;
+        }
+        const location = new URL(res.headers.location, url).toString();
+        resolve(download(location, timeout, redirects + 1));
+        return;
+      }
+      if (status !== 200) {
+        res.resume();
+        fail(`status ${status}`);
+        return;
+      }
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve(Buffer.concat(chunks)));
+      res.on('error', err => fail(err.message));
+    });
+    req.setTimeout(timeout, () => {
+      req.destroy();
+      fail(`no response after ${timeout}ms`);
+    });
+    req.on('error', err => fail(err.message));
+  });
+}
+
+async function readImage(url: string): Promise<Buffer> {
+  if (url.startsWith('file:')) {
+    return fs.promises.readFile(fileURLToPath(url));
+  }
+  return download(url);
+}
+
+async function cropImage(buffer: Buffer, crop: ImageCrop): Promise<Buffer> {
+  const {width, height} = await sharp(buffer).metadata();
+  assert(width && height);
+  const left = Math.round(width * crop.left);
+  const top = Math.round(height * crop.top);
+  return sharp(buffer)
+    .extract({
+      left: left,
+      top: top,
+      width: Math.max(1, Math.round(width * (1 - crop.right)) - left),
+      height: Math.max(1, Math.round(height * (1 - crop.bottom)) - top),
+    })
+    .toBuffer();
+}
+
+async function fadeImage(buffer: Buffer, opacity: number): Promise<Buffer> {
+  // Sharp applies operations in its own order, so the alpha channel has
+  // to be added in a pass of its own
+  const withAlpha = await sharp(buffer).ensureAlpha().toBuffer();
+  return sharp(withAlpha).linear([1, 1, 1, opacity], [0, 0, 0, 0]).toBuffer();
+}
+
+/**
+ * Crops, stretches and changes the opacity of the image, if asked to,
+ * since the Slides API can't do any of these. Images are sized first, see
+ * probe.ts. The adjusted image is saved as a local file, to be uploaded
+ * like any other.
+ *
+ * Adjustments are cached by the content of the image, so unchanged
+ * images are only adjusted once.
+ *
+ * @param {ImageDefinition} image Image to adjust if needed
+ * @param {ImageCache} cache Previously adjusted images
+ * @return {Promise<ImageDefinition>} Promise resolved with the image
+ */
+async function maybeAdjustImage(
+  image: ImageDefinition,
+  cache?: ImageCache
+): Promise<ImageDefinition> {
+  const stretch = image.fit === 'stretch';
+  if (!image.crop && image.opacity === undefined && !stretch) {
+    return image;
+  }
+  assert(image.url);
+  debug('Adjusting image %s', image.url);
+
+  let buffer = await readImage(image.url);
+  const hash = hashContent(
+    JSON.stringify([
+      hashContent(buffer),
+      image.crop,
+      image.opacity,
+      stretch ? [image.width, image.height] : undefined,
+    ])
+  );
+  const cached = await cache?.getRendered(hash);
+  if (cached) {
+    image.url = 'file://' + cached.path;
+    return image;
+  }
+
+  if (image.crop) {
+    buffer = await cropImage(buffer, image.crop);
+  }
+  if (stretch) {
+    buffer = await sharp(buffer)
+      .resize({
+        width: Math.round(image.width),
+        height: Math.round(image.height),
+        fit: 'fill',
+      })
+      .toBuffer();
+  }
+  if (image.opacity !== undefined) {
+    buffer = await fadeImage(buffer, image.opacity);
+  }
+  let filePath = await tmp.tmpName({postfix: '.png'});
+  await sharp(buffer).png().toFile(filePath);
+  if (cache) {
+    filePath = await cache.setRendered(hash, {path: filePath});
+  }
+  image.url = 'file://' + filePath;
+  debug('Adjusted image path: %s', image.url);
+  return image;
+}
+
+export default maybeAdjustImage;
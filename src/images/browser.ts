@@ -0,0 +1,208 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import puppeteer, {Browser, Page} from 'puppeteer';
+
+const debug = Debug('md2gslides');
+
+export interface BrowserOptions {
+  // Pages rendering at the same time. Defaults to 4.
+  concurrency?: number;
+  // Milliseconds a single render may take. Defaults to 30 seconds.
+  timeout?: number;
+  // Starts the browser. Defaults to puppeteer.launch().
+  launch?: () => Promise<Browser>;
+}
+
+export interface Screenshot {
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * HTML of a page with an empty `DOMtoImage` element to draw in.
+ *
+ * @param {string} style Inline CSS of the element, e.g. from `{style=...}`
+ * @returns {string}
+ */
+export function emptyPage(style?: string): string {
+  const attribute = style ? ` style="${escapeHtml(style)}"` : '';
+  return `<html><body><div id="DOMtoImage"${attribute}></div></body></html>`;
+}
+
+/**
+ * Shares one headless browser between renders, rather than starting one
+ * for each image. At most `concurrency` pages render at once, the rest
+ * wait their turn. Pages are reused once done, unless the render failed.
+ *
+ * The browser is started on first use and stays open until close() is
+ * called, after which the next render starts a new one.
+ */
+export default class BrowserPool {
+  private concurrency: number;
+  private timeout: number;
+  private launch: () => Promise<Browser>;
+  private browser?: Promise<Browser>;
+  private idlePages: Page[] = [];
+  private busy = 0;
+  private waiting: (() => void)[] = [];
+
+  public constructor(options: BrowserOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.timeout = options.timeout ?? 30000;
+    this.launch = options.launch ?? (() => puppeteer.launch());
+  }
+
+  /**
+   * Loads the HTML in a page and takes a screenshot of the element with
+   * the id `DOMtoImage`.
+   *
+   * @param {string} html Page to load
+   * @param {Function} prepare Called once the page is loaded, e.g. to add
+   *   scripts that draw into the element
+   * @returns {Promise<Screenshot>} Screenshot, and the size of the element
+   *   in CSS pixels
+   */
+  public async screenshot(
+    html: string,
+    prepare?: (page: Page) => Promise<void>
+  ): Promise<Screenshot> {
+    return this.withPage(async page => {
+      await page.setContent(html);
+      if (prepare) {
+        await prepare(page);
+      }
+
+      // grab the content and make an image from it
+      const content = await page.$('#DOMtoImage');
+      if (!content) {
+        throw new Error('No node found with id `DOMtoImage`');
+      }
+      const boundingBox = await content.boundingBox();
+      if (!boundingBox) {
+        throw new Error('Node with id `DOMtoImage` is not visible');
+      }
+      const buffer = await content.screenshot({omitBackground: true});
+      return {
+        buffer: Buffer.from(buffer),
+        width: boundingBox.width,
+        height: boundingBox.height,
+      };
+    });
+  }
+
+  /**
+   * Closes the browser, if started. Renders still in progress fail.
+   */
+  public async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = undefined;
+    this.idlePages = [];
+    if (!browser) {
+      return;
+    }
+    debug('Closing browser');
+    try {
+      await (await browser).close();
+    } catch (err) {
+      // Failed to start, nothing to close
+      debug('Browser did not start: %O', err);
+    }
+  }
+
+  protected async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    await this.acquire();
+    let page: Page | undefined;
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      page = await this.openPage();
+      const browser = this.browser;
+      const timeout = new Promise<never>((resolve, reject) => {
+        timer = setTimeout(
+          () =>
+            reject(new Error(`Rendering timed out after ${this.timeout}ms`)),
+          this.timeout
+        );
+      });
+      const result = await Promise.race([fn(page), timeout]);
+      if (browser && this.browser === browser) {
+        // Not closed in the meantime
+        this.idlePages.push(page);
+        page = undefined;
+      }
+      return result;
+    } finally {
+      clearTimeout(timer);
+      if (page) {
+        // Left in an unknown state, also stops a render that timed out
+        await page.close().catch(err => debug('Unable to close page: %O', err));
+      }
+      this.release();
+    }
+  }
+
+  private async openPage(): Promise<Page> {
+    const page = this.idlePages.pop();
+    if (page) {
+      return page;
+    }
+    if (!this.browser) {
+      debug('Starting browser');
+      const launching = this.launch();
+      this.browser = launching;
+      launching.catch(() => {
+        // Started again on next use
+        if (this.browser === launching) {
+          this.browser = undefined;
+        }
+      });
+    }
+    const newPage = await (await this.browser).newPage();
+    // set deviceScaleFactor for higher-res images
+    await newPage.setViewport({
+      width: 1920,
+      height: 1080,
+      deviceScaleFactor: 5,
+    });
+    return newPage;
+  }
+
+  private acquire(): Promise<void> {
+    if (this.busy < this.concurrency) {
+      this.busy++;
+      return Promise.resolve();
+    }
+    // The slot is handed over by release()
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.busy--;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {mkdirp} from 'mkdirp';
+import {Low, Memory} from 'lowdb';
+import {JSONFile} from 'lowdb/node';
+
+const debug = Debug('md2gslides');
+
+export interface CacheOptions {
+  // JSON file to persist the cache in. Kept in memory if omitted.
+  filePath?: string;
+  // Directory to keep rendered images in. Left in place if omitted.
+  renderDir?: string;
+}
+
+export interface RenderedImage {
+  path: string;
+  width?: number;
+  height?: number;
+}
+
+interface Schema {
+  // Store key -> content hash -> URL
+  uploads: {[store: string]: {[hash: string]: string}};
+  // Source hash -> rendered file
+  rendered: {[hash: string]: RenderedImage};
+}
+
+/**
+ * Hashes a string or buffer for use as a cache key.
+ *
+ * @param {string|Buffer} data Data to hash
+ * @returns {string} hex digest
+ */
+export function hashContent(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Remembers uploaded and rendered images across runs so unchanged images
+ * are neither uploaded nor rendered again.
+ *
+ * Uploads are keyed by the content of the file, rendered images by their
+ * source. Entries are only hints, callers are expected to verify that
+ * the cached image still exists before using it.
+ */
+export default class ImageCache {
+  private db: Low<Schema>;
+  private renderDir?: string;
+  private loaded?: Promise<void>;
+
+  public constructor(options: CacheOptions = {}) {
+    let adapter;
+    if (options.filePath) {
+      mkdirp.sync(path.dirname(options.filePath));
+      adapter = new JSONFile<Schema>(options.filePath);
+    } else {
+      adapter = new Memory<Schema>();
+    }
+    this.db = new Low<Schema>(adapter, {uploads: {}, rendered: {}});
+    this.renderDir = options.renderDir;
+  }
+
+  /**
+   * @param {string} store Key identifying the image store
+   * @param {string} hash Hash of the file content
+   * @returns {Promise<string|undefined>} URL of the previous upload
+   */
+  public async getUpload(
+    store: string,
+    hash: string
+  ): Promise<string | undefined> {
+    const data = await this.load();
+    return data.uploads[store]?.[hash];
+  }
+
+  public async setUpload(
+    store: string,
+    hash: string,
+    url: string
+  ): Promise<void> {
+    const data = await this.load();
+    data.uploads[store] ||= {};
+    data.uploads[store][hash] = url;
+    await this.db.write();
+  }
+
+  public async deleteUpload(store: string, hash: string): Promise<void> {
+    const data = await this.load();
+    if (data.uploads[store]) {
+      delete data.uploads[store][hash];
+      await this.db.write();
+    }
+  }
+
+  /**
+   * @param {string} hash Hash of the image source
+   * @returns {Promise<RenderedImage|undefined>} Rendered image, if the
+   *   file is still present
+   */
+  public async getRendered(hash: string): Promise<RenderedImage | undefined> {
+    const data = await this.load();
+    const rendered = data.rendered[hash];
+    if (rendered && fs.existsSync(rendered.path)) {
+      debug('Using cached rendering %s', rendered.path);
+      return rendered;
+    }
+    return undefined;
+  }
+
+  /**
+   * Records a rendered image, moving it into the render directory so
+   * that it outlives the temp files of this run.
+   *
+   * @param {string} hash Hash of the image source
+   * @param {RenderedImage} rendered Rendered image
+   * @returns {Promise<string>} Path to the kept file
+   */
+  public async setRendered(
+    hash: string,
+    rendered: RenderedImage
+  ): Promise<string> {
+    const data = await this.load();
+    let filePath = rendered.path;
+    if (this.renderDir) {
+      await mkdirp(this.renderDir);
+      filePath = path.join(this.renderDir, hash + path.extname(rendered.path));
+      await fs.promises.copyFile(rendered.path, filePath);
+    }
+    data.rendered[hash] = {...rendered, path: filePath};
+    await this.db.write();
+    return filePath;
+  }
+
+  private async load(): Promise<Schema> {
+    if (!this.loaded) {
+      this.loaded = this.db.read().then(() => {
+        this.db.data ||= {uploads: {}, rendered: {}};
+        this.db.data.uploads ||= {};
+        this.db.data.rendered ||= {};
+      });
+    }
+    await this.loaded;
+    return this.db.data;
+  }
+}
@@ -0,0 +1,81 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import fs from 'fs';
+import {ImageStore} from './store.js';
+import ImageCache, {hashContent} from './cache.js';
+
+const debug = Debug('md2gslides');
+
+/**
+ * Wraps an image store so each distinct file is uploaded at most once.
+ *
+ * Files are identified by their content, so the same image referenced
+ * from several slides (or renamed between runs) shares one upload.
+ * Uploads from earlier runs are reused once the store confirms they
+ * still exist.
+ */
+export default class CachedImageStore implements ImageStore {
+  private store: ImageStore;
+  private cache: ImageCache;
+  private pending: {[hash: string]: Promise<string>} = {};
+
+  /**
+   * @param {ImageStore} store Store to upload to on a cache miss
+   * @param {ImageCache} cache Cache of previous uploads
+   */
+  public constructor(store: ImageStore, cache: ImageCache) {
+    this.store = store;
+    this.cache = cache;
+  }
+
+  public get key(): string | undefined {
+    return this.store.key;
+  }
+
+  /**
+   * @param {string} filePath -- Local path to image to upload
+   * @returns {Promise<string>} URL to hosted image
+   */
+  public async upload(filePath: string): Promise<string> {
+    if (!this.store.key) {
+      return this.store.upload(filePath);
+    }
+    const hash = hashContent(await fs.promises.readFile(filePath));
+    if (!this.pending[hash]) {
+      this.pending[hash] = this.uploadIfMissing(this.store.key, hash, filePath);
+    }
+    return this.pending[hash];
+  }
+
+  private async uploadIfMissing(
+    storeKey: string,
+    hash: string,
+    filePath: string
+  ): Promise<string> {
+    const cachedUrl = await this.cache.getUpload(storeKey, hash);
+    if (cachedUrl) {
+      if (!this.store.exists || (await this.store.exists(cachedUrl))) {
+        debug('Reusing upload of %s: %s', filePath, cachedUrl);
+        return cachedUrl;
+      }
+      debug('Cached upload %s is gone, uploading again', cachedUrl);
+      await this.cache.deleteUpload(storeKey, hash);
+    }
+    const url = await this.store.upload(filePath);
+    await this.cache.setUpload(storeKey, hash, url);
+    return url;
+  }
+}
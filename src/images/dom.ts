@@ -1,7 +1,7 @@
 import sharp from 'sharp';
 import tmp from 'tmp-promise';
 import {ImageDefinition} from '../slides.js';
-import puppeteer from "puppeteer";
+import BrowserPool from './browser.js';
 
 import Debug from 'debug';
 const debug = Debug('md2gslides');
@@ -10,7 +10,7 @@ tmp.setGracefulCleanup();
 
 // given a dom string and one or more Urls, render the DOM
 // to a page and then generate an image of it.
-async function renderDOM(image: ImageDefinition) {
+async function renderDOM(image: ImageDefinition, browser: BrowserPool) {
   if(!image.source) {
     throw "Error: detected an html fence with no html inside"
   }
@@ -24,25 +24,10 @@ async function renderDOM(image: ImageDefinition) {
     </head>
     </html>
     `;
-  // create the browser, and set the content of the page
-  const browser = await puppeteer.launch();
-  const page = await browser.newPage();
-  await page.setContent(html);
-
-  // set deviceScaleFactor for higher-res images
-  await page.setViewport({ width: 1920, height: 1080, deviceScaleFactor: 5 });
-
-  // grab the content and make an image from it
-  const content = await page.$("#DOMtoImage");
-  if(!content) { throw "Error: no node found with id `DOMtoImage`"; }
-  const boundingBox = await content.boundingBox();
-  image.width = boundingBox!.width;
-  image.height= boundingBox!.height;
-  const imageBuffer = await content.screenshot({ omitBackground: true });
-
-  // close the page and browser
-  await page.close();
-  await browser.close();
+  const screenshot = await browser.screenshot(html);
+  image.width = screenshot.width;
+  image.height = screenshot.height;
+  const imageBuffer = screenshot.buffer;
 
   const path = await tmp.tmpName({postfix: '.png'});
   await sharp(imageBuffer).withMetadata({density: 2400}).resize({width: 1250}).png().toFile(path);
@@ -0,0 +1,133 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import {URL} from 'url';
+import sharp from 'sharp';
+import tmp from 'tmp-promise';
+import {ImageDefinition} from '../slides.js';
+import {download} from './adjust.js';
+import assert from 'assert';
+
+const debug = Debug('md2gslides');
+tmp.setGracefulCleanup();
+
+// oEmbed endpoints of well known providers, by host. Others are found
+// from the page of the embed, if it links to one.
+const OEMBED_ENDPOINTS: {[host: string]: string} = {
+  'vimeo.com': 'https://vimeo.com/api/oembed.json',
+  'player.vimeo.com': 'https://vimeo.com/api/oembed.json',
+  'youtube.com': 'https://www.youtube.com/oembed',
+  'youtu.be': 'https://www.youtube.com/oembed',
+};
+
+// Size of the stand-in image, 16:9 like most videos
+const PLACEHOLDER_WIDTH = 640;
+const PLACEHOLDER_HEIGHT = 360;
+
+interface OEmbed {
+  thumbnail_url?: string;
+}
+
+async function findOEmbedEndpoint(url: string): Promise<string | undefined> {
+  const host = new URL(url).hostname.replace(/^www\./, '');
+  const endpoint = OEMBED_ENDPOINTS[host];
+  if (endpoint) {
+    return `${endpoint}?url=${encodeURIComponent(url)}`;
+  }
+  // Discovery, see https://oembed.com/#section4
+  const page = (await download(url)).toString('utf8');
+  const link = page.match(
+    /<link[^>]+type=["']application\/json\+oembed["'][^>]*>/i
+  );
+  const href = link?.[0].match(/href=["']([^"']+)["']/i)?.[1];
+  return href?.replace(/&amp;/g, '&');
+}
+
+async function fetchThumbnail(url: string): Promise<Buffer | undefined> {
+  const endpoint = await findOEmbedEndpoint(url);
+  if (!endpoint) {
+    return undefined;
+  }
+  const oembed = JSON.parse((await download(endpoint)).toString()) as OEmbed;
+  if (!oembed.thumbnail_url) {
+    return undefined;
+  }
+  return download(oembed.thumbnail_url);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Play button with the host of the embed underneath
+function placeholderSvg(url: string): string {
+  const host = new URL(url).hostname.replace(/^www\./, '');
+  const x = PLACEHOLDER_WIDTH / 2;
+  const y = PLACEHOLDER_HEIGHT / 2;
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" ' +
+    `width="${PLACEHOLDER_WIDTH}" height="${PLACEHOLDER_HEIGHT}">` +
+    '<rect width="100%" height="100%" fill="#202124"/>' +
+    `<circle cx="${x}" cy="${y - 20}" r="48" fill="#5f6368"/>` +
+    `<polygon points="${x - 16},${y - 48} ${x - 16},${y + 8} ${x + 28},${
+      y - 20
+    }" fill="#ffffff"/>` +
+    `<text x="${x}" y="${y + 80}" font-family="Arial, sans-serif" ` +
+    `font-size="28" fill="#ffffff" text-anchor="middle">${escapeXml(
+      host
+    )}</text>` +
+    '</svg>'
+  );
+}
+
+export interface Rendering {
+  path: string;
+  // Whether the image is worth caching. Stand-ins aren't, so the real
+  // image is fetched next time.
+  cacheable: boolean;
+}
+
+/**
+ * Fetches the thumbnail of an embed (e.g. a Vimeo video) with oEmbed.
+ * When offline, or if there's no thumbnail, a stand-in image is drawn
+ * instead.
+ *
+ * @param {ImageDefinition} image Image with the URL of the embed as its
+ *   source
+ * @returns {Promise<Rendering>} Path to the thumbnail, as a PNG
+ */
+async function renderEmbed(image: ImageDefinition): Promise<Rendering> {
+  debug('Fetching thumbnail of %s', image.source);
+  assert(image.source);
+  const path = await tmp.tmpName({postfix: '.png'});
+  try {
+    const thumbnail = await fetchThumbnail(image.source);
+    if (thumbnail) {
+      await sharp(thumbnail).png().toFile(path);
+      return {path, cacheable: true};
+    }
+  } catch (err) {
+    debug('Unable to fetch thumbnail of %s: %O', image.source, err);
+  }
+  await sharp(Buffer.from(placeholderSvg(image.source)))
+    .png()
+    .toFile(path);
+  return {path, cacheable: false};
+}
+
+export default renderEmbed;
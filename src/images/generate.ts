@@ -16,24 +16,52 @@ import Debug from 'debug';
 import renderSVG from './svg.js';
 import renderMathJax from './mathjax.js';
 import renderDOM from './dom.js';
+import renderMermaid from './mermaid.js';
+import renderGraphviz from './graphviz.js';
+import renderVegaLite from './vega.js';
+import renderEmbed, {Rendering} from './embed.js';
+import BrowserPool from './browser.js';
 import {ImageDefinition} from '../slides.js';
+import ImageCache, {hashContent} from './cache.js';
 import assert from 'assert';
 
 const debug = Debug('md2gslides');
 
-const renderers: {[key: string]: (img: ImageDefinition) => Promise<String>} = {
+// Path to the image, or a rendering that may opt out of the cache
+type Renderer = (
+  img: ImageDefinition,
+  browser: BrowserPool
+) => Promise<string | Rendering>;
+
+const renderers: {[key: string]: Renderer} = {
   svg: renderSVG,
   math: renderMathJax,
-  html: renderDOM
+  html: renderDOM,
+  mermaid: renderMermaid,
+  dot: renderGraphviz,
+  graphviz: renderGraphviz,
+  'vega-lite': renderVegaLite,
+  embed: renderEmbed,
 };
 
 /**
  * Checks to see if the image requires rasterization (e.g. SVG, MathJAX, etc)
+ *
+ * Renderings are cached by source, so unchanged images are only
+ * generated once.
+ *
+ * Images drawn in a browser (e.g. HTML, Mermaid) share the given browser.
+ * Without one, a browser is started for the image and closed after.
+ *
  * @param {Image} image to generate if needed
+ * @param {ImageCache} cache Previously rendered images
+ * @param {BrowserPool} browser Browser to draw images in
  * @return {Promise<Image>} Promise resolved with image URL
  */
 async function maybeGenerateImage(
-  image: ImageDefinition
+  image: ImageDefinition,
+  cache?: ImageCache,
+  browser?: BrowserPool
 ): Promise<ImageDefinition> {
   if (image.url) {
     debug('Image already rasterized: %s', image.url);
@@ -47,7 +75,45 @@ async function maybeGenerateImage(
   if (renderer === undefined) {
     throw 'Unsupported generated image: ' + image.source;
   }
-  const filePath = await renderer(image);
+  const sourceHash = hashContent(
+    JSON.stringify([
+      imageType,
+      image.source,
+      image.style,
+      image.color,
+      image.fontSize,
+    ])
+  );
+  const cached = await cache?.getRendered(sourceHash);
+  if (cached) {
+    image.url = 'file://' + cached.path;
+    image.width = cached.width ?? image.width;
+    image.height = cached.height ?? image.height;
+    return image;
+  }
+
+  let rendering;
+  if (browser) {
+    rendering = await renderer(image, browser);
+  } else {
+    const ownBrowser = new BrowserPool({concurrency: 1});
+    try {
+      rendering = await renderer(image, ownBrowser);
+    } finally {
+      await ownBrowser.close();
+    }
+  }
+  if (typeof rendering === 'string') {
+    rendering = {path: rendering, cacheable: true};
+  }
+  let filePath = rendering.path;
+  if (cache && rendering.cacheable) {
+    filePath = await cache.setRendered(sourceHash, {
+      path: filePath,
+      width: image.width,
+      height: image.height,
+    });
+  }
   image.url = 'file://' + filePath;
   //image.type = 'svg';
   debug('Local image path: %s', image.url);
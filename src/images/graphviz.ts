@@ -0,0 +1,39 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import {Graphviz} from '@hpcc-js/wasm-graphviz';
+import renderSVG from './svg.js';
+import {ImageDefinition} from '../slides.js';
+import assert from 'assert';
+
+const debug = Debug('md2gslides');
+
+/**
+ * Lays out a Graphviz graph with the WebAssembly build of Graphviz, so
+ * no binaries need to be installed, and rasterizes it like an SVG.
+ *
+ * @param {ImageDefinition} image Image with the DOT source as its source
+ * @returns {Promise<string>} Path to the rendered PNG
+ */
+async function renderGraphviz(image: ImageDefinition): Promise<string> {
+  debug('Generating Graphviz graph', image);
+  assert(image.source);
+  const graphviz = await Graphviz.load();
+  image.source = graphviz.dot(image.source, 'svg');
+  image.type = 'svg';
+  return await renderSVG(image);
+}
+
+export default renderGraphviz;
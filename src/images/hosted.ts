@@ -0,0 +1,57 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import path from 'path';
+import {URL} from 'url';
+import {ImageStore} from './store.js';
+
+const debug = Debug('md2gslides');
+
+/**
+ * Maps local files to URLs on a server that already hosts them, e.g. a
+ * site built from the same repository as the markdown. Nothing is
+ * uploaded.
+ */
+export default class HostedImageStore implements ImageStore {
+  private baseUrl: string;
+  private rootDir: string;
+
+  /**
+   * @param {string} baseUrl URL that rootDir is served from
+   * @param {string} rootDir Local directory matching the base URL,
+   *   defaults to the working directory
+   */
+  public constructor(baseUrl: string, rootDir?: string) {
+    this.baseUrl = baseUrl.endsWith('/') ? baseUrl : baseUrl + '/';
+    this.rootDir = path.resolve(rootDir ?? process.cwd());
+  }
+
+  /**
+   * @param {string} filePath -- Local path to image
+   * @returns {Promise<string>} URL to hosted image
+   */
+  public async upload(filePath: string): Promise<string> {
+    const relativePath = path.relative(this.rootDir, path.resolve(filePath));
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      throw new Error(
+        `${filePath} is outside of ${this.rootDir} and has no hosted URL. ` +
+          'Generated images require an uploading image store.'
+      );
+    }
+    const url = new URL(relativePath.split(path.sep).join('/'), this.baseUrl);
+    debug('Mapped file %s to %s', filePath, url.href);
+    return url.href;
+  }
+}
@@ -16,15 +16,19 @@ import Debug from 'debug';
 
 import { mathjax } from 'mathjax-full/js/mathjax.js'
 import { TeX } from 'mathjax-full/js/input/tex.js'
+import { MathML } from 'mathjax-full/js/input/mathml.js'
 import { SVG } from 'mathjax-full/js/output/svg.js'
 import { AllPackages } from 'mathjax-full/js/input/tex/AllPackages.js'
 import { liteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor.js'
 import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html.js'
-import renderSVG from './svg.js';
-import {ImageDefinition} from '../slides.js';
+import sharp from 'sharp';
+import tmp from 'tmp-promise';
+import {Color, ImageDefinition} from '../slides.js';
+import {MATH_FONT_SIZE} from '../layout/geometry.js';
 import assert from 'assert';
 
 const debug = Debug('md2gslides');
+tmp.setGracefulCleanup();
 
 
 const adaptor = liteAdaptor()
@@ -35,14 +39,53 @@ const mathjax_document = mathjax.document('', {
   OutputJax: new SVG({ fontCache: 'local' })
 })
 
+const mathml_document = mathjax.document('', {
+  InputJax: new MathML(),
+  OutputJax: new SVG({ fontCache: 'local' })
+})
+
 
 export function get_mathjax_svg(math: string): string {
-  const node = mathjax_document.convert(math)
+  const document =
+    formatFor(math) === 'MathML' ? mathml_document : mathjax_document
+  const node = document.convert(math.trim())
   return adaptor.innerHTML(node)
 }
 
 function formatFor(expression: string): string {
-  return expression.trim().startsWith('<math>') ? 'MathML' : 'TeX';
+  return /^<math[\s>]/.test(expression.trim()) ? 'MathML' : 'TeX';
+}
+
+// MathJax measures its SVG in ex, taken to be half an em
+const EX_PER_EM = 2;
+const PX_PER_PT = 96 / 72;
+// Drawn at several times the size it's shown at, to stay sharp
+const RESOLUTION = 8;
+
+function sizeInPixels(svg: string, name: string, fontSize: number): number {
+  const match = new RegExp(`^<svg[^>]*\\s${name}="([\\d.]+)ex"`).exec(svg);
+  if (!match) {
+    throw new Error(`Unable to find the ${name} of the math`);
+  }
+  return (parseFloat(match[1]) / EX_PER_EM) * fontSize * PX_PER_PT;
+}
+
+function setSize(svg: string, name: string, pixels: number): string {
+  return svg.replace(
+    new RegExp(`^(<svg[^>]*\\s${name}=")[^"]*`),
+    `$1${pixels}px`
+  );
+}
+
+function toCssColor(color?: Color): string | undefined {
+  const rgb = color?.opaqueColor?.rgbColor;
+  if (!rgb) {
+    return undefined;
+  }
+  const channels = [rgb.red, rgb.green, rgb.blue].map(c =>
+    Math.round((c ?? 0) * 255)
+  );
+  return `rgb(${channels.join(', ')})`;
 }
 
 function addOrMergeStyles(svg: string, style?: string): string {
@@ -62,13 +105,32 @@ function addOrMergeStyles(svg: string, style?: string): string {
   }
 }
 
+/**
+ * Renders TeX or MathML, in the color and at the size of the text around
+ * it. The image is sized in pixels to match the font size, and drawn at a
+ * higher resolution.
+ *
+ * @param {ImageDefinition} image Image with the math as its source
+ * @returns {Promise<string>} Path to the rendered PNG
+ */
 async function renderMathJax(image: ImageDefinition): Promise<string> {
   debug('Generating math image: %O', image);
   assert(image.source);
-  const svg = get_mathjax_svg(image.source);
-  image.source = addOrMergeStyles(svg, image.style);
-  image.type = 'svg';
-  return await renderSVG(image);
+  const color = toCssColor(image.color);
+  const style = [image.style, color && `color: ${color}`]
+    .filter(s => s)
+    .join(';');
+  let svg = addOrMergeStyles(get_mathjax_svg(image.source), style);
+
+  const fontSize = image.fontSize ?? MATH_FONT_SIZE;
+  image.width = sizeInPixels(svg, 'width', fontSize);
+  image.height = sizeInPixels(svg, 'height', fontSize);
+  svg = setSize(svg, 'width', image.width * RESOLUTION);
+  svg = setSize(svg, 'height', image.height * RESOLUTION);
+
+  const path = await tmp.tmpName({postfix: '.png'});
+  await sharp(Buffer.from(svg)).png().toFile(path);
+  return path;
 }
 
 export default renderMathJax;
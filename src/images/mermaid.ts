@@ -0,0 +1,67 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import {createRequire} from 'module';
+import sharp from 'sharp';
+import tmp from 'tmp-promise';
+import {ImageDefinition} from '../slides.js';
+import BrowserPool, {emptyPage} from './browser.js';
+import assert from 'assert';
+
+const debug = Debug('md2gslides');
+tmp.setGracefulCleanup();
+
+/**
+ * Draws a Mermaid diagram in a headless browser, since Mermaid needs a
+ * DOM to measure text.
+ *
+ * @param {ImageDefinition} image Image with the diagram as its source
+ * @param {BrowserPool} browser Browser to draw in
+ * @returns {Promise<string>} Path to the rendered PNG
+ */
+async function renderMermaid(
+  image: ImageDefinition,
+  browser: BrowserPool
+): Promise<string> {
+  debug('Generating Mermaid diagram', image);
+  assert(image.source);
+  const source = image.source;
+  const require = createRequire(import.meta.url);
+  const script = require.resolve('mermaid/dist/mermaid.min.js');
+
+  const html = emptyPage(image.style);
+  const screenshot = await browser.screenshot(html, async page => {
+    await page.addScriptTag({path: script});
+    await page.evaluate(async (source: string) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mermaid = (window as any).mermaid;
+      mermaid.initialize({startOnLoad: false});
+      const {svg} = await mermaid.render('diagram', source);
+      const element = document.getElementById('DOMtoImage');
+      if (element) {
+        element.style.display = 'inline-block';
+        element.innerHTML = svg;
+      }
+    }, source);
+  });
+  image.width = screenshot.width;
+  image.height = screenshot.height;
+
+  const path = await tmp.tmpName({postfix: '.png'});
+  await sharp(screenshot.buffer).png().toFile(path);
+  return path;
+}
+
+export default renderMermaid;
@@ -55,27 +55,70 @@ async function probeFile(path: string): Promise<ImageSize> {
   }
 }
 
+/**
+ * Sizes the image from its declared width and height, in pixels, and the
+ * actual size of the file, after any crop:
+ *
+ * - Neither: the actual size
+ * - Width or height: the other follows from the aspect ratio
+ * - Both: depends on `fit`. `contain` (the default) fits the image inside
+ *   the size, `cover` fills it, cropping what doesn't fit, and `stretch`
+ *   fills it, changing the aspect ratio.
+ *
+ * Sizes relative to the placeholder are left to the layout, which keeps
+ * the aspect ratio found here.
+ *
+ * @param {ImageDefinition} image Image to size
+ * @returns {Promise<ImageDefinition>} The image
+ */
 async function probeImage(image: ImageDefinition): Promise<ImageDefinition> {
   debug('Probing image size: %s', image.url);
   assert(image.url);
   const parsedUrl = new URL(image.url);
   let size;
-  if(parsedUrl.protocol === 'file:'){
+  if (parsedUrl.protocol === 'file:') {
     size = await probeFile(parsedUrl.pathname);
   } else {
     size = await probeUrl(image.url);
   }
 
-  //console.log('declared size:', JSON.stringify(image, null, 4), 'actual size', JSON.stringify(size,null,4));
+  const crop = image.crop ?? {top: 0, right: 0, bottom: 0, left: 0};
+  const actualWidth = size.width * (1 - crop.left - crop.right);
+  const actualHeight = size.height * (1 - crop.top - crop.bottom);
 
-  // if there's a custom height/width, we need to scale. Otherwise use 1.
-  let scaleRatio;
-  scaleRatio = image.height? (image.height  / size.height) : 1;
-  scaleRatio = image.width?  (image.width   / size.width ) : 1;
-  
-  image.width  = size.width  * scaleRatio;
-  image.height = size.height * scaleRatio;
-  //console.log('after probe, image:', JSON.stringify(image, null, 4))
+  if (image.width && image.height) {
+    const fit = image.fit ?? 'contain';
+    if (fit === 'contain') {
+      const scale = Math.min(
+        image.width / actualWidth,
+        image.height / actualHeight
+      );
+      image.width = actualWidth * scale;
+      image.height = actualHeight * scale;
+    } else if (fit === 'cover') {
+      // Crop the middle of the image to the aspect ratio of the size
+      const scale = Math.max(
+        image.width / actualWidth,
+        image.height / actualHeight
+      );
+      const trimX = (actualWidth - image.width / scale) / 2 / size.width;
+      const trimY = (actualHeight - image.height / scale) / 2 / size.height;
+      image.crop = {
+        top: crop.top + trimY,
+        right: crop.right + trimX,
+        bottom: crop.bottom + trimY,
+        left: crop.left + trimX,
+      };
+    }
+    // Stretched images are resized when adjusted, see adjust.ts
+  } else if (image.width) {
+    image.height = (image.width * actualHeight) / actualWidth;
+  } else if (image.height) {
+    image.width = (image.height * actualWidth) / actualHeight;
+  } else {
+    image.width = actualWidth;
+    image.height = actualHeight;
+  }
   return image;
 }
 
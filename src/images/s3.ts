@@ -0,0 +1,217 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import {URL} from 'url';
+import {ImageStore} from './store.js';
+
+const debug = Debug('md2gslides');
+
+// Milliseconds to wait for the endpoint before giving up
+const UPLOAD_TIMEOUT = 30000;
+
+const CONTENT_TYPES: {[key: string]: string} = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+export interface S3Options {
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  region?: string;
+  // Base URL of an S3-compatible service. Defaults to AWS.
+  endpoint?: string;
+  // Prepended to object keys, e.g. 'decks/'
+  prefix?: string;
+  // Base URL objects are served from, if not the endpoint itself
+  publicUrl?: string;
+  // Milliseconds to wait for the endpoint. Defaults to 30 seconds.
+  timeout?: number;
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Uploads local files to an S3-compatible bucket. Requests are signed
+ * with AWS Signature Version 4 and use path-style URLs so that other
+ * providers (MinIO, R2, etc.) work too.
+ *
+ * Objects are keyed by a hash of their content, so the same image is
+ * only stored once. The bucket must allow public reads of those objects.
+ */
+export default class S3ImageStore implements ImageStore {
+  private options: S3Options;
+  private region: string;
+  private endpoint: URL;
+  // Path of the endpoint, if it has one, that buckets are under
+  private basePath: string;
+
+  public constructor(options: S3Options) {
+    this.options = options;
+    this.region = options.region ?? 'us-east-1';
+    this.endpoint = new URL(
+      options.endpoint ?? `https://s3.${this.region}.amazonaws.com`
+    );
+    this.basePath = this.endpoint.pathname.replace(/\/$/, '');
+  }
+
+  public get key(): string {
+    return `s3:${this.endpoint.host}${this.basePath}/${this.options.bucket}/${this.options.prefix ?? ''}`;
+  }
+
+  /**
+   * @param {string} url URL returned by an earlier upload
+   * @returns {Promise<boolean>} True if the object is still readable
+   */
+  public exists(url: string): Promise<boolean> {
+    const target = new URL(url);
+    const transport = target.protocol === 'http:' ? http : https;
+    return new Promise(resolve => {
+      const req = transport.request(target, {method: 'HEAD'}, res => {
+        res.resume();
+        resolve(!!res.statusCode && res.statusCode < 300);
+      });
+      req.setTimeout(this.options.timeout ?? UPLOAD_TIMEOUT, () => {
+        debug('No response from %s', url);
+        req.destroy();
+        resolve(false);
+      });
+      req.on('error', err => {
+        debug('Unable to check %s: %O', url, err);
+        resolve(false);
+      });
+      req.end();
+    });
+  }
+
+  /**
+   * @param {string} filePath -- Local path to image to upload
+   * @returns {Promise<string>} URL to hosted image
+   */
+  public async upload(filePath: string): Promise<string> {
+    const body = await fs.promises.readFile(filePath);
+    const extension = path.extname(filePath).toLowerCase();
+    const key = `${this.options.prefix ?? ''}${sha256(body).slice(0, 32)}${extension}`;
+    const objectPath = `${this.basePath}/${this.options.bucket}/${encodeKey(key)}`;
+    debug('Uploading file %s to %s', filePath, objectPath);
+
+    await this.put(objectPath, body, CONTENT_TYPES[extension]);
+
+    if (this.options.publicUrl) {
+      return new URL(encodeKey(key), this.options.publicUrl.replace(/\/?$/, '/'))
+        .href;
+    }
+    return new URL(objectPath, this.endpoint).href;
+  }
+
+  private put(
+    objectPath: string,
+    body: Buffer,
+    contentType = 'application/octet-stream'
+  ): Promise<void> {
+    const now = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = now.slice(0, 8);
+    const payloadHash = sha256(body);
+
+    const headers: {[key: string]: string} = {
+      'content-type': contentType,
+      host: this.endpoint.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': now,
+    };
+    if (this.options.sessionToken) {
+      headers['x-amz-security-token'] = this.options.sessionToken;
+    }
+
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+      'PUT',
+      objectPath,
+      '',
+      ...names.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      now,
+      scope,
+      sha256(canonicalRequest),
+    ].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.options.secretAccessKey}`, date), this.region)
+    );
+    const signature = crypto
+      .createHmac('sha256', signingKey)
+      .update(stringToSign)
+      .digest('hex');
+    headers['authorization'] =
+      `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    headers['content-length'] = String(body.length);
+
+    const transport = this.endpoint.protocol === 'http:' ? http : https;
+    const url = new URL(objectPath, this.endpoint);
+    const timeout = this.options.timeout ?? UPLOAD_TIMEOUT;
+    return new Promise((resolve, reject) => {
+      const fail = (message: string) =>
+        reject(new Error(`Upload to ${url.href} failed: ${message}`));
+      const req = transport.request(url, {method: 'PUT', headers}, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => {
+          if (res.statusCode && res.statusCode < 300) {
+            resolve();
+          } else {
+            fail(
+              `status ${res.statusCode}: ${Buffer.concat(chunks).toString()}`
+            );
+          }
+        });
+        res.on('error', err => fail(err.message));
+      });
+      req.setTimeout(timeout, () => {
+        req.destroy();
+        fail(`no response after ${timeout}ms`);
+      });
+      req.on('error', err => fail(err.message));
+      req.end(body);
+    });
+  }
+}
@@ -0,0 +1,108 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {drive_v3 as DriveV3} from 'googleapis';
+import DriveImageStore from './upload.js';
+import S3ImageStore from './s3.js';
+import HostedImageStore from './hosted.js';
+
+/**
+ * Somewhere to put local and generated images so the Slides API can
+ * fetch them over HTTP/S.
+ */
+export interface ImageStore {
+  /**
+   * Identifies where images end up, e.g. the Drive folder or bucket.
+   * Uploads are only cached for stores that set it.
+   */
+  readonly key?: string;
+
+  /**
+   * Checks that a previously uploaded image is still available.
+   *
+   * @param {string} url URL returned by an earlier upload
+   * @returns {Promise<boolean>}
+   */
+  exists?(url: string): Promise<boolean>;
+
+  /**
+   * Makes a local file publicly accessible.
+   *
+   * @param {string} filePath Local path to image
+   * @returns {Promise<string>} URL to hosted image
+   */
+  upload(filePath: string): Promise<string>;
+}
+
+export interface ImageStoreOptions {
+  type: 'drive' | 's3' | 'url';
+  // Drive
+  folderId?: string;
+  // S3
+  bucket?: string;
+  region?: string;
+  endpoint?: string;
+  prefix?: string;
+  publicUrl?: string;
+  // Hosted
+  baseUrl?: string;
+  rootDir?: string;
+}
+
+/**
+ * Creates an image store from command line style options. S3 credentials
+ * are read from the standard AWS environment variables.
+ *
+ * @param {ImageStoreOptions} options
+ * @param drive Authorized Drive client, required for the Drive store
+ * @returns {ImageStore}
+ */
+export function createImageStore(
+  options: ImageStoreOptions,
+  drive?: DriveV3.Drive
+): ImageStore {
+  switch (options.type) {
+    case 'drive':
+      if (!drive) {
+        throw new Error('Drive image store requires an authorized client');
+      }
+      return new DriveImageStore(drive, options.folderId);
+    case 's3':
+      if (!options.bucket) {
+        throw new Error('S3 image store requires a bucket');
+      }
+      if (!process.env.AWS_ACCESS_KEY_ID || !process.env.AWS_SECRET_ACCESS_KEY) {
+        throw new Error(
+          'S3 image store requires AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY'
+        );
+      }
+      return new S3ImageStore({
+        bucket: options.bucket,
+        region: options.region,
+        endpoint: options.endpoint,
+        prefix: options.prefix,
+        publicUrl: options.publicUrl,
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+        sessionToken: process.env.AWS_SESSION_TOKEN,
+      });
+    case 'url':
+      if (!options.baseUrl) {
+        throw new Error('Hosted image store requires a base URL');
+      }
+      return new HostedImageStore(options.baseUrl, options.rootDir);
+    default:
+      throw new Error(`Unknown image store: ${options.type}`);
+  }
+}
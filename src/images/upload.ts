@@ -14,58 +14,101 @@
 
 import Debug from 'debug';
 import fs from 'fs';
-import * as path from 'path';
-import { blob } from 'node:stream/consumers';
+import {URL} from 'url';
+import {drive_v3 as DriveV3} from 'googleapis';
+import {ImageStore} from './store.js';
 
 const debug = Debug('md2gslides');
 
 /**
- * Uploads a local file to temporary storage so it is HTTP/S accessible.
+ * Uploads local files to Google Drive so they are HTTP/S accessible.
  *
- * Currently uses https://file.io for free emphemeral file hosting.
- *
- * @param {string} filePath -- Local path to image to upload
- * @returns {Promise<string>} URL to hosted image
+ * Files are made world-readable, since the Slides API fetches images
+ * anonymously. They are stored in the given folder, or in the root of
+ * the user's Drive when no folder is set.
  */
-async function uploadLocalImage(filePath: string, drive: any): Promise<string> {
-  debug('Registering file %s', filePath);
-  const stream = fs.createReadStream(filePath);
-  const filename = filePath.split('/').pop();
+export default class DriveImageStore implements ImageStore {
+  private drive: DriveV3.Drive;
+  private folderId?: string;
+
+  /**
+   * @param drive Authorized Drive client
+   * @param {string} folderId ID of the Drive folder to upload to
+   */
+  public constructor(drive: DriveV3.Drive, folderId?: string) {
+    this.drive = drive;
+    this.folderId = folderId;
+  }
+
+  public get key(): string {
+    return `drive:${this.folderId ?? 'root'}`;
+  }
+
+  /**
+   * @param {string} url URL returned by an earlier upload
+   * @returns {Promise<boolean>} True if the file is still in Drive
+   */
+  public async exists(url: string): Promise<boolean> {
+    const fileId = new URL(url).searchParams.get('id');
+    if (!fileId) {
+      return false;
+    }
+    try {
+      const response = await this.drive.files.get({
+        fileId: fileId,
+        fields: 'id, trashed',
+      });
+      return !response.data.trashed;
+    } catch (e) {
+      debug('Unable to find file %s: %O', fileId, e);
+      return false;
+    }
+  }
 
-  try {
-    const fileMetadata = {
-      name: filename,
-      parents: ['1kfhzbGk2HPD2xkIphI1x1-ObwCzQWSCx']
-    };
-    const media = { body: stream };
+  /**
+   * @param {string} filePath -- Local path to image to upload
+   * @returns {Promise<string>} URL to hosted image
+   */
+  public async upload(filePath: string): Promise<string> {
+    debug('Registering file %s', filePath);
+    const stream = fs.createReadStream(filePath);
+    const filename = filePath.split('/').pop();
 
-    const response = await drive.files.create({
-      resource: fileMetadata,
-      media: media,
-      fields: 'id' // Get the file ID after upload
-    });
+    try {
+      const fileMetadata = {
+        name: filename,
+        parents: this.folderId ? [this.folderId] : undefined,
+      };
+      const media = {body: stream};
 
-    // If the upload is successful, get the fileId
-    const fileId = response.data.id;
+      const response = await this.drive.files.create({
+        requestBody: fileMetadata,
+        media: media,
+        fields: 'id', // Get the file ID after upload
+      });
 
-    // Set the file at that ID to be world-readable
-    await drive.permissions.create({
-      fileId: fileId,
-      resource: {
-        'type': 'anyone',
-        'role': 'reader'
+      // If the upload is successful, get the fileId
+      const fileId = response.data.id;
+      if (!fileId) {
+        throw new Error(`Upload of ${filePath} returned no file ID`);
       }
-    });
 
-    // return the URL to the newly-uploaded, world-readable file
-    return `https://drive.usercontent.google.com/uc?id=${fileId}&authuser=0&export=download`
+      // Set the file at that ID to be world-readable
+      await this.drive.permissions.create({
+        fileId: fileId,
+        requestBody: {
+          type: 'anyone',
+          role: 'reader',
+        },
+      });
 
-  } catch (e) {
-    console.error('Error uploading file:', e);
-    throw e;
-  } finally {
-    stream.destroy();
+      // return the URL to the newly-uploaded, world-readable file
+      return `https://drive.usercontent.google.com/uc?id=${fileId}&authuser=0&export=download`;
+    } catch (e) {
+      console.error('Error uploading file:', e);
+      throw e;
+    } finally {
+      stream.destroy();
+    }
   }
 }
-
-export default uploadLocalImage;
\ No newline at end of file
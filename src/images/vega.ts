@@ -0,0 +1,82 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import {createRequire} from 'module';
+import path from 'path';
+import sharp from 'sharp';
+import tmp from 'tmp-promise';
+import {ImageDefinition} from '../slides.js';
+import BrowserPool, {emptyPage} from './browser.js';
+import assert from 'assert';
+
+const debug = Debug('md2gslides');
+tmp.setGracefulCleanup();
+
+// The packages only export their modules, the bundles for browsers are
+// next to them
+function browserBundle(name: string, file: string): string {
+  const require = createRequire(import.meta.url);
+  return path.join(path.dirname(require.resolve(name)), file);
+}
+
+/**
+ * Draws a Vega-Lite chart in a headless browser.
+ *
+ * @param {ImageDefinition} image Image with the JSON spec as its source
+ * @param {BrowserPool} browser Browser to draw in
+ * @returns {Promise<string>} Path to the rendered PNG
+ */
+async function renderVegaLite(
+  image: ImageDefinition,
+  browser: BrowserPool
+): Promise<string> {
+  debug('Generating Vega-Lite chart', image);
+  assert(image.source);
+  let spec;
+  try {
+    spec = JSON.parse(image.source);
+  } catch (err) {
+    throw new Error(`Invalid Vega-Lite spec: ${(err as Error).message}`);
+  }
+  const scripts = [
+    browserBundle('vega', 'vega.min.js'),
+    browserBundle('vega-lite', 'vega-lite.min.js'),
+    browserBundle('vega-embed', 'vega-embed.min.js'),
+  ];
+
+  const html = emptyPage(image.style);
+  const screenshot = await browser.screenshot(html, async page => {
+    for (const script of scripts) {
+      await page.addScriptTag({path: script});
+    }
+    await page.evaluate(async (spec: object) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const vegaEmbed = (window as any).vegaEmbed;
+      await vegaEmbed('#DOMtoImage', spec, {actions: false, renderer: 'svg'});
+      const element = document.getElementById('DOMtoImage');
+      if (element) {
+        element.style.display = 'inline-block';
+      }
+    }, spec);
+  });
+  image.width = screenshot.width;
+  image.height = screenshot.height;
+
+  const path = await tmp.tmpName({postfix: '.png'});
+  await sharp(screenshot.buffer).png().toFile(path);
+  return path;
+}
+
+export default renderVegaLite;
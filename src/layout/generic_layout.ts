@@ -13,12 +13,12 @@
 // limitations under the License.
 
 import Debug from 'debug';
-import {v1 as uuid} from 'uuid';
-// @ts-ignore
-import Layout from 'layout';
 import {slides_v1 as SlidesV1} from 'googleapis';
 import {
+  BodyDefinition,
   ImageDefinition,
+  ListMarker,
+  ShapeDefinition,
   SlideDefinition,
   TableDefinition,
   TextDefinition,
@@ -29,21 +29,36 @@ import {
   findPlaceholder,
   findSpeakerNotesObjectId,
   calculateFontSize,
+  calculateTableLayout,
+  findMerge,
+  isCoveredCell,
+  measureTextPosition,
 } from './presentation_helpers.js';
+import {
+  BoundingBox,
+  MATH_FONT_SIZE,
+  calculateBoundingBox,
+  pageBoundingBox,
+  placeImage,
+  placeImages,
+  placeInlineImage,
+  placeShapes,
+  placeTextAndImages,
+  placeTables,
+  placeVideos,
+  reserveInlineSpace,
+  rotationTransform,
+  scaleElementHeight,
+} from './geometry.js';
+import {
+  DEFAULT_BULLET_PRESET,
+  DEFAULT_NUMBERED_PRESET,
+} from '../parser/bullets.js';
+import {ObjectIdSource, randomObjectId} from '../object_ids.js';
 import assert from 'assert';
 
 const debug = Debug('md2gslides');
 
-// from https://stackoverflow.com/a/66543738/12026982
-const EMUperPixel = 9525;
-
-interface BoundingBox {
-  height: number;
-  width: number;
-  x: number;
-  y: number;
-}
-
 /**
  * Performs most of the work of converting a slide into API requests.
  *
@@ -52,15 +67,18 @@ export default class GenericLayout {
   public name: string;
   public presentation: SlidesV1.Schema$Presentation;
   private slide: SlideDefinition;
+  private newObjectId: ObjectIdSource;
 
   public constructor(
     name: string,
     presentation: SlidesV1.Schema$Presentation,
-    slide: SlideDefinition
+    slide: SlideDefinition,
+    newObjectId: ObjectIdSource = randomObjectId
   ) {
     this.name = name;
     this.presentation = presentation;
     this.slide = slide;
+    this.newObjectId = newObjectId;
 
     const addPageEltsToMap = (page:SlidesV1.Schema$Page) => {
       page?.pageElements?.forEach(e => this.pageElementMap.set(e.objectId, e));
@@ -91,7 +109,8 @@ export default class GenericLayout {
     if (!layoutId) {
       throw new Error(`Unable to find layout ${this.name}`);
     }
-    this.slide.objectId = uuid();
+    // Keep IDs assigned ahead of time (e.g. when syncing)
+    this.slide.objectId = this.slide.objectId ?? this.newObjectId();
 
     debug('Creating slide %s with layout %s', this.slide.objectId, this.name);
     requests.push({
@@ -134,7 +153,19 @@ export default class GenericLayout {
     }
 
     if (this.slide.tables.length) {
-      this.slide.tables.forEach(t => this.appendCreateTableRequest(t, requests));
+      assert(this.slide.objectId);
+      const bodyElements = findPlaceholder(
+        this.presentation,
+        this.slide.objectId,
+        'BODY'
+      );
+      const boxes = placeTables(
+        this.slide.tables,
+        this.getBodyBoundingBox(bodyElements?.[0])
+      );
+      this.slide.tables.forEach((t, i) =>
+        this.appendCreateTableRequest(t, boxes[i], requests)
+      );
     }
 
     if (this.slide.bodies) {
@@ -158,12 +189,90 @@ export default class GenericLayout {
 
       for (let i = 0; i < bodyCount; ++i) {
         const placeholder = bodyElements![i];
-        const body = this.slide.bodies[i];
-        this.appendFillPlaceholderTextRequest(body.text, placeholder, requests, "vertical");
+        // Inline math is drawn over its sentence, the other images are
+        // placed apart from the text
+        const inlineImages = this.slide.bodies[i].images.filter(
+          image => image.textIndex !== undefined
+        );
+        const body = {
+          ...this.slide.bodies[i],
+          images: this.slide.bodies[i].images.filter(
+            image => image.textIndex === undefined
+          ),
+        };
+        const inline =
+          body.text && inlineImages.length
+            ? reserveInlineSpace(body.text, inlineImages)
+            : undefined;
+        const text = inline?.text ?? body.text;
+        if (body.shapes && body.shapes.length) {
+          this.appendCreateShapeRequests(body, placeholder, requests);
+        }
+        // Images packed into the body go below its text, which is fitted
+        // to what's left of the placeholder
+        let imageBox = this.getBodyBoundingBox(placeholder);
+        let textBox = imageBox;
+        let ancestors = this.findAncestors(placeholder);
+        if (
+          body.images.length > imagePlaceholders.length &&
+          !body.shapes?.length
+        ) {
+          const boxes = placeTextAndImages(
+            imageBox,
+            text,
+            this.calculateBodyFontSize(placeholder, text)
+          );
+          imageBox = boxes.images;
+          if (boxes.text) {
+            this.appendResizePlaceholderRequest(
+              placeholder,
+              boxes.text,
+              requests
+            );
+            textBox = boxes.text;
+            ancestors = this.findResizedAncestors(placeholder, boxes.text);
+          }
+        }
+        this.appendFillPlaceholderTextRequest(
+          text,
+          placeholder,
+          requests,
+          'vertical',
+          ancestors
+        );
 
+        const fontSize = this.calculateBodyFontSize(
+          placeholder,
+          text,
+          ancestors
+        );
         if (body.images && body.images.length) {
-          // send all the images, and just the first placeholder
-          this.appendCreateImageRequests(body.images, imagePlaceholders, requests);
+          this.appendCreateImageRequests(
+            body,
+            imagePlaceholders,
+            imageBox,
+            requests,
+            fontSize
+          );
+        }
+        if (inline && text) {
+          // Text isn't fitted without placeholders to inherit from, so
+          // it's measured in the placeholder at the size math is drawn for
+          const elements = ancestors.length ? ancestors : [placeholder];
+          const size = fontSize ?? MATH_FONT_SIZE;
+          inlineImages.forEach((image, j) => {
+            const position = measureTextPosition(
+              elements,
+              text,
+              size,
+              inline.ranges[j]
+            );
+            this.appendCreateImageRequest(
+              image,
+              placeInlineImage(image, textBox, position, size),
+              requests
+            );
+          });
         }
         if (body.videos && body.videos.length) {
           this.appendCreateVideoRequests(body.videos, placeholder, requests);
@@ -196,7 +305,8 @@ export default class GenericLayout {
     value: TextDefinition | undefined,
     placeholder: string | SlidesV1.Schema$PageElement,
     requests: SlidesV1.Schema$Request[],
-    constraints?: string
+    constraints?: string,
+    ancestors?: SlidesV1.Schema$PageElement[]
   ): void {
     if (!value) {
       debug('No text for placeholder %s');
@@ -216,20 +326,56 @@ export default class GenericLayout {
       placeholder = pageElements[0];
     }
 
-    // compute an array of ancestor elts, from oldest-to-youngest
-    let ancestors = [];
+    this.appendInsertTextRequests(
+      value,
+      {objectId: placeholder.objectId},
+      requests,
+      constraints, // passing constraints turns on auto-fitting
+      ancestors ?? this.findAncestors(placeholder)
+    );
+  }
+
+  // compute an array of ancestor elts, from oldest-to-youngest
+  protected findAncestors(
+    placeholder: SlidesV1.Schema$PageElement
+  ): SlidesV1.Schema$PageElement[] {
+    const ancestors = [];
     let parentObject = this.findParentObject(placeholder);
     while (parentObject) {
       ancestors.unshift(parentObject); // add to beginning
       parentObject = this.findParentObject(parentObject);
     }
+    return ancestors;
+  }
 
-    this.appendInsertTextRequests(
-      value,
-      {objectId: placeholder.objectId},
-      requests,
-      constraints, // passing constraints turns on auto-fitting
-      ancestors
+  // Ancestors of a placeholder as if it were resized to the box, to fit
+  // its text to the box
+  protected findResizedAncestors(
+    placeholder: SlidesV1.Schema$PageElement,
+    box: BoundingBox
+  ): SlidesV1.Schema$PageElement[] {
+    const ancestors = this.findAncestors(placeholder);
+    const ratio = box.height / this.getBodyBoundingBox(placeholder).height;
+    return ancestors.map((ancestor, i) =>
+      i === ancestors.length - 1
+        ? scaleElementHeight(ancestor, ratio)
+        : ancestor
+    );
+  }
+
+  // Size the text of a body is fitted at, for math in the body to match
+  protected calculateBodyFontSize(
+    placeholder: SlidesV1.Schema$PageElement,
+    text?: TextDefinition,
+    ancestors = this.findAncestors(placeholder)
+  ): number | undefined {
+    if (!ancestors.length) {
+      return undefined;
+    }
+    return calculateFontSize(
+      ancestors,
+      text ?? {rawText: '', textRuns: [], listMarkers: [], big: false},
+      'vertical'
     );
   }
 
@@ -308,11 +454,44 @@ export default class GenericLayout {
 
     // Convert paragraphs to lists.
     // Note that leading tabs for nested lists in the raw text are removed.
-    // In this case, we're assuming that lists are supplied in order of
-    // appearance and they're non-overlapping.
+    // In this case, we're assuming that the outermost lists are supplied
+    // in order of appearance and they're non-overlapping.
     // Processing in the reverse order avoids having to readjust indices.
-    for (const listMarker of text.listMarkers.reverse()) {
-      const request = {
+    const outerLists = text.listMarkers.filter(marker => !marker.depth);
+    for (const listMarker of outerLists.reverse()) {
+      this.appendCreateListRequests(text, listMarker, locationProps, requests);
+    }
+  }
+
+  /**
+   * Bullets a list, including the lists nested in it. The whole list is
+   * bulleted first so numbering carries on across nested lists, then
+   * nested lists of a different style are bulleted again with their own
+   * preset. Since bulleting removes the leading tabs that give the
+   * nesting level, those are put back first.
+   *
+   * Lists with their numbers written out aren't bulleted, only the lists
+   * nested in them are.
+   */
+  protected appendCreateListRequests(
+    text: TextDefinition,
+    listMarker: ListMarker,
+    locationProps:
+      | Partial<SlidesV1.Schema$UpdateTextStyleRequest>
+      | Partial<SlidesV1.Schema$CreateParagraphBulletsRequest>,
+    requests: SlidesV1.Schema$Request[]
+  ): void {
+    const bulletPreset = (marker: ListMarker): string =>
+      marker.preset ??
+      (marker.type === 'ordered'
+        ? DEFAULT_NUMBERED_PRESET
+        : DEFAULT_BULLET_PRESET);
+    const listPreset = listMarker.literalNumbers
+      ? undefined
+      : bulletPreset(listMarker);
+
+    if (listPreset) {
+      requests.push({
         createParagraphBullets: Object.assign(
           {
             textRange: {
@@ -320,15 +499,96 @@ export default class GenericLayout {
               startIndex: listMarker.start,
               endIndex: listMarker.end,
             },
-            bulletPreset:
-              listMarker.type === 'ordered'
-                ? 'NUMBERED_DIGIT_ALPHA_ROMAN'
-                : 'BULLET_DISC_CIRCLE_SQUARE',
+            bulletPreset: listPreset,
           },
           locationProps
         ),
-      };
-      requests.push(request);
+      });
+    }
+
+    const nested = text.listMarkers.filter(
+      marker =>
+        marker.depth &&
+        marker.start >= listMarker.start &&
+        marker.end <= listMarker.end
+    );
+    if (!nested.length) {
+      return;
+    }
+
+    // Find the preset of each paragraph and where it starts once the tabs
+    // are gone
+    interface Paragraph {
+      start: number;
+      tabs: number;
+      preset?: string;
+    }
+    const paragraphs: Paragraph[] = [];
+    let removed = 0;
+    let offset = listMarker.start;
+    for (const line of text.rawText
+      .slice(listMarker.start, listMarker.end)
+      .split('\n')
+      .slice(0, -1)) {
+      const tabs = line.match(/^\t*/)![0].length;
+      const innermost = nested
+        .filter(marker => marker.start <= offset && offset < marker.end)
+        .sort((a, b) => (b.depth ?? 0) - (a.depth ?? 0))[0];
+      paragraphs.push({
+        start: offset - removed,
+        tabs: tabs,
+        preset: innermost ? bulletPreset(innermost) : listPreset,
+      });
+      if (listPreset) {
+        removed += tabs;
+      }
+      offset += line.length + 1;
+    }
+
+    // Group consecutive paragraphs that differ from the list's preset.
+    // Going backwards keeps the indices valid when tabs are removed.
+    let j = paragraphs.length - 1;
+    while (j >= 0) {
+      const preset = paragraphs[j].preset;
+      let i = j;
+      while (i > 0 && paragraphs[i - 1].preset === preset) {
+        --i;
+      }
+      if (preset && preset !== listPreset) {
+        const group = paragraphs.slice(i, j + 1);
+        let inserted = 0;
+        if (listPreset) {
+          for (const paragraph of [...group].reverse()) {
+            if (!paragraph.tabs) {
+              continue;
+            }
+            requests.push({
+              insertText: Object.assign(
+                {
+                  text: '\t'.repeat(paragraph.tabs),
+                  insertionIndex: paragraph.start,
+                },
+                locationProps
+              ),
+            });
+            inserted += paragraph.tabs;
+          }
+        }
+        requests.push({
+          createParagraphBullets: Object.assign(
+            {
+              textRange: {
+                type: 'FIXED_RANGE',
+                startIndex: group[0].start,
+                endIndex: group[group.length - 1].start + inserted + 1,
+              },
+              bulletPreset: preset,
+            },
+            locationProps
+          ),
+        });
+      }
+      j = i - 1;
     }
   }
 
@@ -358,170 +618,143 @@ export default class GenericLayout {
   }
 
   protected appendCreateImageRequests(
-      images: ImageDefinition[],
-      placeholders: SlidesV1.Schema$PageElement[],
-      requests: SlidesV1.Schema$Request[]
-    ): void {
-      const that = this;
-
-      // Convert pixels to EMUs. If there's a placeholder, resize to fit.
-      function transformImageSize(
-        image: ImageDefinition, 
-        placeholder: SlidesV1.Schema$PageElement
-      ): void {
-        // TODO - Fix weird cast
-        const layer = (Layout as (s: string) => Layout.PackingSmith)('left-right'); // TODO - Configurable?
-
-        debug('Slide #%d: adding inline image %s', that.slide.index, image.url);
-        layer.addItem({
-          width: image.width + image.padding * 2,
-          height: image.height + image.padding * 2,
-          meta: image,
-        });
-
-        // bounding box of the entire slide
-        const {width: slideWidth, height: slideHeight} = (that.presentation.pageSize)!;
-
-        // if there's a placeholder, use it as a bounding box
-        // otherwise: if the image is smaller than 50% of the slide
-        // use actual size. Otherwise 
-        let box;
-        if(placeholder) {
-          box = that.getBodyBoundingBox(placeholder);
-        } else {
-          const maxWidth  = slideWidth!.magnitude!  * 0.5;
-          const maxHeight = slideHeight!.magnitude! * 0.5;
-          const imgWidth  = Math.min(image.width  * EMUperPixel, maxWidth);
-          const imgHeight = Math.min(image.height * EMUperPixel, maxHeight);
-          box = {
-            width:  imgWidth,
-            height: imgHeight,
-            x: maxWidth - imgWidth / 2, 
-            y: maxHeight - imgHeight / 2, 
-          };
-        }
-
-        const computedLayout = layer.export();
-
-        // assume we're just converting Pixels->EMU, but scale to fit
-        // box will be the dimensions of the placeholder (if defined),
-        // or the entire slide
-        let scaleRatio = EMUperPixel;  
-        scaleRatio = Math.min(
-          box.width  / computedLayout.width,
-          box.height / computedLayout.height
-        );
-
-        const scaledWidth  = computedLayout.width  * scaleRatio;
-        const scaledHeight = computedLayout.height * scaleRatio;
+    body: BodyDefinition,
+    placeholders: SlidesV1.Schema$PageElement[],
+    box: BoundingBox,
+    requests: SlidesV1.Schema$Request[],
+    fontSize?: number
+  ): void {
+    // Images with a picture placeholder of their own fill it, the rest
+    // are packed together into the body, math sized like its text
+    const images = body.images;
+    const boxes = [
+      ...images
+        .slice(0, placeholders.length)
+        .map((image, i) =>
+          placeImage(
+            this.presentation,
+            image,
+            this.getBodyBoundingBox(placeholders[i])
+          )
+        ),
+      ...placeImages(
+        images.slice(placeholders.length),
+        box,
+        body.imageLayout,
+        fontSize
+      ),
+    ];
 
-        const baseTranslateX = box.x + (box.width  - scaledWidth)  / 2;
-        const baseTranslateY = box.y + (box.height - scaledHeight) / 2;
+    images.forEach((image, i) =>
+      this.appendCreateImageRequest(image, boxes[i], requests)
+    );
+  }
 
-        if(computedLayout.items.length > 1) {
-          console.error('IMPOSSIBLE - multiple images in transformAndReplacePlaceholder');
-        }
-        const item = computedLayout.items[0];
-
-        const itemOffsetX = item.meta.offsetX ? item.meta.offsetX : 0;
-        const itemOffsetY = item.meta.offsetY ? item.meta.offsetY : 0;
-        const itemPadding = item.meta.padding ? item.meta.padding : 0;
-        const width  = item.meta.width  * scaleRatio;
-        const height = item.meta.height * scaleRatio;
-        const translateX =
-          baseTranslateX + (item.x + itemPadding + itemOffsetX) * scaleRatio;
-        const translateY =
-          baseTranslateY + (item.y + itemPadding + itemOffsetY) * scaleRatio;
-        const imageId = uuid();
-
-        // add the image at about the same size/position as the placeholder
-        const createImageReq = {
-          createImage: {
-            objectId: imageId,
-            elementProperties: {
-              pageObjectId: that.slide.objectId,
-              size: {
-                height: { magnitude: height, unit: 'EMU'},
-                width:  { magnitude: width,  unit: 'EMU'},
-              },
-              transform: {
-                scaleX: 1, scaleY: 1,
-                translateX: translateX, translateY: translateY,
-                shearX: 0, shearY: 0,
-                unit: 'EMU',
-              },
-            },
-            url: item.meta.url,
+  protected appendCreateImageRequest(
+    image: ImageDefinition,
+    box: BoundingBox,
+    requests: SlidesV1.Schema$Request[]
+  ): void {
+    debug('Slide #%d: adding inline image %s', this.slide.index, image.url);
+    const imageId = this.newObjectId();
+    requests.push({
+      createImage: {
+        objectId: imageId,
+        elementProperties: {
+          pageObjectId: this.slide.objectId,
+          size: {
+            height: {magnitude: box.height, unit: 'EMU'},
+            width: {magnitude: box.width, unit: 'EMU'},
           },
-        };
-        requests.push(createImageReq);
-
-        // add the altText
-        const altTextReq = {
-          updatePageElementAltText: {
-            "objectId": imageId,
-            "title": "",
-            "description": image.altText,
-          }
-        };
-        requests.push(altTextReq);
-      }
-
-      images.forEach((image, i) => {
-        debug('Slide #%d: adding inline image %s', this.slide.index, image.url);
-        const placeholder = placeholders[i] || undefined;
-        transformImageSize(image, placeholder)
-      });
+          transform: rotationTransform(box, image.rotation ?? 0),
+        },
+        url: image.url,
+      },
+    });
+    requests.push({
+      updatePageElementAltText: {
+        objectId: imageId,
+        title: '',
+        description: image.altText,
+      },
+    });
+    if (image.border || image.link) {
+      this.appendImagePropertiesRequest(imageId, image, requests);
     }
+  }
 
-  protected appendCreateVideoRequests(
-    videos: VideoDefinition[],
-    placeholder: SlidesV1.Schema$PageElement | undefined,
+  /**
+   * Adds the callouts of a body below its text, as rounded rectangles.
+   * The placeholder of the body is shrunk to make room for them, and
+   * their text is the size of the body's.
+   */
+  protected appendCreateShapeRequests(
+    body: BodyDefinition,
+    placeholder: SlidesV1.Schema$PageElement,
     requests: SlidesV1.Schema$Request[]
   ): void {
-    if (videos.length > 1) {
-      throw new Error('Multiple videos per slide are not supported.');
-    }
-    const video = videos[0];
-
-    debug('Slide #%d: adding video %s', this.slide.index, video.id);
-
-    const box = this.getBodyBoundingBox(placeholder);
-
-    const scaleRatio = Math.min(
-      box.width / video.width,
-      box.height / video.height
+    const shapes = body.shapes ?? [];
+    const boxes = placeShapes(
+      shapes,
+      this.getBodyBoundingBox(placeholder),
+      body.text
     );
+    if (boxes.text) {
+      this.appendResizePlaceholderRequest(placeholder, boxes.text, requests);
+    }
+    const fontSize = this.calculateBodyFontSize(placeholder, body.text);
+    shapes.forEach((shape, i) => {
+      debug('Slide #%d: adding callout', this.slide.index);
+      this.appendCreateShapeRequest(shape, boxes.shapes[i], requests, fontSize);
+    });
+  }
 
-    const scaledWidth = video.width * scaleRatio;
-    const scaledHeight = video.height * scaleRatio;
-
-    const translateX = box.x + (box.width - scaledWidth) / 2;
-    const translateY = box.y + (box.height - scaledHeight) / 2;
+  protected appendResizePlaceholderRequest(
+    placeholder: SlidesV1.Schema$PageElement,
+    box: BoundingBox,
+    requests: SlidesV1.Schema$Request[]
+  ): void {
+    const transform = placeholder.transform ?? {};
+    const current = this.getBodyBoundingBox(placeholder);
+    requests.push({
+      updatePageElementTransform: {
+        objectId: placeholder.objectId,
+        applyMode: 'ABSOLUTE',
+        transform: {
+          scaleX: transform.scaleX ?? 1,
+          scaleY: ((transform.scaleY ?? 1) * box.height) / current.height,
+          shearX: transform.shearX ?? 0,
+          shearY: transform.shearY ?? 0,
+          translateX: box.x,
+          translateY: box.y,
+          unit: 'EMU',
+        },
+      },
+    });
+  }
 
-    const objectId = uuid();
+  protected appendCreateShapeRequest(
+    shape: ShapeDefinition,
+    box: BoundingBox,
+    requests: SlidesV1.Schema$Request[],
+    fontSize?: number
+  ): void {
+    const shapeId = this.newObjectId();
     requests.push({
-      createVideo: {
-        source: 'YOUTUBE',
-        objectId: objectId,
-        id: video.id,
+      createShape: {
+        objectId: shapeId,
+        shapeType: 'ROUND_RECTANGLE',
         elementProperties: {
           pageObjectId: this.slide.objectId,
           size: {
-            height: {
-              magnitude: scaledHeight,
-              unit: 'EMU',
-            },
-            width: {
-              magnitude: scaledWidth,
-              unit: 'EMU',
-            },
+            width: {magnitude: box.width, unit: 'EMU'},
+            height: {magnitude: box.height, unit: 'EMU'},
           },
           transform: {
             scaleX: 1,
             scaleY: 1,
-            translateX: translateX,
-            translateY: translateY,
+            translateX: box.x,
+            translateY: box.y,
             shearX: 0,
             shearY: 0,
             unit: 'EMU',
@@ -530,114 +763,314 @@ export default class GenericLayout {
       },
     });
     requests.push({
-      updateVideoProperties: {
-        objectId: objectId,
-        fields: 'autoPlay',
-        videoProperties: {
-          autoPlay: video.autoPlay,
+      updateShapeProperties: {
+        objectId: shapeId,
+        shapeProperties: {
+          shapeBackgroundFill: {
+            solidFill: {
+              color: shape.fill.opaqueColor,
+            },
+          },
+          outline: {propertyState: 'NOT_RENDERED'},
+          contentAlignment: 'MIDDLE',
         },
+        fields:
+          'shapeBackgroundFill.solidFill.color,outline.propertyState,' +
+          'contentAlignment',
       },
     });
+    // As in table cells, runs are applied last to first, so the size is
+    // overridden by any the text sets itself
+    const text = fontSize
+      ? {
+          ...shape.text,
+          textRuns: [
+            ...shape.text.textRuns,
+            {
+              fontSize: {magnitude: fontSize, unit: 'PT'},
+              start: 0,
+              end: shape.text.rawText.length,
+            },
+          ],
+        }
+      : shape.text;
+    this.appendInsertTextRequests(text, {objectId: shapeId}, requests);
+  }
+
+  protected appendImagePropertiesRequest(
+    imageId: string,
+    image: ImageDefinition,
+    requests: SlidesV1.Schema$Request[]
+  ): void {
+    const imageProperties: SlidesV1.Schema$ImageProperties = {};
+    const fields = [];
+    if (image.border) {
+      const {color, weight, dashStyle} = image.border;
+      const outline: SlidesV1.Schema$Outline = {
+        outlineFill: color?.opaqueColor
+          ? {solidFill: {color: color.opaqueColor}}
+          : undefined,
+        weight:
+          weight !== undefined ? {magnitude: weight, unit: 'PT'} : undefined,
+        dashStyle: dashStyle,
+      };
+      imageProperties.outline = outline;
+      fields.push(
+        ...this.computeShallowFieldMask(outline)
+          .split(',')
+          .map(field => `outline.${field}`)
+      );
+    }
+    if (image.link) {
+      imageProperties.link = {url: image.link.url};
+      fields.push('link');
+    }
+    requests.push({
+      updateImageProperties: {
+        objectId: imageId,
+        imageProperties: imageProperties,
+        fields: fields.join(','),
+      },
+    });
+  }
+
+  protected appendCreateVideoRequests(
+    videos: VideoDefinition[],
+    placeholder: SlidesV1.Schema$PageElement | undefined,
+    requests: SlidesV1.Schema$Request[]
+  ): void {
+    const boxes = placeVideos(videos, this.getBodyBoundingBox(placeholder));
+    videos.forEach((video, i) => {
+      debug('Slide #%d: adding video %s', this.slide.index, video.id);
+
+      const {
+        width: scaledWidth,
+        height: scaledHeight,
+        x: translateX,
+        y: translateY,
+      } = boxes[i];
+
+      const objectId = this.newObjectId();
+      requests.push({
+        createVideo: {
+          source: video.source ?? 'YOUTUBE',
+          objectId: objectId,
+          id: video.id,
+          elementProperties: {
+            pageObjectId: this.slide.objectId,
+            size: {
+              height: {
+                magnitude: scaledHeight,
+                unit: 'EMU',
+              },
+              width: {
+                magnitude: scaledWidth,
+                unit: 'EMU',
+              },
+            },
+            transform: {
+              scaleX: 1,
+              scaleY: 1,
+              translateX: translateX,
+              translateY: translateY,
+              shearX: 0,
+              shearY: 0,
+              unit: 'EMU',
+            },
+          },
+        },
+      });
+      const videoProperties = {
+        autoPlay: video.autoPlay,
+        start: video.start,
+        end: video.end,
+        mute: video.mute,
+      };
+      requests.push({
+        updateVideoProperties: {
+          objectId: objectId,
+          fields: this.computeShallowFieldMask(videoProperties),
+          videoProperties: videoProperties,
+        },
+      });
+    });
   }
 
   protected appendCreateTableRequest(
     table: TableDefinition,
+    box: BoundingBox,
     requests: SlidesV1.Schema$Request[]
   ): void {
-    const tableId = uuid();
-    let hasHeader = true;
-
-    // check to see if the first cell of the first row asks us to delete
-    // necessary to handle racket workaround for the markdown limitation
-    // that all tables have headers
-    if(table.cells[0][0].rawText == "DELETE THIS ROW") {
-      hasHeader = false;
-    }
-    // If it's a table with no header...
-    if(!hasHeader) {
-      table.cells.shift();               // delete the row
-      table.rows = table.rows - 1;       // update row count
-    } 
+    const tableId = this.newObjectId();
+    const {fontSize, columnWidths, height} = calculateTableLayout(table, box);
 
     requests.push({
       createTable: {
         objectId: tableId,
         elementProperties: {
           pageObjectId: this.slide.objectId,
-          // Use default size/transform for tables
+          size: {
+            width: {magnitude: box.width, unit: 'EMU'},
+            height: {magnitude: height, unit: 'EMU'},
+          },
+          transform: {
+            scaleX: 1,
+            scaleY: 1,
+            translateX: box.x,
+            translateY: box.y,
+            shearX: 0,
+            shearY: 0,
+            unit: 'EMU',
+          },
         },
         rows: table.rows,
         columns: table.columns,
       },
     });
 
+    columnWidths.forEach((width, c) => {
+      requests.push({
+        updateTableColumnProperties: {
+          objectId: tableId,
+          columnIndices: [c],
+          tableColumnProperties: {
+            columnWidth: {magnitude: width, unit: 'EMU'},
+          },
+          fields: 'columnWidth',
+        },
+      });
+    });
+
+    // Merge before inserting text, since merged cells keep the text of
+    // all the cells they cover
+    for (const merge of table.merges ?? []) {
+      requests.push({
+        mergeTableCells: {
+          objectId: tableId,
+          tableRange: {
+            location: {rowIndex: merge.row, columnIndex: merge.column},
+            rowSpan: merge.rowSpan,
+            columnSpan: merge.columnSpan,
+          },
+        },
+      });
+    }
+
     for (const r in table.cells) {
       const row = table.cells[r];
       for (const c in row) {
+        const cellLocation = {
+          rowIndex: parseInt(r),
+          columnIndex: parseInt(c),
+        };
+        if (
+          isCoveredCell(table, cellLocation.rowIndex, cellLocation.columnIndex)
+        ) {
+          continue;
+        }
+        // Runs are applied last to first, so the size is overridden by
+        // any the cell sets itself
+        const text = {
+          ...row[c],
+          textRuns: [
+            ...row[c].textRuns,
+            {
+              fontSize: {magnitude: fontSize, unit: 'PT'},
+              start: 0,
+              end: row[c].rawText.length,
+            },
+          ],
+        };
         this.appendInsertTextRequests(
-          row[c],
+          text,
           {
             objectId: tableId,
-            cellLocation: {
-              rowIndex: parseInt(r),
-              columnIndex: parseInt(c),
-            },
+            cellLocation: cellLocation,
           },
           requests
         );
+        const style = table.cellStyles?.[r]?.[c];
+        // Empty cells have no paragraphs to align
+        if (style?.alignment && row[c].rawText.length) {
+          requests.push({
+            updateParagraphStyle: {
+              objectId: tableId,
+              cellLocation: cellLocation,
+              textRange: {type: 'ALL'},
+              style: {
+                alignment: style.alignment,
+              },
+              fields: 'alignment',
+            },
+          });
+        }
+        if (style?.backgroundColor?.opaqueColor) {
+          const merge = findMerge(
+            table,
+            cellLocation.rowIndex,
+            cellLocation.columnIndex
+          );
+          requests.push({
+            updateTableCellProperties: {
+              objectId: tableId,
+              tableRange: {
+                location: cellLocation,
+                rowSpan: merge?.rowSpan ?? 1,
+                columnSpan: merge?.columnSpan ?? 1,
+              },
+              tableCellProperties: {
+                tableCellBackgroundFill: {
+                  solidFill: {
+                    color: style.backgroundColor.opaqueColor,
+                  },
+                },
+              },
+              fields: 'tableCellBackgroundFill.solidFill.color',
+            },
+          });
+        }
       }
     }
 
-    // if there's a header, update the formatting
-    // from cell (0,0) through table.columns, give it a half-gray BG
+    if (table.border) {
+      this.appendTableBorderRequest(tableId, table, requests);
+    }
+  }
+
+  protected appendTableBorderRequest(
+    tableId: string,
+    table: TableDefinition,
+    requests: SlidesV1.Schema$Request[]
+  ): void {
+    assert(table.border);
+    const {color, weight, dashStyle} = table.border;
+    const tableBorderProperties: SlidesV1.Schema$TableBorderProperties = {
+      tableBorderFill: color?.opaqueColor
+        ? {solidFill: {color: color.opaqueColor}}
+        : undefined,
+      weight:
+        weight !== undefined ? {magnitude: weight, unit: 'PT'} : undefined,
+      dashStyle: dashStyle,
+    };
     requests.push({
-      updateTableCellProperties: {
+      updateTableBorderProperties: {
         objectId: tableId,
         tableRange: {
-          location: {
-            rowIndex: 0,
-            columnIndex: 0
-          },
-          rowSpan: 1,
-          columnSpan: table.columns
+          location: {rowIndex: 0, columnIndex: 0},
+          rowSpan: table.rows,
+          columnSpan: table.columns,
         },
-        tableCellProperties: {
-          tableCellBackgroundFill: {
-            solidFill: {
-              color: {
-                rgbColor: {
-                  red: 0.75,
-                  green: 0.75,
-                  blue: 0.75
-                }
-              }
-            }
-          }
-        },
-        fields: "tableCellBackgroundFill.solidFill.color"
-      }
+        borderPosition: 'ALL',
+        tableBorderProperties: tableBorderProperties,
+        fields: this.computeShallowFieldMask(tableBorderProperties),
+      },
     });
   }
 
   protected calculateBoundingBox(
     element: SlidesV1.Schema$PageElement
   ): BoundingBox {
-    assert(element);
-    assert(element.size?.height?.magnitude);
-    assert(element.size?.width?.magnitude);
-    const height = element.size.height.magnitude;
-    const width = element.size.width.magnitude;
-    const scaleX = element.transform?.scaleX ?? 1;
-    const scaleY = element.transform?.scaleY ?? 1;
-    const shearX = element.transform?.shearX ?? 0;
-    const shearY = element.transform?.shearY ?? 0;
-
-    return {
-      width: scaleX * width + shearX * height,
-      height: scaleY * height + shearY * width,
-      x: element.transform?.translateX ?? 0,
-      y: element.transform?.translateY ?? 0,
-    };
+    return calculateBoundingBox(element);
   }
 
   protected getBodyBoundingBox(
@@ -646,14 +1079,7 @@ export default class GenericLayout {
     if (placeholder) {
       return this.calculateBoundingBox(placeholder);
     }
-    assert(this.presentation.pageSize?.width?.magnitude);
-    assert(this.presentation.pageSize?.height?.magnitude);
-    return {
-      width: this.presentation.pageSize.width.magnitude,
-      height: this.presentation.pageSize.height.magnitude,
-      x: 0,
-      y: 0,
-    };
+    return pageBoundingBox(this.presentation);
   }
 
   protected computeShallowFieldMask<T extends object>(object: T): string {
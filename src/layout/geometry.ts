@@ -0,0 +1,605 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// @ts-ignore
+import Layout from 'layout';
+import {slides_v1 as SlidesV1} from 'googleapis';
+import {
+  ImageDefinition,
+  ImageLayoutDefinition,
+  ShapeDefinition,
+  TableDefinition,
+  TextDefinition,
+  VideoDefinition,
+} from '../slides.js';
+import {convertPTtoEMU, convertPXtoPT} from './presentation_helpers.js';
+import assert from 'assert';
+
+// from https://stackoverflow.com/a/66543738/12026982
+export const EMUperPixel = 9525;
+
+// Size of the text math is drawn for when not given, in points. Math is
+// scaled from it to the size of the text around it.
+export const MATH_FONT_SIZE = 16;
+
+// Space between tables or videos sharing a box, 0.1in
+const TABLE_GAP = 91440;
+const VIDEO_GAP = TABLE_GAP;
+const SHAPE_GAP = TABLE_GAP;
+
+/**
+ * Position and size of an element on the page, in EMU.
+ */
+export interface BoundingBox {
+  height: number;
+  width: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Computes the box an element occupies after its transform is applied.
+ *
+ * @param element Page element, e.g. a placeholder
+ * @returns {BoundingBox}
+ */
+export function calculateBoundingBox(
+  element: SlidesV1.Schema$PageElement
+): BoundingBox {
+  assert(element);
+  assert(element.size?.height?.magnitude);
+  assert(element.size?.width?.magnitude);
+  const height = element.size.height.magnitude;
+  const width = element.size.width.magnitude;
+  const scaleX = element.transform?.scaleX ?? 1;
+  const scaleY = element.transform?.scaleY ?? 1;
+  const shearX = element.transform?.shearX ?? 0;
+  const shearY = element.transform?.shearY ?? 0;
+
+  return {
+    width: scaleX * width + shearX * height,
+    height: scaleY * height + shearY * width,
+    x: element.transform?.translateX ?? 0,
+    y: element.transform?.translateY ?? 0,
+  };
+}
+
+/**
+ * @param presentation
+ * @returns {BoundingBox} Box covering the whole page
+ */
+export function pageBoundingBox(
+  presentation: SlidesV1.Schema$Presentation
+): BoundingBox {
+  assert(presentation.pageSize?.width?.magnitude);
+  assert(presentation.pageSize?.height?.magnitude);
+  return {
+    width: presentation.pageSize.width.magnitude,
+    height: presentation.pageSize.height.magnitude,
+    x: 0,
+    y: 0,
+  };
+}
+
+/**
+ * Places an image inside a placeholder, scaled to fit and centered,
+ * honoring its padding and offsets. Without a placeholder the image is
+ * centered on the page at its actual size, up to half the page.
+ *
+ * @param presentation
+ * @param {ImageDefinition} image Image with probed size, in pixels
+ * @param {BoundingBox} placeholderBox Box of the placeholder, if any
+ * @returns {BoundingBox} Where to put the image, in EMU
+ */
+export function placeImage(
+  presentation: SlidesV1.Schema$Presentation,
+  image: ImageDefinition,
+  placeholderBox?: BoundingBox
+): BoundingBox {
+  // if there's a placeholder, use it as a bounding box
+  // otherwise center the image at its actual size, capped at 50%
+  // of the slide
+  let box = placeholderBox;
+  if (!box) {
+    const {width: slideWidth, height: slideHeight} =
+      pageBoundingBox(presentation);
+    const maxWidth = slideWidth * 0.5;
+    const maxHeight = slideHeight * 0.5;
+    const imgWidth = Math.min(image.width * EMUperPixel, maxWidth);
+    const imgHeight = Math.min(image.height * EMUperPixel, maxHeight);
+    box = {
+      width: imgWidth,
+      height: imgHeight,
+      x: maxWidth - imgWidth / 2,
+      y: maxHeight - imgHeight / 2,
+    };
+  }
+  return placeImages([image], box)[0];
+}
+
+// Lays out items in rows of equal cells, centering each in its cell
+function packGrid(items: Layout.Item[], columns: number): void {
+  const cellWidth = Math.max(...items.map(item => item.width));
+  const cellHeight = Math.max(...items.map(item => item.height));
+  items.forEach((item, i) => {
+    item.x = (i % columns) * cellWidth + (cellWidth - item.width) / 2;
+    item.y =
+      Math.floor(i / columns) * cellHeight + (cellHeight - item.height) / 2;
+  });
+}
+
+// Number of grid columns that makes the items largest in the box
+function bestGridColumns(items: Layout.Item[], box: BoundingBox): number {
+  const cellWidth = Math.max(...items.map(item => item.width));
+  const cellHeight = Math.max(...items.map(item => item.height));
+  let columns = 1;
+  let bestScale = 0;
+  for (let n = 1; n <= items.length; ++n) {
+    const rows = Math.ceil(items.length / n);
+    const scale = Math.min(
+      box.width / (n * cellWidth),
+      box.height / (rows * cellHeight)
+    );
+    if (scale > bestScale) {
+      bestScale = scale;
+      columns = n;
+    }
+  }
+  return columns;
+}
+
+/**
+ * Packs images together and scales them, as a group, to fit the box.
+ * Images are packed in a grid, with as many columns as make them the
+ * largest unless set, or with an algorithm of the `layout` package in
+ * the order they appear. Padding and offsets of each image are honored.
+ *
+ * @param {ImageDefinition[]} images Images with probed size, in pixels
+ * @param {BoundingBox} box Box to fit the images in, e.g. the body
+ * @param {ImageLayoutDefinition} layout How to pack the images, in a
+ *   grid if not set
+ * @param {number} fontSize Size of the text in the box, in points, to
+ *   size math like
+ * @returns {BoundingBox[]} Box for each image, in EMU
+ */
+export function placeImages(
+  images: ImageDefinition[],
+  box: BoundingBox,
+  layout?: ImageLayoutDefinition,
+  fontSize?: number
+): BoundingBox[] {
+  if (!images.length) {
+    return [];
+  }
+  const algorithm = layout?.algorithm ?? 'grid';
+  const items: Layout.Item[] = images.map(image => {
+    const {width, height} = imageSize(image, box, fontSize);
+    return {
+      width: width + image.padding * 2,
+      height: height + image.padding * 2,
+      meta: {image, width, height},
+    };
+  });
+
+  if (algorithm === 'grid') {
+    packGrid(items, layout?.columns ?? bestGridColumns(items, box));
+  } else {
+    // TODO - Fix weird cast
+    const layer = (
+      Layout as (s: string, options: object) => Layout.PackingSmith
+    )(algorithm, {sort: false});
+    items.forEach(item => layer.addItem(item));
+    // Positions the items in place
+    layer.export();
+  }
+  const packedWidth = Math.max(...items.map(item => item.x + item.width));
+  const packedHeight = Math.max(...items.map(item => item.y + item.height));
+
+  // scale the packed layout to fit the box. Images sized relative to the
+  // box, and math sized like the text, are only scaled down, if they don't
+  // fit together.
+  let scaleRatio = Math.min(box.width / packedWidth, box.height / packedHeight);
+  if (images.every(image => isRelativelySized(image) || isMath(image))) {
+    scaleRatio = Math.min(scaleRatio, EMUperPixel);
+  }
+
+  const baseTranslateX = box.x + (box.width - packedWidth * scaleRatio) / 2;
+  const baseTranslateY = box.y + (box.height - packedHeight * scaleRatio) / 2;
+
+  return items.map(item => {
+    const {image, width, height} = item.meta;
+    return {
+      width: width * scaleRatio,
+      height: height * scaleRatio,
+      x: baseTranslateX + (item.x + image.padding + image.offsetX) * scaleRatio,
+      y: baseTranslateY + (item.y + image.padding + image.offsetY) * scaleRatio,
+    };
+  });
+}
+
+function isRelativelySized(image: ImageDefinition): boolean {
+  return (
+    image.relativeWidth !== undefined || image.relativeHeight !== undefined
+  );
+}
+
+function isMath(image: ImageDefinition): boolean {
+  return image.type === 'math';
+}
+
+// Size of the image in pixels. Images sized relative to the box keep
+// their aspect ratio, fitting inside the given fractions of the box.
+// Math without a size of its own is scaled to the text in the box.
+function imageSize(
+  image: ImageDefinition,
+  box: BoundingBox,
+  fontSize?: number
+): {width: number; height: number} {
+  if (isMath(image) && image.fontSize === undefined && fontSize) {
+    const scale = fontSize / MATH_FONT_SIZE;
+    return {width: image.width * scale, height: image.height * scale};
+  }
+  if (!isRelativelySized(image)) {
+    return {width: image.width, height: image.height};
+  }
+  const maxWidth =
+    ((image.relativeWidth ?? Infinity) * box.width) / EMUperPixel;
+  const maxHeight =
+    ((image.relativeHeight ?? Infinity) * box.height) / EMUperPixel;
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return {width: image.width * scale, height: image.height * scale};
+}
+
+/**
+ * Transform that puts an element in the box, rotated clockwise about its
+ * center.
+ *
+ * @param {BoundingBox} box Where the element goes before rotating, in EMU
+ * @param {number} degrees Angle of rotation
+ * @returns {SlidesV1.Schema$AffineTransform}
+ */
+export function rotationTransform(
+  box: BoundingBox,
+  degrees: number
+): SlidesV1.Schema$AffineTransform {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  return {
+    scaleX: cos,
+    scaleY: cos,
+    shearX: sin ? -sin : 0,
+    shearY: sin,
+    translateX: centerX - (cos * box.width - sin * box.height) / 2,
+    translateY: centerY - (sin * box.width + cos * box.height) / 2,
+    unit: 'EMU',
+  };
+}
+
+/**
+ * Scales a video to fit the box, keeping its aspect ratio, and centers it.
+ *
+ * @param {VideoDefinition} video Video to place
+ * @param {BoundingBox} box Box to fit the video in
+ * @returns {BoundingBox} Where to put the video, in EMU
+ */
+export function placeVideo(
+  video: VideoDefinition,
+  box: BoundingBox
+): BoundingBox {
+  const scaleRatio = Math.min(
+    box.width / video.width,
+    box.height / video.height
+  );
+
+  const scaledWidth = video.width * scaleRatio;
+  const scaledHeight = video.height * scaleRatio;
+
+  return {
+    width: scaledWidth,
+    height: scaledHeight,
+    x: box.x + (box.width - scaledWidth) / 2,
+    y: box.y + (box.height - scaledHeight) / 2,
+  };
+}
+
+/**
+ * Divides a box among the videos of a slide. Videos are laid out in a
+ * grid, with as many columns as make them the largest, and each is
+ * placed in its cell as by placeVideo.
+ *
+ * @param {VideoDefinition[]} videos Videos on the slide
+ * @param {BoundingBox} box Box to fit the videos in, e.g. the body
+ * @returns {BoundingBox[]} Box for each video, in EMU
+ */
+export function placeVideos(
+  videos: VideoDefinition[],
+  box: BoundingBox
+): BoundingBox[] {
+  if (!videos.length) {
+    return [];
+  }
+  const width = Math.max(...videos.map(v => v.width));
+  const height = Math.max(...videos.map(v => v.height));
+
+  let columns = 1;
+  let bestScale = 0;
+  for (let n = 1; n <= videos.length; ++n) {
+    const rows = Math.ceil(videos.length / n);
+    const scale = Math.min(
+      (box.width - VIDEO_GAP * (n - 1)) / n / width,
+      (box.height - VIDEO_GAP * (rows - 1)) / rows / height
+    );
+    if (scale > bestScale) {
+      bestScale = scale;
+      columns = n;
+    }
+  }
+
+  const rows = Math.ceil(videos.length / columns);
+  const cellWidth = (box.width - VIDEO_GAP * (columns - 1)) / columns;
+  const cellHeight = (box.height - VIDEO_GAP * (rows - 1)) / rows;
+  return videos.map((video, i) =>
+    placeVideo(video, {
+      width: cellWidth,
+      height: cellHeight,
+      x: box.x + (i % columns) * (cellWidth + VIDEO_GAP),
+      y: box.y + Math.floor(i / columns) * (cellHeight + VIDEO_GAP),
+    })
+  );
+}
+
+/**
+ * Divides a box among the tables of a slide. Tables are stacked, except
+ * those marked side-by-side, which share a row with the table before
+ * them. Rows get height in proportion to the number of table rows in
+ * them, and tables in a row share its width equally.
+ *
+ * @param {TableDefinition[]} tables Tables on the slide
+ * @param {BoundingBox} box Box to fit the tables in, e.g. the body
+ * @returns {BoundingBox[]} Box for each table, in EMU
+ */
+export function placeTables(
+  tables: TableDefinition[],
+  box: BoundingBox
+): BoundingBox[] {
+  const rows: TableDefinition[][] = [];
+  for (const table of tables) {
+    if (table.sideBySide && rows.length) {
+      rows[rows.length - 1].push(table);
+    } else {
+      rows.push([table]);
+    }
+  }
+
+  const weights = rows.map(row => Math.max(...row.map(t => t.rows), 1));
+  const totalWeight = weights.reduce((a, n) => a + n, 0);
+  const availableHeight = box.height - TABLE_GAP * (rows.length - 1);
+
+  const boxes: BoundingBox[] = [];
+  let y = box.y;
+  rows.forEach((row, r) => {
+    const height = (availableHeight * weights[r]) / totalWeight;
+    const width = (box.width - TABLE_GAP * (row.length - 1)) / row.length;
+    row.forEach((table, i) => {
+      boxes.push({
+        width: width,
+        height: height,
+        x: box.x + i * (width + TABLE_GAP),
+        y: y,
+      });
+    });
+    y += height + TABLE_GAP;
+  });
+  return boxes;
+}
+
+// Paragraphs of text, at least one
+function paragraphCount(text: TextDefinition): number {
+  return Math.max(text.rawText.trim().split('\n').length, 1);
+}
+
+/**
+ * Divides the box of a body between its text and its callouts, stacked
+ * in that order. Each gets height in proportion to its number of
+ * paragraphs.
+ *
+ * @param {ShapeDefinition[]} shapes Callouts of the body
+ * @param {BoundingBox} box Box of the body
+ * @param {TextDefinition} text Text of the body, if any
+ * @returns Box for the text, unless there is none, and for each callout,
+ *   in EMU
+ */
+export function placeShapes(
+  shapes: ShapeDefinition[],
+  box: BoundingBox,
+  text?: TextDefinition
+): {text?: BoundingBox; shapes: BoundingBox[]} {
+  const hasText = text !== undefined && text.rawText.trim().length > 0;
+  const items = [
+    ...(hasText && text ? [text] : []),
+    ...shapes.map(shape => shape.text),
+  ];
+  if (!items.length) {
+    return {shapes: []};
+  }
+  const weights = items.map(paragraphCount);
+  const totalWeight = weights.reduce((a, n) => a + n, 0);
+  const availableHeight = box.height - SHAPE_GAP * (items.length - 1);
+
+  const boxes: BoundingBox[] = [];
+  let y = box.y;
+  weights.forEach(weight => {
+    const height = (availableHeight * weight) / totalWeight;
+    boxes.push({width: box.width, height: height, x: box.x, y: y});
+    y += height + SHAPE_GAP;
+  });
+  return hasText ? {text: boxes[0], shapes: boxes.slice(1)} : {shapes: boxes};
+}
+
+// Height of a line of text, relative to the size of its font
+const LINE_HEIGHT = 1.2;
+
+/**
+ * Divides the box of a body between its text and the images packed into
+ * it, stacked in that order, so the images don't cover the text. The text
+ * gets the height of its paragraphs at the given size, up to half the
+ * box, and the images get the rest.
+ *
+ * @param {BoundingBox} box Box of the body
+ * @param {TextDefinition} text Text of the body, if any
+ * @param {number} fontSize Size of the text, in points
+ * @returns Box for the text, unless there is none, and for the images,
+ *   in EMU
+ */
+export function placeTextAndImages(
+  box: BoundingBox,
+  text: TextDefinition | undefined,
+  fontSize = MATH_FONT_SIZE
+): {text?: BoundingBox; images: BoundingBox} {
+  if (!text || !text.rawText.trim().length) {
+    return {images: box};
+  }
+  const height = Math.min(
+    convertPTtoEMU(paragraphCount(text) * fontSize * LINE_HEIGHT),
+    (box.height - SHAPE_GAP) / 2
+  );
+  return {
+    text: {width: box.width, height: height, x: box.x, y: box.y},
+    images: {
+      width: box.width,
+      height: box.height - height - SHAPE_GAP,
+      x: box.x,
+      y: box.y + height + SHAPE_GAP,
+    },
+  };
+}
+
+/**
+ * Copy of an element with its height scaled, e.g. to fit text to a
+ * placeholder before it is resized.
+ *
+ * @param element Page element, e.g. a placeholder
+ * @param {number} ratio New height over the current height
+ * @returns Scaled copy of the element
+ */
+export function scaleElementHeight(
+  element: SlidesV1.Schema$PageElement,
+  ratio: number
+): SlidesV1.Schema$PageElement {
+  const transform = element.transform ?? {};
+  return {
+    ...element,
+    transform: {...transform, scaleY: (transform.scaleY ?? 1) * ratio},
+  };
+}
+
+// Width of a space relative to the size of its font, as in Arial
+const SPACE_WIDTH = 0.278;
+
+/**
+ * Copy of the text of a body with no-break spaces where its inline math
+ * goes, enough for each image to be drawn over. Styles and lists are
+ * moved along with the text.
+ *
+ * @param {TextDefinition} text Text of the body
+ * @param {ImageDefinition[]} images Inline math of the body, with probed
+ *   size, in pixels
+ * @returns Text with the spaces, and the range of the spaces kept for
+ *   each image
+ */
+export function reserveInlineSpace(
+  text: TextDefinition,
+  images: ImageDefinition[]
+): {text: TextDefinition; ranges: {start: number; end: number}[]} {
+  // Math is drawn at the size of the text, so it's as many spaces wide at
+  // any size
+  const spaces = images.map(image =>
+    Math.ceil(
+      convertPXtoPT(image.width) /
+        ((image.fontSize ?? MATH_FONT_SIZE) * SPACE_WIDTH)
+    )
+  );
+  const order = images
+    .map((image, i) => i)
+    .sort((a, b) => (images[a].textIndex ?? 0) - (images[b].textIndex ?? 0));
+
+  let rawText = '';
+  let last = 0;
+  const ranges: {start: number; end: number}[] = [];
+  for (const i of order) {
+    const index = images[i].textIndex ?? 0;
+    rawText += text.rawText.slice(last, index);
+    ranges[i] = {start: rawText.length, end: rawText.length + spaces[i]};
+    rawText += '\u00a0'.repeat(spaces[i]);
+    last = index;
+  }
+  rawText += text.rawText.slice(last);
+
+  // Ranges that end where an image goes don't take in its spaces
+  const move = (index: number, isEnd: boolean): number =>
+    images.reduce((moved, image, i) => {
+      const at = image.textIndex ?? 0;
+      return at < index || (at === index && !isEnd) ? moved + spaces[i] : moved;
+    }, index);
+  return {
+    text: {
+      ...text,
+      rawText: rawText,
+      textRuns: text.textRuns.map(run => ({
+        ...run,
+        start: run.start === undefined ? undefined : move(run.start, false),
+        end: run.end === undefined ? undefined : move(run.end, true),
+      })),
+      listMarkers: text.listMarkers.map(marker => ({
+        ...marker,
+        start: move(marker.start, false),
+        end: move(marker.end, true),
+      })),
+    },
+    ranges: ranges,
+  };
+}
+
+/**
+ * Puts inline math over the spaces kept for it in the text, centered on
+ * the line. The math is sized like the text unless it has a size of its
+ * own.
+ *
+ * @param {ImageDefinition} image Inline math, with probed size, in pixels
+ * @param {BoundingBox} box Box of the text
+ * @param position Where the spaces are drawn from the top left corner of
+ *   the box, and the height of their line, in points
+ * @param {number} fontSize Size of the text, in points
+ * @returns {BoundingBox} Where to put the image, in EMU
+ */
+export function placeInlineImage(
+  image: ImageDefinition,
+  box: BoundingBox,
+  position: {x: number; y: number; lineHeight: number},
+  fontSize?: number
+): BoundingBox {
+  const size = imageSize(image, box, fontSize);
+  const width = size.width * EMUperPixel;
+  const height = size.height * EMUperPixel;
+  return {
+    width: width,
+    height: height,
+    x: box.x + convertPTtoEMU(position.x),
+    y:
+      box.y + convertPTtoEMU(position.y + position.lineHeight / 2) - height / 2,
+  };
+}
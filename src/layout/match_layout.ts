@@ -15,6 +15,7 @@
 import GenericLayout from './generic_layout.js';
 import {slides_v1 as SlidesV1} from 'googleapis';
 import {SlideDefinition, TextDefinition} from '../slides.js';
+import {ObjectIdSource} from '../object_ids.js';
 
 type MatchFn = (slide: SlideDefinition) => boolean;
 
@@ -27,7 +28,8 @@ const layouts: Layout[] = [];
 
 export default function matchLayout(
   presentation: SlidesV1.Schema$Presentation,
-  slide: SlideDefinition
+  slide: SlideDefinition,
+  newObjectId?: ObjectIdSource
 ): GenericLayout {
   // if we have manually set the slide layout get the master from the presentation
   let layoutName: string | undefined = undefined;
@@ -46,7 +48,7 @@ export default function matchLayout(
     }
     layoutName = layout.name;
   }
-  return new GenericLayout(layoutName, presentation, slide);
+  return new GenericLayout(layoutName, presentation, slide, newObjectId);
 }
 
 function defineLayout(name: string, matchFn: MatchFn): void {
@@ -13,9 +13,9 @@
 // limitations under the License.
 
 import {slides_v1 as SlidesV1} from 'googleapis';
-import { createCanvas } from 'canvas';
+import { createCanvas, CanvasRenderingContext2D } from 'canvas';
 import assert from 'assert';
-import { TextDefinition } from '../slides.js'
+import { TableDefinition, TableMerge, TextDefinition } from '../slides.js'
 
 export interface Dimensions {
   width: number;
@@ -120,6 +120,35 @@ export function findPlaceholder(
   return undefined;
 }
 
+/**
+ * Finds the color of body text in the theme of the presentation, as set
+ * on the body placeholder of the first master.
+ *
+ * @param presentation
+ * @returns {Object} Color, or undefined if the theme doesn't set one
+ */
+export function findTextColor(
+  presentation: SlidesV1.Schema$Presentation
+): SlidesV1.Schema$OptionalColor | undefined {
+  const master = presentation.masters?.[0];
+  const body = master?.pageElements?.find(
+    element => element.shape?.placeholder?.type === 'BODY'
+  );
+  const color = body?.shape?.text?.textElements?.find(
+    e => e.textRun?.style?.foregroundColor
+  )?.textRun?.style?.foregroundColor?.opaqueColor;
+  if (color?.rgbColor) {
+    return {opaqueColor: {rgbColor: color.rgbColor}};
+  }
+  const themeColor = master?.pageProperties?.colorScheme?.colors?.find(
+    c => c.type === color?.themeColor
+  );
+  if (themeColor?.color) {
+    return {opaqueColor: {rgbColor: themeColor.color}};
+  }
+  return undefined;
+}
+
 export function findSpeakerNotesObjectId(
   presentation: SlidesV1.Schema$Presentation,
   pageId: string
@@ -142,6 +171,7 @@ export function findSpeakerNotesObjectId(
 
 // An English Metric Unit (EMU) is defined as 1/360,000 of a centimeter and thus there are 914,400 EMUs per inch, and 12,700 EMUs per point.
 export const convertEMUtoPT = (emu: number): number => emu / 12700;
+export const convertPTtoEMU = (pt: number): number => pt * 12700;
 // convert pixles to PT, there is 0.75pt to a px
 export const convertPXtoPT = (px: number): number => px * 0.75;
 // convert PT to PX, there is 0.75pt to a px
@@ -241,6 +271,52 @@ const DEFAULT_PADDING = 0.2 * 72;  // 72pt per inch, assume 0.1in padding on all
 // in practice, characters seem to be roughly 1.15x wider in GSlides than in canvas elt
 const WTF_CHAR_WIDTH_HACK = 1.15;
 
+// Pixel-accurate line wrapping using canvas measurements, respecting hard breaks.
+// Replaces the character-count-based splitter(), which was inaccurate for variable-width text.
+function wrapText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidthPX: number
+): string[] {
+  const lines: string[] = [];
+  for (const hardLine of text.split('\n')) {
+    const words = hardLine.split(' ');
+    let current = '';
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (ctx.measureText(candidate).width > maxWidthPX && current) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    lines.push(current);
+  }
+  return lines;
+}
+
+// Style, font and weight of the text of the youngest (last) ancestor
+function textFont(ancestors: SlidesV1.Schema$PageElement[]) {
+  const element = ancestors[ancestors.length - 1];
+
+  // starting with the default, merge style rules from oldest-to-youngest
+  const computedStyle = Object.assign(
+    {}, DEFAULT_STYLE,
+    ...ancestors.map(a => a.shape?.text?.textElements?.at(0)?.paragraphMarker?.style)
+  );
+
+  // try to extract all the font-weights
+  const fontWeights = element.shape?.text?.textElements?.map(textElement => textElement.textRun?.style?.weightedFontFamily?.weight).filter((a): a is number => Number.isInteger(a)) ?? [];
+  // fallback to arial if not found; if there's more than one fontFamily, just pick the first one
+  const fontFamily = findByKey(element, 'fontFamily') ?? computedStyle.fontFamily;
+  // calculate the average as there can be different fonts with different weights within a single text element
+  const averageFontWeight = fontWeights.reduce((a, n) => a + n, 0) / fontWeights.length;
+  // if the average font-weight is not a number, use the default
+  const fontWeight = isNaN(averageFontWeight) ? computedStyle.weightedFontFamily.weight : averageFontWeight;
+  return {computedStyle, fontFamily, fontWeight};
+}
+
 // NOTE(Emmanuel): probably unneeded if we ever fix the regular markdown parser
 const cachedFontCalculations = new Map();
   
@@ -252,39 +328,29 @@ export function calculateFontSize(
   // the youngest (last) ancestor is the actual element we're trying to fit
   const element = ancestors[ancestors.length-1];
 
-  // check to see if we've already done this work
+  // Create a canvas with the same size as the element. This probably doesn't matter,
+  // as we're only measuring a fake representation of the text with ctx.measureText
+  const sizePT = getElementSizePT(element);
+
+  // check to see if we've already done this work, for an element of this
+  // size, as text is fitted again to placeholders that are shrunk
   // NOTE(Emmanuel): probably unneeded if we ever fix the regular markdown parser
-  const key = text.rawText + element.objectId;
+  const key = `${text.rawText}${element.objectId}@${sizePT.width}x${sizePT.height}`;
   if(cachedFontCalculations.has(key)) { 
     return cachedFontCalculations.get(key); 
   }
 
-  // Create a canvas with the same size as the element. This probably doesn't matter,
-  // as we're only measuring a fake representation of the text with ctx.measureText
-  const sizePT = getElementSizePT(element);
   // adjust the size to account for space lost to padding
   sizePT.width -= DEFAULT_PADDING;
   sizePT.height -= DEFAULT_PADDING;
   const canvas = createCanvas(sizePT.width, sizePT.height);
   const ctx = canvas.getContext('2d');
 
-  // starting with the default, merge style rules from oldest-to-youngest
-  const computedStyle = Object.assign(
-    {}, DEFAULT_STYLE,
-    ...ancestors.map(a => a.shape?.text?.textElements?.at(0)?.paragraphMarker?.style)
-  );
+  const {computedStyle, fontFamily, fontWeight} = textFont(ancestors);
 
   // try to extract all the font-sizes
   const fontSizes = element.shape?.text?.textElements?.map(textElement => textElement.textRun?.style?.fontSize?.magnitude).filter((a): a is number => Number.isInteger(a)) ?? [];
-  // try to extract all the font-weights
-  const fontWeights = element.shape?.text?.textElements?.map(textElement => textElement.textRun?.style?.weightedFontFamily?.weight).filter((a): a is number => Number.isInteger(a)) ?? [];
-  // fallback to arial if not found; if there's more than one fontFamily, just pick the first one
-  const fontFamily = findByKey(element, 'fontFamily') ?? computedStyle.fontFamily;
-  // calculate the average as there can be different fonts with different weights within a single text element
-  const averageFontWeight = fontWeights.reduce((a, n) => a + n, 0) / fontWeights.length;
   const averageFontSize = fontSizes.reduce((a, n) => a + n, 0) / fontSizes.length;
-  // if the average font-weight is not a number, use the default
-  const fontWeight = isNaN(averageFontWeight) ? computedStyle.weightedFontFamily.weight : averageFontWeight;
   // use the average fontSize if available, else start at an arbitrary default
   let fontSize = isNaN(averageFontSize) ? computedStyle.fontSize.magnitude : averageFontSize;
   // if the input value is an empty string, don't bother with any calculations
@@ -293,26 +359,8 @@ export function calculateFontSize(
   // convenience function: given a property, get its magnitude or produce zero
   function amountPT(prop: string) { return computedStyle[prop].magnitude || 0; }
 
-  // Pixel-accurate line wrapping using canvas measurements, respecting hard breaks.
-  // Replaces the character-count-based splitter(), which was inaccurate for variable-width text.
-  const wrapLines = (text: string, maxWidthPX: number): string[] => {
-    const lines: string[] = [];
-    for (const hardLine of text.split('\n')) {
-      const words = hardLine.split(' ');
-      let current = '';
-      for (const word of words) {
-        const candidate = current ? `${current} ${word}` : word;
-        if (ctx.measureText(candidate).width > maxWidthPX && current) {
-          lines.push(current);
-          current = word;
-        } else {
-          current = candidate;
-        }
-      }
-      lines.push(current);
-    }
-    return lines;
-  };
+  const wrapLines = (text: string, maxWidthPX: number): string[] =>
+    wrapText(ctx, text, maxWidthPX);
 
   const isOutsideBounds = (): boolean => {
     // use px units for canvas — pt is unreliable in node-canvas
@@ -389,3 +437,261 @@ export function calculateFontSize(
   cachedFontCalculations.set(key, fontSize);
   return fontSize;
 }
+
+/**
+ * Estimates where a range of the text is drawn in the element, as the
+ * text wraps at the given size, by measuring it on a canvas like
+ * calculateFontSize does.
+ *
+ * @param ancestors Elements the text is in, oldest-to-youngest
+ * @param {TextDefinition} text Text of the element
+ * @param {number} fontSize Size the text is drawn at, in points
+ * @param range Characters of the text to find, on a single line
+ * @returns Offset of the range from the top left corner of the element,
+ *   and the height of its line, in points
+ */
+export function measureTextPosition(
+  ancestors: SlidesV1.Schema$PageElement[],
+  text: TextDefinition,
+  fontSize: number,
+  range: {start: number; end: number}
+): {x: number; y: number; lineHeight: number} {
+  const element = ancestors[ancestors.length - 1];
+  const sizePT = getElementSizePT(element);
+  const {computedStyle, fontFamily, fontWeight} = textFont(ancestors);
+  const indentStart = computedStyle.indentStart.magnitude || 0;
+  const indentEnd = computedStyle.indentEnd.magnitude || 0;
+
+  const ctx = createCanvas(sizePT.width, sizePT.height).getContext('2d');
+  ctx.font = `${fontWeight} ${convertPTtoPX(fontSize)}px ${fontFamily}`;
+  const widthPX =
+    convertPTtoPX(sizePT.width - DEFAULT_PADDING - indentStart - indentEnd) /
+    WTF_CHAR_WIDTH_HACK;
+
+  // Wrapped up to the end of the range, the range is at the end of the
+  // last line
+  const lines = wrapText(
+    ctx,
+    text.rawText.slice(0, range.end).replace(/\u000b/g, '\n'),
+    widthPX
+  );
+  const lastLine = lines[lines.length - 1];
+  const rangeWidthPX = ctx.measureText(
+    text.rawText.slice(range.start, range.end)
+  ).width;
+  const metrics = ctx.measureText(lastLine);
+  const lineHeight = convertPXtoPT(
+    (metrics.emHeightAscent as number) + (metrics.emHeightDescent as number)
+  );
+  return {
+    x:
+      DEFAULT_PADDING / 2 +
+      indentStart +
+      convertPXtoPT(metrics.width - rangeWidthPX) * WTF_CHAR_WIDTH_HACK,
+    y:
+      DEFAULT_PADDING / 2 +
+      (lines.length - 1) * lineHeight * (computedStyle.lineSpacing / 100),
+    lineHeight: lineHeight,
+  };
+}
+
+// Font size of new tables in Slides, in points
+export const TABLE_FONT_SIZE = 14;
+
+// Space between the text and the edges of a table cell, in points, as
+// Slides pads cells by default
+const TABLE_CELL_PADDING = {horizontal: 2 * 0.1 * 72, vertical: 2 * 0.05 * 72};
+
+// Narrowest column the Slides API accepts, in points
+const MIN_COLUMN_WIDTH = 32;
+
+/**
+ * @param {TableDefinition} table
+ * @param {number} row
+ * @param {number} column
+ * @returns {TableMerge | undefined} Merge that starts at or covers the cell
+ */
+export function findMerge(
+  table: TableDefinition,
+  row: number,
+  column: number
+): TableMerge | undefined {
+  return table.merges?.find(
+    merge =>
+      row >= merge.row &&
+      row < merge.row + merge.rowSpan &&
+      column >= merge.column &&
+      column < merge.column + merge.columnSpan
+  );
+}
+
+/**
+ * @param {TableDefinition} table
+ * @param {number} row
+ * @param {number} column
+ * @returns {boolean} Whether the cell is part of a merged cell, other than
+ *   the one the merged cell's content goes in
+ */
+export function isCoveredCell(
+  table: TableDefinition,
+  row: number,
+  column: number
+): boolean {
+  const merge = findMerge(table, row, column);
+  return merge !== undefined && (merge.row !== row || merge.column !== column);
+}
+
+/**
+ * Size of a table and its text, chosen to fit a box.
+ */
+export interface TableLayout {
+  fontSize: number; // In points
+  columnWidths: number[]; // In EMU
+  height: number; // In EMU, estimated from the wrapped text
+}
+
+/**
+ * Sizes the columns of a table by the width of their content and shrinks
+ * the text until the table fits the box, as calculateFontSize does for
+ * placeholders.
+ *
+ * @param {TableDefinition} table Table to fit
+ * @param {{width: number, height: number}} box Size of the box, in EMU
+ * @returns {TableLayout}
+ */
+export function calculateTableLayout(
+  table: TableDefinition,
+  box: {width: number; height: number}
+): TableLayout {
+  const widthPT = convertEMUtoPT(box.width);
+  const heightPT = convertEMUtoPT(box.height);
+  const ctx = createCanvas(widthPT, heightPT).getContext('2d');
+
+  const setFont = (cell: TextDefinition, fontSize: number): void => {
+    const bold = cell.textRuns.some(run => run.bold) ? 'bold' : 'normal';
+    const fontFamily =
+      cell.textRuns.find(run => run.fontFamily)?.fontFamily ??
+      DEFAULT_STYLE.fontFamily;
+    ctx.font = `${bold} ${convertPTtoPX(fontSize)}px ${fontFamily}`;
+  };
+
+  const columnWidthsAt = (fontSize: number): number[] => {
+    const natural: number[] = new Array(table.columns).fill(MIN_COLUMN_WIDTH);
+    table.cells.forEach((row, r) => {
+      row.forEach((cell, c) => {
+        if (isCoveredCell(table, r, c)) {
+          return;
+        }
+        // Merged cells need their width spread over their columns
+        const span = findMerge(table, r, c)?.columnSpan ?? 1;
+        setFont(cell, fontSize);
+        for (const line of cell.rawText.trimEnd().split('\n')) {
+          const widthPT =
+            convertPXtoPT(ctx.measureText(line).width) * WTF_CHAR_WIDTH_HACK +
+            TABLE_CELL_PADDING.horizontal;
+          for (let i = c; i < c + span; ++i) {
+            natural[i] = Math.max(natural[i], widthPT / span);
+          }
+        }
+      });
+    });
+    const total = natural.reduce((a, n) => a + n, 0);
+    if (total <= widthPT) {
+      // Stretch the columns to the width of the box
+      return natural.map(w => (w * widthPT) / total);
+    }
+    // Columns narrower than an equal share keep their width, the others
+    // share what's left and wrap
+    const widths: (number | undefined)[] = new Array(table.columns);
+    let remaining = widthPT;
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const open = natural.filter((w, c) => widths[c] === undefined);
+      const share = remaining / open.length;
+      natural.forEach((w, c) => {
+        if (widths[c] === undefined && w <= share) {
+          widths[c] = w;
+          remaining -= w;
+          changed = true;
+        }
+      });
+    }
+    // Wide columns share it by the width of their content, but none get
+    // narrower than the API allows. With too many columns for the box,
+    // every column is as narrow as allowed and the table overflows.
+    let wideTotal = 0;
+    changed = true;
+    while (changed) {
+      changed = false;
+      wideTotal = natural
+        .filter((w, c) => widths[c] === undefined)
+        .reduce((a, n) => a + n, 0);
+      const scale = remaining / wideTotal;
+      natural.forEach((w, c) => {
+        if (widths[c] === undefined && w * scale < MIN_COLUMN_WIDTH) {
+          widths[c] = MIN_COLUMN_WIDTH;
+          remaining -= MIN_COLUMN_WIDTH;
+          changed = true;
+        }
+      });
+    }
+    return natural.map((w, c) => widths[c] ?? (w * remaining) / wideTotal);
+  };
+
+  const heightAt = (fontSize: number, columnWidths: number[]): number => {
+    const lineHeight = (fontSize * DEFAULT_STYLE.lineSpacing) / 100;
+    const rowLines: number[] = new Array(table.rows).fill(1);
+    table.cells.forEach((row, r) => {
+      row.forEach((cell, c) => {
+        if (isCoveredCell(table, r, c)) {
+          return;
+        }
+        // Merged cells wrap at the width of their columns, and their
+        // lines are spread over their rows
+        const merge = findMerge(table, r, c);
+        const rowSpan = merge?.rowSpan ?? 1;
+        const width = columnWidths
+          .slice(c, c + (merge?.columnSpan ?? 1))
+          .reduce((a, n) => a + n, 0);
+        setFont(cell, fontSize);
+        const maxWidthPX =
+          convertPTtoPX(width - TABLE_CELL_PADDING.horizontal) /
+          WTF_CHAR_WIDTH_HACK;
+        const lines = wrapText(ctx, cell.rawText.trimEnd(), maxWidthPX).length;
+        for (let i = r; i < r + rowSpan; ++i) {
+          rowLines[i] = Math.max(rowLines[i], lines / rowSpan);
+        }
+      });
+    });
+    return rowLines.reduce(
+      (height, lines) =>
+        height + lines * lineHeight + TABLE_CELL_PADDING.vertical,
+      0
+    );
+  };
+
+  const fits = (fontSize: number): boolean =>
+    heightAt(fontSize, columnWidthsAt(fontSize)) <= heightPT;
+
+  let fontSize = TABLE_FONT_SIZE;
+  if (!fits(fontSize)) {
+    let lo = MIN_SIZE;
+    let hi = fontSize;
+    while (hi - lo > 0.1) {
+      const mid = (lo + hi) / 2;
+      if (fits(mid)) lo = mid;
+      else hi = mid;
+    }
+    fontSize = Math.floor(lo * 10) / 10;
+  }
+
+  const columnWidths = columnWidthsAt(fontSize);
+  return {
+    fontSize: fontSize,
+    columnWidths: columnWidths.map(convertPTtoEMU),
+    height: convertPTtoEMU(
+      Math.min(heightAt(fontSize, columnWidths), heightPT)
+    ),
+  };
+}
@@ -0,0 +1,35 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {v1 as uuid} from 'uuid';
+
+/**
+ * Returns a new ID for a slide or page element.
+ */
+export type ObjectIdSource = () => string;
+
+export const randomObjectId: ObjectIdSource = () => uuid();
+
+/**
+ * IDs that are the same on every run, e.g. `object_1`, `object_2`, ...
+ * so that the requests of a dry run can be compared.
+ *
+ * @param {string} prefix Start of each ID. IDs must be at least 5
+ *   characters long.
+ * @returns {ObjectIdSource}
+ */
+export function sequentialObjectIds(prefix = 'object_'): ObjectIdSource {
+  let count = 0;
+  return () => `${prefix}${++count}`;
+}
@@ -0,0 +1,176 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Parsers of `{...}` attributes used by extractSlides.
+
+import Token from 'markdown-it/lib/token';
+import {Color, ImageCrop, ImageDefinition} from '../slides.js';
+import {parseColorString} from './css.js';
+
+// Thrown for values of attributes that can't be read
+export class AttributeError extends Error {}
+
+export function attr(token: Token, name: string): string | undefined {
+  if (!token.attrs) {
+    return undefined;
+  }
+  const attr = token.attrs.find(a => a[0] === name);
+  if (!attr) {
+    return undefined;
+  }
+  return attr[1];
+}
+
+// Values of `{layout=...}` that pack the images of a body rather than
+// choose the layout of the slide
+export const IMAGE_LAYOUTS = ['left-right', 'top-down', 'binary-tree', 'grid'];
+
+export function parseColumns(token: Token): number | undefined {
+  const columns = attr(token, 'cols');
+  if (columns === undefined) {
+    return undefined;
+  }
+  const value = parseInt(columns);
+  if (isNaN(value) || value < 1) {
+    throw new AttributeError(`Invalid number of columns: ${columns}`);
+  }
+  return value;
+}
+
+// Fraction from a percentage, e.g. 10% -> 0.1
+export function parsePercentage(value: string): number | undefined {
+  const match = value.match(/^(\d+(?:\.\d+)?)%$/);
+  return match ? parseFloat(match[1]) / 100 : undefined;
+}
+
+// Like CSS margins, e.g. `10%` for all edges or `10% 0 5% 0` for the top,
+// right, bottom and left
+export function parseCrop(value: string): ImageCrop {
+  const offsets = value
+    .trim()
+    .split(/\s+/)
+    .map(part => (part === '0' ? 0 : parsePercentage(part)));
+  if (offsets.length > 4 || offsets.some(offset => offset === undefined)) {
+    throw new AttributeError(`Invalid crop: ${value}`);
+  }
+  const [top, right = top, bottom = top, left = right] = offsets as number[];
+  if (top + bottom >= 1 || left + right >= 1) {
+    throw new AttributeError(`Invalid crop: ${value}`);
+  }
+  return {top, right, bottom, left};
+}
+
+// Either a fraction or a percentage
+export function parseOpacity(value: string): number {
+  const opacity = parsePercentage(value) ?? Number(value);
+  if (isNaN(opacity) || opacity < 0 || opacity > 1) {
+    throw new AttributeError(`Invalid opacity: ${value}`);
+  }
+  return opacity;
+}
+
+const IMAGE_FITS = ['contain', 'cover', 'stretch'];
+
+// Sizes are in pixels, e.g. `200` or `200px`, or relative to the
+// placeholder, e.g. `50%`
+export function parseImageSize(token: Token): Partial<ImageDefinition> {
+  const image: Partial<ImageDefinition> = {};
+  const width = attr(token, 'width');
+  const height = attr(token, 'height');
+  const fit = attr(token, 'fit');
+  const relativeWidth = width ? parsePercentage(width) : undefined;
+  const relativeHeight = height ? parsePercentage(height) : undefined;
+  const relative = relativeWidth !== undefined || relativeHeight !== undefined;
+
+  if (relative) {
+    if (
+      (width && relativeWidth === undefined) ||
+      (height && relativeHeight === undefined)
+    ) {
+      throw new AttributeError(
+        'Image width and height must have the same unit'
+      );
+    }
+    if (relativeWidth !== undefined) {
+      image.relativeWidth = relativeWidth;
+    }
+    if (relativeHeight !== undefined) {
+      image.relativeHeight = relativeHeight;
+    }
+  } else {
+    if (width) {
+      image.width = parsePixels(width);
+    }
+    if (height) {
+      image.height = parsePixels(height);
+    }
+  }
+
+  if (fit) {
+    if (!IMAGE_FITS.includes(fit)) {
+      throw new AttributeError(`Invalid image fit: ${fit}`);
+    }
+    if (fit !== 'contain' && (relative || !width || !height)) {
+      throw new AttributeError(`fit=${fit} needs a width and height in pixels`);
+    }
+    image.fit = fit;
+  }
+  return image;
+}
+
+export function parsePixels(value: string): number {
+  const pixels = parseFloat(value);
+  if (!/^\d+(\.\d+)?(px)?$/.test(value) || !pixels) {
+    throw new AttributeError(`Invalid image size: ${value}`);
+  }
+  return pixels;
+}
+
+// Degrees clockwise
+export function parseRotation(value: string): number {
+  const rotation = parseFloat(value);
+  if (isNaN(rotation)) {
+    throw new AttributeError(`Invalid rotation: ${value}`);
+  }
+  return rotation;
+}
+
+// Times are in seconds, or like 1:30 or 1:02:30
+export function parseVideoTime(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parts = value.split(':').map(part => Number(part));
+  if (!value.length || parts.some(part => isNaN(part))) {
+    throw new AttributeError(`Invalid video time: ${value}`);
+  }
+  return parts.reduce((seconds, part) => seconds * 60 + part, 0);
+}
+
+// Either points or a plain number
+export function parseFontSize(value: string): number {
+  const size = parseFloat(value);
+  if (!/^\d+(\.\d+)?(pt)?$/.test(value) || !size) {
+    throw new AttributeError(`Invalid math size: ${value}`);
+  }
+  return size;
+}
+
+export function parseMathColor(value: string): Color {
+  const color = parseColorString(value);
+  if (!color) {
+    throw new AttributeError(`Invalid math color: ${value}`);
+  }
+  return color;
+}
@@ -0,0 +1,121 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Short names for the bullet presets of the Slides API, for use in
+// `{bullets=...}` attributes. Full preset names work too.
+const PRESETS: {[name: string]: string} = {
+  disc: 'BULLET_DISC_CIRCLE_SQUARE',
+  diamond: 'BULLET_DIAMOND_CIRCLE_SQUARE',
+  diamondx: 'BULLET_DIAMONDX_ARROW3D_SQUARE',
+  'hollow-diamond': 'BULLET_DIAMONDX_HOLLOWDIAMOND_SQUARE',
+  checkbox: 'BULLET_CHECKBOX',
+  arrow: 'BULLET_ARROW_DIAMOND_DISC',
+  arrow3d: 'BULLET_ARROW3D_CIRCLE_SQUARE',
+  star: 'BULLET_STAR_CIRCLE_SQUARE',
+  triangle: 'BULLET_LEFTTRIANGLE_DIAMOND_DISC',
+  digits: 'NUMBERED_DIGIT_ALPHA_ROMAN',
+  parens: 'NUMBERED_DIGIT_ALPHA_ROMAN_PARENS',
+  nested: 'NUMBERED_DIGIT_NESTED',
+  zero: 'NUMBERED_ZERODIGIT_ALPHA_ROMAN',
+  letters: 'NUMBERED_UPPERALPHA_ALPHA_ROMAN',
+  roman: 'NUMBERED_UPPERROMAN_UPPERALPHA_DIGIT',
+};
+
+export const DEFAULT_BULLET_PRESET = PRESETS.disc;
+export const DEFAULT_NUMBERED_PRESET = PRESETS.digits;
+
+/**
+ * @param {string} name Short or full name of a bullet preset
+ * @returns {string} Name of the preset in the Slides API, or undefined
+ *   if there's no such preset
+ */
+export function resolveBulletPreset(name: string): string | undefined {
+  const preset = name.toUpperCase();
+  if (Object.values(PRESETS).includes(preset)) {
+    return preset;
+  }
+  const short = name.toLowerCase();
+  // Only the names above, not properties of every object such as
+  // `constructor`
+  return Object.prototype.hasOwnProperty.call(PRESETS, short)
+    ? PRESETS[short]
+    : undefined;
+}
+
+/**
+ * @param {string} preset Name of a preset in the Slides API
+ * @returns {boolean} Whether the preset numbers paragraphs
+ */
+export function isNumberedPreset(preset: string): boolean {
+  return preset.startsWith('NUMBERED_');
+}
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'M'],
+    [900, 'CM'],
+    [500, 'D'],
+    [400, 'CD'],
+    [100, 'C'],
+    [90, 'XC'],
+    [50, 'L'],
+    [40, 'XL'],
+    [10, 'X'],
+    [9, 'IX'],
+    [5, 'V'],
+    [4, 'IV'],
+    [1, 'I'],
+  ];
+  let result = '';
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  }
+  return result;
+}
+
+function toLetters(n: number): string {
+  let result = '';
+  while (n > 0) {
+    result = String.fromCharCode(65 + ((n - 1) % 26)) + result;
+    n = Math.floor((n - 1) / 26);
+  }
+  return result;
+}
+
+/**
+ * Formats the number of an outermost list item the way a numbered
+ * preset would. The Slides API always numbers lists from 1, so lists
+ * that start elsewhere have their numbers written out instead.
+ *
+ * @param {number} n Number of the item
+ * @param {string} preset Name of a numbered preset in the Slides API
+ * @returns {string} Label, e.g. `4.` or `IV.`
+ */
+export function formatListNumber(n: number, preset: string): string {
+  switch (preset) {
+    case 'NUMBERED_DIGIT_ALPHA_ROMAN_PARENS':
+      return `${n})`;
+    case 'NUMBERED_ZERODIGIT_ALPHA_ROMAN':
+      return `${n < 10 ? '0' : ''}${n}.`;
+    case 'NUMBERED_UPPERALPHA_ALPHA_ROMAN':
+      return `${toLetters(n)}.`;
+    case 'NUMBERED_UPPERROMAN_UPPERALPHA_DIGIT':
+      return `${toRoman(n)}.`;
+    default:
+      return `${n}.`;
+  }
+}
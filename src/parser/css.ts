@@ -18,7 +18,12 @@ import Debug from 'debug';
 import inlineStylesParse from 'inline-styles-parse';
 // @ts-ignore
 import nativeCSS from 'native-css';
-import {Color, StyleDefinition} from '../slides';
+import {
+  BorderStyle,
+  Color,
+  StyleDefinition,
+  TableCellStyle,
+} from '../slides';
 
 // replacement for lodash._camelCase
 import camelCase from 'just-camel-case';
@@ -41,7 +46,7 @@ export interface Stylesheet {
   [key: string]: CssRule;
 }
 
-function parseColorString(hexString: string): Color | undefined {
+export function parseColorString(hexString: string): Color | undefined {
   const c = parseColor(hexString);
   if (!c.rgba) {
     return;
@@ -125,3 +130,103 @@ export function updateStyleDefinition(
   }
   return style;
 }
+
+const TEXT_ALIGNMENTS: {[key: string]: string} = {
+  left: 'START',
+  start: 'START',
+  center: 'CENTER',
+  right: 'END',
+  end: 'END',
+  justify: 'JUSTIFIED',
+};
+
+const DASH_STYLES: {[key: string]: string} = {
+  solid: 'SOLID',
+  dashed: 'DASH',
+  dotted: 'DOT',
+};
+
+// Border widths may be in points or pixels
+function parseBorderWidth(value: string): number | undefined {
+  const match = value.match(/^(\d+(?:\.\d+)?)(pt|px)?$/);
+  if (!match) {
+    return;
+  }
+  const width = Number.parseFloat(match[1]);
+  return match[2] === 'pt' ? width : width * 0.75;
+}
+
+/**
+ * Updates the properties of a table cell from the CSS rules that apply
+ * to the cell rather than its text.
+ *
+ * @param {CssRule} css Rules for the cell
+ * @param {TableCellStyle} style Style to update
+ * @returns {CssRule} Remaining rules, which style the text of the cell
+ */
+export function updateTableCellStyle(
+  css: CssRule,
+  style: TableCellStyle
+): CssRule {
+  const textCss: CssRule = {};
+  for (const [key, value] of Object.entries(normalizeKeys(css))) {
+    switch (key) {
+      case 'textAlign':
+        if (TEXT_ALIGNMENTS[value]) {
+          style.alignment = TEXT_ALIGNMENTS[value];
+        } else {
+          debug('Invalid text-align value: %s', value);
+        }
+        break;
+      case 'backgroundColor':
+        style.backgroundColor = parseColorString(value);
+        break;
+      default:
+        textCss[key] = value;
+    }
+  }
+  return textCss;
+}
+
+/**
+ * Updates a border, of a table or an image, from the `border` properties
+ * of CSS.
+ *
+ * @param {CssRule} css Rules for the table
+ * @param {BorderStyle} style Style to update
+ * @returns {BorderStyle}
+ */
+export function updateBorderStyle(
+  css: CssRule,
+  style: BorderStyle
+): BorderStyle {
+  const normalizedCss = normalizeKeys(css);
+  for (const [key, value] of Object.entries(normalizedCss)) {
+    switch (key) {
+      case 'border':
+        // Shorthand, e.g. `1px solid #ccc`, in any order
+        for (const part of value.split(/\s+/)) {
+          if (DASH_STYLES[part]) {
+            style.dashStyle = DASH_STYLES[part];
+          } else if (parseBorderWidth(part) !== undefined) {
+            style.weight = parseBorderWidth(part);
+          } else {
+            style.color = parseColorString(part) ?? style.color;
+          }
+        }
+        break;
+      case 'borderColor':
+        style.color = parseColorString(value);
+        break;
+      case 'borderWidth':
+        style.weight = parseBorderWidth(value);
+        break;
+      case 'borderStyle':
+        style.dashStyle = DASH_STYLES[value];
+        break;
+      default:
+        debug('Ignoring CSS rule %s: %o', key, value);
+    }
+  }
+  return style;
+}
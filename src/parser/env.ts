@@ -17,15 +17,33 @@ import {
   TextDefinition,
   StyleDefinition,
   TableDefinition,
+  TableCellStyle,
   ListDefinition,
   ImageDefinition,
+  ImageLayoutDefinition,
   VideoDefinition,
+  ShapeDefinition,
+  Color,
 } from '../slides.js';
-import {v1 as uuid} from 'uuid';
 import {isDeepStrictEqual}  from 'util';
 import {Stylesheet} from './css.js';
 import assert from 'assert';
 import {Element} from 'parse5';
+import {ObjectIdSource, randomObjectId} from '../object_ids.js';
+
+export type Severity = 'error' | 'warning';
+
+/**
+ * A problem found in the markdown. Errors stop the slides from being
+ * generated, warnings don't.
+ */
+export interface Diagnostic {
+  // 1-based line in the markdown, if known
+  line?: number;
+  severity: Severity;
+  code: string;
+  message: string;
+}
 
 export class Context {
   public slides: SlideDefinition[] = [];
@@ -36,17 +54,65 @@ export class Context {
   public css?: Stylesheet;
   public markerParagraph = false;
   public row: TextDefinition[] = [];
+  public rowStyles: TableCellStyle[] = [];
+  public cellStyle: TableCellStyle = {};
   public table?: TableDefinition;
+  public tableHeader = true;
+  // Line the table starts on, where problems with it as a whole are reported
+  public tableLine?: number;
+  // Cells are placed around those covered by merged cells. Markdown
+  // tables have extra cells at the end of rows, which are dropped.
+  public coveredCells = new Set<string>();
+  public tableColumns?: number;
+  public cellSpan = {rowSpan: 1, columnSpan: 1};
   public list?: ListDefinition;
   public inlineHtmlContext?: Element;
   public images: ImageDefinition[] = [];
+  public imageLayout?: ImageLayoutDefinition;
   public videos: VideoDefinition[] = [];
+  public shapes: ShapeDefinition[] = [];
+  // Text the open callouts are in, innermost last
+  public callouts: {text?: TextDefinition; fill?: Color}[] = [];
+  // Text being read is a title or subtitle
+  public inHeading = false;
+  // A `::: left` column was given, so the slide has a right one too
+  public pendingRightColumn = false;
 
-  public constructor(css?: Stylesheet) {
+  public newObjectId: ObjectIdSource;
+  // Problems found so far, when they're collected rather than thrown
+  public diagnostics?: Diagnostic[];
+  // Line of the markdown being read, counting from 1
+  public line?: number;
+
+  public constructor(
+    css?: Stylesheet,
+    newObjectId: ObjectIdSource = randomObjectId,
+    diagnostics?: Diagnostic[]
+  ) {
     this.css = css;
+    this.newObjectId = newObjectId;
+    this.diagnostics = diagnostics;
     this.startSlide();
   }
 
+  /**
+   * Reports a problem with the markdown, at the line being read unless
+   * given. Errors are thrown unless problems are being collected, in
+   * which case reading carries on past them.
+   */
+  public report(
+    severity: Severity,
+    code: string,
+    message: string,
+    line = this.line
+  ): void {
+    if (this.diagnostics) {
+      this.diagnostics.push({line, severity, code, message});
+    } else if (severity === 'error') {
+      throw new Error(message);
+    }
+  }
+
   public done(): void {
     this.endSlide();
   }
@@ -65,30 +131,47 @@ export class Context {
     this.text.rawText += content;
   }
 
+  /**
+   * Adds the content read so far to the slide as a body, e.g. a column,
+   * and clears it for the next. Bodies without content are left out,
+   * unless kept to hold a column's place.
+   */
+  public endBody(keepEmpty = false): void {
+    assert(this.currentSlide);
+    if (
+      keepEmpty ||
+      this.images.length ||
+      this.videos.length ||
+      this.shapes.length ||
+      (this.text && this.text.rawText.trim().length)
+    ) {
+      this.currentSlide.bodies.push({
+        text: this.text,
+        images: this.images,
+        ...(this.imageLayout ? {imageLayout: this.imageLayout} : {}),
+        videos: this.videos,
+        ...(this.shapes.length ? {shapes: this.shapes} : {}),
+      });
+    }
+    this.images = [];
+    this.imageLayout = undefined;
+    this.videos = [];
+    this.shapes = [];
+  }
+
   public endSlide(): void {
     if (this.currentSlide) {
-      if (
-        this.images.length ||
-        this.videos.length ||
-        (this.text && this.text.rawText.trim().length)
-      ) {
-        this.currentSlide.bodies.push({
-          text: this.text,
-          images: this.images,
-          videos: this.videos,
-        });
-        this.images = [];
-        this.videos = [];
-      }
+      this.endBody(this.pendingRightColumn);
       this.slides.push(this.currentSlide);
     }
     this.currentSlide = undefined;
     this.text = undefined;
+    this.pendingRightColumn = false;
   }
 
   public startSlide(): void {
     this.currentSlide = {
-      objectId: uuid(),
+      objectId: this.newObjectId(),
       bodies: [],
       tables: [],
     };
@@ -14,13 +14,58 @@
 
 import Debug from 'debug';
 import Token from 'markdown-it/lib/token';
-import parse5, {Element} from 'parse5';
+import parse5, {ChildNode, DocumentFragment, Element, TextNode} from 'parse5';
 import fileUrl from 'file-url';
-import {SlideDefinition, StyleDefinition} from '../slides.js';
+import {
+  BorderStyle,
+  ImageDefinition,
+  ListDefinition,
+  ListMarker,
+  SlideDefinition,
+  StyleDefinition,
+  TableCellStyle,
+  TextDefinition,
+  VideoDefinition,
+} from '../slides.js';
 import parseMarkdown from './parser.js';
-import {Context} from './env.js';
+import {Context, Diagnostic} from './env.js';
+import {ObjectIdSource} from '../object_ids.js';
 import highlightSyntax from './syntax_highlight.js';
-import {parseStyleSheet, parseInlineStyle, updateStyleDefinition} from './css.js';
+import linearMath, {MathRun} from './linear_math.js';
+import {
+  CssRule,
+  parseStyleSheet,
+  parseColorString,
+  parseInlineStyle,
+  updateBorderStyle,
+  updateStyleDefinition,
+  updateTableCellStyle,
+} from './css.js';
+import {
+  DEFAULT_CODE_FONT,
+  SlideMetadata,
+  applyDeckMetadata,
+  parseFrontMatter,
+} from './front_matter.js';
+import {
+  DEFAULT_NUMBERED_PRESET,
+  formatListNumber,
+  isNumberedPreset,
+  resolveBulletPreset,
+} from './bullets.js';
+import {
+  AttributeError,
+  IMAGE_LAYOUTS,
+  attr,
+  parseColumns,
+  parseCrop,
+  parseFontSize,
+  parseImageSize,
+  parseMathColor,
+  parseOpacity,
+  parseRotation,
+  parseVideoTime,
+} from './attributes.js';
 import assert from 'assert';
 
 const debug = Debug('md2gslides');
@@ -40,19 +85,8 @@ const fullTokenRules: MarkdownRules = {};
 
 let ruleSet: MarkdownRules;
 
-function attr(token: Token, name: string): string | undefined {
-  if (!token.attrs) {
-    return undefined;
-  }
-  const attr = token.attrs.find(a => a[0] === name);
-  if (!attr) {
-    return undefined;
-  }
-  return attr[1];
-}
-
 function hasClass(token: Token, cls: string): boolean {
-  return cls === attr(token, 'class');
+  return (attr(token, 'class') ?? '').split(/\s+/).includes(cls);
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -63,15 +97,29 @@ function isVideo(token: any): token is VideoToken {
 function processMarkdownToken(token: Token, context: Context): void {
   debug('Token: %O', token);
   const rule = ruleSet[token.type];
-  if (rule) {
-    rule(token, context);
-  } else {
+  if (!rule) {
     debug('Ignoring token %s', token.type);
+    return;
+  }
+  try {
+    rule(token, context);
+  } catch (err) {
+    if (!context.diagnostics) {
+      throw err;
+    }
+    const code =
+      err instanceof AttributeError ? 'invalid-attribute' : 'invalid-markdown';
+    context.report('error', code, (err as Error).message);
   }
 }
 
-function processTokens(tokens: Token[], context: Context): void {
+// `offset` is the line, counting from 0, that the markdown the tokens
+// were parsed from starts on, e.g. that of a comment holding notes
+function processTokens(tokens: Token[], context: Context, offset = 0): void {
   tokens.forEach((token, index) => {
+    if (token.map) {
+      context.line = offset + token.map[0] + 1;
+    }
     if (token.type === 'hr' && index === 0) {
       return; // Skip leading HR since no previous slide
     }
@@ -79,19 +127,26 @@ function processTokens(tokens: Token[], context: Context): void {
   });
 }
 
+// Cells of aligned table columns can have two style attributes, one
+// from markdown-it and one from markdown-it-attrs
+function tokenCss(token: Token): CssRule | undefined {
+  const declarations = (token.attrs ?? [])
+    .filter(attr => attr[0] === 'style')
+    .map(attr => attr[1]);
+  if (!declarations.length) {
+    return undefined;
+  }
+  return parseInlineStyle(declarations.join(';'));
+}
+
 function applyTokenStyle(
   token: Token,
   style: StyleDefinition
 ): StyleDefinition {
-  if (!token.attrs) {
+  const css = tokenCss(token);
+  if (css === undefined) {
     return style;
   }
-  const styleAttr = token.attrs.find(attr => attr[0] === 'style');
-  if (styleAttr === undefined) {
-    return style;
-  }
-
-  const css = parseInlineStyle(styleAttr[1]);
   updateStyleDefinition(css, style);
   return style;
 }
@@ -113,6 +168,9 @@ inlineTokenRules['inline'] = (token, context) => {
   }
   for (const child of token.children) {
     processMarkdownToken(child, context);
+    if (context.line && /break$/.test(child.type)) {
+      context.line++;
+    }
   }
 };
 
@@ -145,13 +203,22 @@ inlineTokenRules['html_inline'] = (token, context) => {
         break;
       case 'span':
         break;
+      case 'br':
+        context.appendText('\n');
+        return;
       case '#comment':
         // Depending on spacing, comment blocks
         // sometimes appear as inline elements
         fullTokenRules['html_block'](token, context);
         return;
       default:
-        throw new Error('Unsupported inline HTML element: ' + node.nodeName);
+        // Read on as a span, so its closing tag has a style to end
+        context.report(
+          'error',
+          'unsupported-html',
+          'Unsupported inline HTML element: ' + node.nodeName
+        );
+        break;
     }
 
     const styleAttr = node.attrs.find(
@@ -175,19 +242,53 @@ inlineTokenRules['text'] = (token, context) => {
   context.endStyle();
 };
 
+function appendMathText(token: Token, runs: MathRun[], context: Context): void {
+  const style = applyTokenStyle(token, {});
+  const color = attr(token, 'color');
+  if (color) {
+    style.foregroundColor = parseMathColor(color);
+  }
+  const size = attr(token, 'size');
+  if (size) {
+    style.fontSize = {magnitude: parseFontSize(size), unit: 'PT'};
+  }
+  context.startStyle(style);
+  for (const run of runs) {
+    const style: StyleDefinition = {};
+    if (run.italic) {
+      style.italic = true;
+    }
+    if (run.baselineOffset) {
+      style.baselineOffset = run.baselineOffset;
+    }
+    context.startStyle(style);
+    context.appendText(run.text);
+    context.endStyle();
+  }
+  context.endStyle();
+}
+
+// Math that can't be written as text is left as TeX where it can't be
+// drawn as an image, e.g. in speaker notes
+inlineTokenRules['math_inline'] = (token, context) => {
+  const runs = linearMath(token.content);
+  if (!runs) {
+    context.report(
+      'warning',
+      'math-as-tex',
+      `Unable to write $${token.content}$ as text or draw it here, ` +
+        'leaving it as TeX'
+    );
+  }
+  appendMathText(token, runs ?? [{text: token.content}], context);
+};
+
 inlineTokenRules['paragraph_open'] = (token, context) => {
   const style = applyTokenStyle(token, {});
   assert(context.currentSlide);
   if (hasClass(token, 'column')) {
     context.markerParagraph = true;
-    const body = {
-      text: context.text,
-      images: context.images,
-      videos: context.videos,
-    };
-    context.images = [];
-    context.videos = [];
-    context.currentSlide.bodies.push(body);
+    context.endBody(true);
     context.startTextBlock();
   } else if (!context.text) {
     context.startTextBlock();
@@ -195,9 +296,14 @@ inlineTokenRules['paragraph_open'] = (token, context) => {
   context.startStyle(style);
 
   const layout = attr(token, 'layout');
-  // If we have a layout attribute set this on the slide so we can select the
-  // right master template when building the deck
-  if (layout !== undefined && layout !== '') {
+  if (layout && IMAGE_LAYOUTS.includes(layout)) {
+    const columns = parseColumns(token);
+    context.imageLayout = columns
+      ? {algorithm: layout, columns: columns}
+      : {algorithm: layout};
+  } else if (layout !== undefined && layout !== '') {
+    // If we have a layout attribute set this on the slide so we can select the
+    // right master template when building the deck
     context.currentSlide.customLayout = layout;
   }
 };
@@ -216,7 +322,7 @@ inlineTokenRules['paragraph_close'] = (token, context) => {
 };
 
 inlineTokenRules['fence'] = (token, context) => {
-  const style = applyTokenStyle(token, {fontFamily: 'Courier Prime'});
+  const style = applyTokenStyle(token, {fontFamily: DEFAULT_CODE_FONT});
   context.startStyle(style);
   const language = token.info ? token.info.trim() : undefined;
   highlightSyntax(token.content, language, context);
@@ -273,7 +379,7 @@ inlineTokenRules['link_open'] = (token, context) => {
 inlineTokenRules['link_close'] = (token, context) => context.endStyle();
 
 inlineTokenRules['code_inline'] = (token, context) => {
-  const style = applyTokenStyle(token, {fontFamily: 'Courier Prime'});
+  const style = applyTokenStyle(token, {fontFamily: DEFAULT_CODE_FONT});
   context.startStyle(style);
   const language = token.info ? token.info.trim() : undefined;
   highlightSyntax(token.content, language, context);
@@ -292,7 +398,7 @@ inlineTokenRules['code_inline'] = (token, context) => {
 };
 
 inlineTokenRules['code_block'] = (token, context) => {
-  const style = applyTokenStyle(token, {fontFamily: 'Courier Prime'});
+  const style = applyTokenStyle(token, {fontFamily: DEFAULT_CODE_FONT});
   context.startStyle(style);
   context.appendText(token.content);
   context.endStyle();
@@ -321,36 +427,56 @@ inlineTokenRules['bullet_list_open'] = inlineTokenRules['ordered_list_open'] = (
   assert(context.text);
   const style = applyTokenStyle(token, {});
   context.startStyle(style);
-  if (context.list) {
-    if (context.list.tag !== token.tag) {
-      throw new Error('Nested lists must match parent style');
+  const list: ListDefinition = {
+    depth: context.list ? context.list.depth + 1 : 0,
+    tag: token.tag,
+    start: context.text.rawText.length,
+    parent: context.list,
+  };
+
+  const bullets = attr(token, 'bullets');
+  if (bullets) {
+    list.preset = resolveBulletPreset(bullets);
+    if (!list.preset) {
+      context.report(
+        'error',
+        'unknown-bullets',
+        'Unknown bullet preset: ' + bullets
+      );
     }
-    context.list.depth += 1;
-  } else {
-    context.list = {
-      depth: 0,
-      tag: token.tag,
-      start: context.text.rawText.length,
-    };
   }
+
+  // Lists are always numbered from 1 by the API, so write out the
+  // numbers of outermost lists that start elsewhere
+  const start = Number(attr(token, 'start') ?? 1);
+  const preset =
+    list.preset ?? (token.tag === 'ol' ? DEFAULT_NUMBERED_PRESET : undefined);
+  if (!context.list && start !== 1 && preset && isNumberedPreset(preset)) {
+    list.nextNumber = start;
+  }
+  context.list = list;
 };
 
 inlineTokenRules['bullet_list_close'] = inlineTokenRules['ordered_list_close'] =
   (token, context) => {
     assert(context.list);
     assert(context.text);
-    if (context.list.depth === 0) {
-      // TODO - Support nested lists with mixed styles when API supports it.
-      // Currently nested lists must match the parent style.
-      context.text.listMarkers.push({
-        start: context.list.start,
-        end: context.text.rawText.length,
-        type: token.tag === 'ul' ? 'unordered' : 'ordered',
-      });
-      context.list = undefined;
-    } else {
-      context.list.depth -= 1;
+    // Nested lists get their own marker, so they can differ in style from
+    // the list they're in
+    const marker: ListMarker = {
+      start: context.list.start,
+      end: context.text.rawText.length,
+      type: token.tag === 'ul' ? 'unordered' : 'ordered',
+      depth: context.list.depth,
+    };
+    if (context.list.preset) {
+      marker.preset = context.list.preset;
+    }
+    if (context.list.nextNumber !== undefined) {
+      marker.literalNumbers = true;
     }
+    context.text.listMarkers.push(marker);
+    context.list = context.list.parent;
     context.endStyle();
   };
 
@@ -359,6 +485,10 @@ inlineTokenRules['list_item_open'] = (token, context) => {
   const style = applyTokenStyle(token, {});
   context.startStyle(style);
   context.appendText(new Array(context.list.depth + 1).join('\t'));
+  if (context.list.nextNumber !== undefined) {
+    const preset = context.list.preset ?? DEFAULT_NUMBERED_PRESET;
+    context.appendText(formatListNumber(context.list.nextNumber++, preset) + ' ');
+  }
 };
 
 inlineTokenRules['list_item_close'] = (token, context) => context.endStyle();
@@ -371,6 +501,7 @@ Object.assign(fullTokenRules, inlineTokenRules);
 
 fullTokenRules['heading_open'] = (token, context) => {
   const style = applyTokenStyle(token, {});
+  context.inHeading = true;
   context.startTextBlock();
   context.startStyle(style);
   assert(context.text);
@@ -387,56 +518,222 @@ fullTokenRules['heading_close'] = (token, context) => {
     debug('Ignoring header element %s', token.tag);
   }
   context.endStyle();
+  context.inHeading = false;
   context.startTextBlock();
 };
 
 fullTokenRules['html_block'] = (token, context) => {
   assert(context.currentSlide);
-  // NOTE(Emmanuel): not all html blocks are comments,
-  // so we're going to try relaxing this requirement
-
-  const re = /<!--([\s\S]*)-->/m;
-  const matchedComment = re.exec(token.content);
-  // if (match === null) {
-  //   throw new Error('Unsupported HTML block: ' + token.content);
-  // }
-  // Since the notes can contain unparsed markdown, create a new environment
-  // to process it so we don't inadvertently lose state. Just carry
-  // forward the notes from the current slide to append to
-  const subContext = new Context(context.css);
-  ruleSet = inlineTokenRules;
+  const nodes = parse5.parseFragment(token.content, {
+    sourceCodeLocationInfo: true,
+  }).childNodes;
+  const table = nodes.find(node => node.nodeName === 'table');
+  if (table) {
+    processHtmlTable(table as Element, context, token.map?.[0] ?? 0);
+    return;
+  }
+  const iframe = nodes.find(node => node.nodeName === 'iframe');
+  if (iframe) {
+    processHtmlIframe(iframe as Element, context);
+    return;
+  }
+  // Comments hold speaker notes, other HTML blocks are ignored
+  const comments = [...token.content.matchAll(/<!--([\s\S]*?)-->/g)];
+  if (!comments.length) {
+    debug('Ignoring HTML block: %s', token.content);
+    return;
+  }
+  for (const comment of comments) {
+    // Line the comment starts on, counting from 0
+    const before = token.content.slice(0, comment.index);
+    const line = (context.line ?? 1) + before.split('\n').length - 2;
+    appendNotes(parseMarkdown(dedent(comment[1])), context, line);
+  }
+};
+
+fullTokenRules['speaker_notes'] = (token, context) =>
+  appendNotes(token.children ?? [], context);
+
+// Removes the indentation shared by the lines of a comment, so its
+// markdown isn't read as code while nested lists keep their depth
+function dedent(text: string): string {
+  const [first, ...rest] = text
+    .split('\n')
+    .map(line => line.replace(/^[ \t]+/, ws => ws.replace(/\t/g, '    ')));
+  const indents = rest
+    .filter(line => line.trim().length)
+    .map(line => line.length - line.trimStart().length);
+  const indent = indents.length ? Math.min(...indents) : 0;
+  return [first.trimStart(), ...rest.map(line => line.slice(indent))].join(
+    '\n'
+  );
+}
+
+/**
+ * Appends to the speaker notes of the current slide. Notes can be
+ * formatted like body text, though images, videos and tables are left
+ * out. They're processed apart from the slide so its state is kept.
+ */
+function appendNotes(tokens: Token[], context: Context, offset = 0): void {
+  assert(context.currentSlide);
+  const subContext = new Context(
+    context.css,
+    context.newObjectId,
+    context.diagnostics
+  );
   if (context.currentSlide.notes) {
     subContext.text = context.currentSlide.notes;
   } else {
     subContext.startTextBlock();
   }
-
-  // if the content is a comment, we just use the contents of the comment
-  // otherwise we just use it verbatim
-  const htmlContent = (matchedComment? matchedComment[1] : token.content);
-
-  // remove any tab characters, which are not allowed in markdown
-  const tokens = parseMarkdown(htmlContent.replaceAll('\t',''));
-  processTokens(tokens, subContext);
-  if (subContext.text && subContext.text.rawText.trim().length && matchedComment) {
+  const previousRules = ruleSet;
+  ruleSet = inlineTokenRules;
+  try {
+    processTokens(tokens, subContext, offset);
+  } finally {
+    ruleSet = previousRules;
+  }
+  if (subContext.text && subContext.text.rawText.trim().length) {
     context.currentSlide.notes = subContext.text;
   }
-  ruleSet = fullTokenRules;
-};
+}
 
 fullTokenRules['hr'] = (token, context) => {
   context.endSlide();
   context.startSlide();
 };
 
-fullTokenRules['image'] = (token, context) => {
+// Each `::: column` block is a body of its own, like the text either side
+// of a `{.column}` marker. A `::: columns` block around them is optional.
+fullTokenRules['container_columns_open'] =
+  fullTokenRules['container_column_open'] =
+  fullTokenRules['container_left_open'] =
+    (token, context) => {
+      context.endBody();
+      context.startTextBlock();
+    };
+
+fullTokenRules['container_column_close'] = (token, context) => {
+  context.endBody(true);
+  context.startTextBlock();
+};
+
+// `::: left` and `::: right` keep their side when the other is missing
+fullTokenRules['container_left_close'] = (token, context) => {
+  context.endBody(true);
+  context.startTextBlock();
+  context.pendingRightColumn = true;
+};
+
+fullTokenRules['container_right_open'] = (token, context) => {
   assert(context.currentSlide);
-  let url = attr(token, 'src');
+  context.endBody();
+  if (!context.currentSlide.bodies.length) {
+    context.endBody(true);
+  }
+  context.startTextBlock();
+  context.pendingRightColumn = false;
+};
+
+fullTokenRules['container_right_close'] =
+  fullTokenRules['container_column_close'];
+
+// Drops the break after the last paragraph, which would otherwise leave
+// an empty line in the shape
+function trimLastBreak(text: TextDefinition): void {
+  if (!text.rawText.endsWith('\n')) {
+    return;
+  }
+  text.rawText = text.rawText.slice(0, -1);
+  const length = text.rawText.length;
+  for (const range of [...text.textRuns, ...text.listMarkers]) {
+    if (range.end !== undefined && range.end > length) {
+      range.end = length;
+    }
+  }
+  text.textRuns = text.textRuns.filter(run => run.start !== run.end);
+}
+
+// Fill of callouts, unless given one
+const DEFAULT_CALLOUT_FILL = {
+  opaqueColor: {
+    rgbColor: {
+      red: 0.91,
+      green: 0.94,
+      blue: 0.99,
+    },
+  },
+};
+
+// Callouts are shapes with text of their own, e.g. `::: callout {color=red}`
+fullTokenRules['container_callout_open'] = (token, context) => {
+  const color = attr(token, 'color');
+  const fill = color ? parseColorString(color) : undefined;
+  if (color && !fill) {
+    context.report('error', 'invalid-color', `Invalid callout color: ${color}`);
+  }
+  context.callouts.push({text: context.text, fill: fill});
+  context.startTextBlock();
+};
+
+fullTokenRules['container_callout_close'] = (token, context) => {
+  const callout = context.callouts.pop();
+  assert(callout);
+  if (context.text && context.text.rawText.trim().length) {
+    trimLastBreak(context.text);
+    context.shapes.push({
+      text: context.text,
+      fill: callout.fill ?? DEFAULT_CALLOUT_FILL,
+    });
+  }
+  context.text = callout.text;
+};
+
+function resolveUrl(url?: string): string | undefined {
   if (url && !url.match(/(file|https?):/)) {
-    url = fileUrl(url);
+    return fileUrl(url);
   }
-  const image = {
-    url: url,
+  return url;
+}
+
+fullTokenRules['slide_meta'] = (token, context) => {
+  assert(context.currentSlide);
+  const metadata = token.meta as SlideMetadata;
+  if (metadata.layout) {
+    context.currentSlide.customLayout = metadata.layout;
+  }
+  if (metadata.background) {
+    context.currentSlide.backgroundImage = {
+      url: resolveUrl(metadata.background),
+      width: 0,
+      height: 0,
+      padding: 0,
+      offsetX: 0,
+      offsetY: 0,
+    };
+  }
+  if (metadata.notes) {
+    context.currentSlide.notes = {
+      rawText: metadata.notes.trim() + '\n',
+      textRuns: [],
+      listMarkers: [],
+      big: false,
+    };
+  }
+  if (metadata.transition) {
+    // Not available in the Slides API
+    context.report(
+      'warning',
+      'unsupported-transition',
+      'Slide transitions are not supported and will be ignored'
+    );
+  }
+};
+
+fullTokenRules['image'] = (token, context) => {
+  assert(context.currentSlide);
+  const image: ImageDefinition = {
+    url: resolveUrl(attr(token, 'src')),
     width: 0,
     height: 0,
     padding: 0,
@@ -445,15 +742,7 @@ fullTokenRules['image'] = (token, context) => {
     altText: token.content,
   };
 
-  const width = attr(token, 'width');
-  if (width) {
-    image.width = parseInt(width);
-  }
-
-  const height = attr(token, 'height');
-  if (height) {
-    image.height = parseInt(height);
-  }
+  Object.assign(image, parseImageSize(token));
 
   const padding = attr(token, 'pad');
   if (padding) {
@@ -470,6 +759,34 @@ fullTokenRules['image'] = (token, context) => {
     image.offsetY = parseInt(offsetY);
   }
 
+  const crop = attr(token, 'crop');
+  if (crop) {
+    image.crop = parseCrop(crop);
+  }
+
+  const opacity = attr(token, 'opacity');
+  if (opacity) {
+    image.opacity = parseOpacity(opacity);
+  }
+
+  const rotation = attr(token, 'rotate');
+  if (rotation) {
+    image.rotation = parseRotation(rotation);
+  }
+
+  const border = attr(token, 'border');
+  if (border) {
+    image.border = updateBorderStyle({border: border}, {});
+  }
+
+  // Either `{link=...}` or markdown like `[![alt](img)](url)`
+  const link = attr(token, 'link');
+  if (link) {
+    image.link = {url: link};
+  } else if (context.currentStyle().link) {
+    image.link = context.currentStyle().link;
+  }
+
   if (hasClass(token, 'background')) {
     context.currentSlide.backgroundImage = image;
   } else {
@@ -478,64 +795,229 @@ fullTokenRules['image'] = (token, context) => {
   //console.log('parser returned image:', JSON.stringify(image));
 };
 
+// Services of markdown-it-video that the Slides API can embed
+const VIDEO_SOURCES: {[service: string]: string} = {
+  youtube: 'YOUTUBE',
+  drive: 'DRIVE',
+};
+
+// Pages of the other services, shown as a linked thumbnail
+const EMBED_URLS: {[service: string]: (id: string) => string} = {
+  vimeo: id => `https://vimeo.com/${id}`,
+  vine: id => `https://vine.co/v/${id}`,
+  prezi: id => `https://prezi.com/${id}/`,
+  osf: id => `https://osf.io/${id}/`,
+};
+
+/**
+ * Adds a thumbnail of an embed that the Slides API can't show, linking
+ * to the page of the embed. The thumbnail is fetched when generating
+ * images, see embed.ts.
+ */
+function appendEmbed(
+  url: string,
+  context: Context,
+  width = 0,
+  height = 0
+): void {
+  context.images.push({
+    type: 'embed',
+    source: url,
+    width: width,
+    height: height,
+    padding: 0,
+    offsetX: 0,
+    offsetY: 0,
+    link: {url: url},
+  });
+}
+
+// Drive videos can be given by ID or by the URL of the file
+function driveFileId(id: string): string {
+  const match = id.match(/\/d\/([\w-]+)/) ?? id.match(/[?&]id=([\w-]+)/);
+  return match ? match[1] : id;
+}
+
+// `{mute}` turns a setting on, `{mute=false}` turns it off
+function flag(token: Token, name: string): boolean | undefined {
+  const value = attr(token, name);
+  return value === undefined ? undefined : value !== 'false';
+}
+
 fullTokenRules['video'] = (token, context) => {
   if (!isVideo(token)) {
     return;
   }
-  if (token.service !== 'youtube') {
-    throw new Error('Only YouTube videos allowed');
+  const service = token.service.toLowerCase();
+  const source = VIDEO_SOURCES[service];
+  if (!source) {
+    const url = EMBED_URLS[service]?.(token.videoID);
+    if (!url) {
+      context.report(
+        'error',
+        'unsupported-video',
+        'Unsupported video service: ' + token.service
+      );
+      return;
+    }
+    appendEmbed(url, context);
+    return;
   }
   // Assume 16:9 aspect ratio
-  const video = {
+  const video: VideoDefinition = {
     width: 1600,
     height: 900,
-    autoPlay: true,
-    id: token.videoID,
+    autoPlay: flag(token, 'autoplay') ?? true,
+    id: source === 'DRIVE' ? driveFileId(token.videoID) : token.videoID,
+    source: source,
+    start: parseVideoTime(attr(token, 'start')),
+    end: parseVideoTime(attr(token, 'end')),
+    mute: flag(token, 'mute'),
   };
   context.videos.push(video);
 };
 
-fullTokenRules['table_open'] = (token, context) => {
-  const style = applyTokenStyle(token, {});
+// Fill of header cells, unless the stylesheet sets one
+const DEFAULT_HEADER_FILL = {
+  opaqueColor: {
+    rgbColor: {
+      red: 0.75,
+      green: 0.75,
+      blue: 0.75,
+    },
+  },
+};
+
+function emptyCell(): TextDefinition {
+  return {rawText: '', textRuns: [], listMarkers: [], big: false};
+}
+
+function startTable(
+  context: Context,
+  style: StyleDefinition,
+  options: {header: boolean; sideBySide: boolean; markdown: boolean}
+): void {
   context.startStyle(style);
+  const border: BorderStyle = {};
+  updateBorderStyle(context.css?.['table'] ?? {}, border);
   context.table = {
     rows: 0,
     columns: 0,
     cells: [],
+    cellStyles: [],
+    border: Object.keys(border).length ? border : undefined,
+    merges: [],
+    sideBySide: options.sideBySide,
   };
-};
+  context.tableHeader = options.header;
+  context.tableLine = context.line;
+  context.tableColumns = options.markdown ? 0 : undefined;
+  context.coveredCells = new Set();
+}
 
-fullTokenRules['table_close'] = (token, context) => {
+function endTable(context: Context): void {
   assert(context.currentSlide);
   assert(context.table);
-  context.currentSlide.tables.push(context.table);
+  const table = context.table;
+  // Markdown tables always have a header row. Drop it if it's only there
+  // to satisfy the syntax. `DELETE THIS ROW` is the old way of asking.
+  const header = table.cells[0] ?? [];
+  // The header row markdown tables always have doesn't count as content
+  const rows =
+    context.tableColumns === undefined ? table.cells : table.cells.slice(1);
+  if (rows.every(row => row.every(cell => !cell.rawText.trim()))) {
+    context.report(
+      'warning',
+      'empty-table',
+      'Table has no rows with content',
+      context.tableLine
+    );
+  }
+  if (
+    header[0]?.rawText === 'DELETE THIS ROW' ||
+    (!context.tableHeader && header.every(cell => !cell.rawText.trim()))
+  ) {
+    table.cells.shift();
+    table.cellStyles?.shift();
+    table.merges = table.merges
+      ?.filter(merge => merge.row > 0)
+      .map(merge => ({...merge, row: merge.row - 1}));
+  }
+  // Rows of HTML tables can be short
+  table.cells.forEach((row, r) => {
+    while (row.length < table.columns) {
+      row.push(emptyCell());
+      table.cellStyles?.[r].push({});
+    }
+  });
+  table.rows = table.cells.length;
+  // Spans can't reach past the edges of the table
+  table.merges = table.merges
+    ?.map(merge => ({
+      ...merge,
+      rowSpan: Math.min(merge.rowSpan, table.rows - merge.row),
+      columnSpan: Math.min(merge.columnSpan, table.columns - merge.column),
+    }))
+    .filter(merge => merge.rowSpan > 1 || merge.columnSpan > 1);
+  context.currentSlide.tables.push(table);
   context.endStyle();
-};
-
-fullTokenRules['thead_open'] = () => {};
-fullTokenRules['thead_close'] = () => {};
-
-fullTokenRules['tbody_open'] = () => {};
-fullTokenRules['tbody_close'] = () => {};
+}
 
-fullTokenRules['tr_open'] = (token, context) => {
-  const style = applyTokenStyle(token, {});
+function startRow(context: Context, style: StyleDefinition): void {
   context.startStyle(style);
   context.row = [];
-};
+  context.rowStyles = [];
+}
 
-fullTokenRules['tr_close'] = (token, context) => {
+function endRow(context: Context): void {
   assert(context.table);
+  skipCoveredCells(context);
+  if (context.tableColumns && !context.table.cells.length) {
+    context.row.splice(context.tableColumns);
+    context.rowStyles.splice(context.tableColumns);
+  }
   const row = context.row;
   context.table.cells.push(row);
+  context.table.cellStyles?.push(context.rowStyles);
   context.table.columns = Math.max(context.table.columns, row.length);
   context.table.rows = context.table.cells.length;
   context.endStyle();
-};
+}
 
-fullTokenRules['th_open'] = fullTokenRules['td_open'] = (token, context) => {
-  const style = applyTokenStyle(token, {
-    bold: token.type == 'th_open', // headers are always bold
+// Fills the cells that are covered by the merged cells of earlier rows
+// or columns
+function skipCoveredCells(context: Context): void {
+  assert(context.table);
+  const r = context.table.cells.length;
+  while (context.coveredCells.has(`${r},${context.row.length}`)) {
+    context.row.push(emptyCell());
+    context.rowStyles.push({});
+  }
+}
+
+function startCell(
+  context: Context,
+  header: boolean,
+  css: CssRule | undefined,
+  span: {rowSpan: number; columnSpan: number}
+): void {
+  header = header && context.tableHeader;
+  const cellStyle: TableCellStyle = header
+    ? {backgroundColor: DEFAULT_HEADER_FILL}
+    : {};
+  // Stylesheet rules for th/td, then the cell's own style. Fills and
+  // alignment apply to the cell, everything else to its text.
+  const textCss = {
+    ...updateTableCellStyle(
+      context.css?.[header ? 'th' : 'td'] ?? {},
+      cellStyle
+    ),
+    ...updateTableCellStyle(css ?? {}, cellStyle),
+  };
+  const style = updateStyleDefinition(textCss, {
+    // Headers are always bold. Other cells leave it to their content,
+    // since the outer style wins.
+    ...(header ? {bold: true} : {}),
     // Note: Non-placeholder elements aren't aware of the slide theme.
     // Set the foreground color to match the primary text color of the
     // theme.
@@ -545,21 +1027,284 @@ fullTokenRules['th_open'] = fullTokenRules['td_open'] = (token, context) => {
       },
     },
   });
+  context.cellStyle = cellStyle;
+  context.cellSpan = span;
   context.startTextBlock();
   context.startStyle(style);
-};
+}
 
-fullTokenRules['td_close'] = fullTokenRules['th_close'] = (token, context) => {
+function endCell(context: Context): void {
   assert(context.text);
+  assert(context.table);
   context.endStyle();
+  skipCoveredCells(context);
+  const row = context.table.cells.length;
+  const column = context.row.length;
+  // The number of columns is only known after the header row
+  const columns = (row && context.tableColumns) || Infinity;
+  if (column >= columns) {
+    debug('Dropping cell covered by a merged cell: %s', context.text.rawText);
+    context.startTextBlock();
+    return;
+  }
   context.row.push(context.text);
+  context.rowStyles.push(context.cellStyle);
+
+  const rowSpan = context.cellSpan.rowSpan;
+  const columnSpan = Math.min(context.cellSpan.columnSpan, columns - column);
+  if (rowSpan > 1 || columnSpan > 1) {
+    context.table.merges?.push({row, column, rowSpan, columnSpan});
+    for (let r = row; r < row + rowSpan; ++r) {
+      for (let c = column; c < column + columnSpan; ++c) {
+        if (r !== row || c !== column) {
+          context.coveredCells.add(`${r},${c}`);
+        }
+      }
+    }
+  }
   context.startTextBlock();
+}
+
+function parseSpan(value: string | null | undefined): number {
+  const span = parseInt(value ?? '');
+  return span > 1 ? span : 1;
+}
+
+function htmlAttr(node: Element, name: string): string | undefined {
+  return node.attrs.find(attr => attr.name === name)?.value;
+}
+
+function childElements(node: Element, names: string[]): Element[] {
+  return node.childNodes.filter(child =>
+    names.includes(child.nodeName)
+  ) as Element[];
+}
+
+// Other embeds, e.g. a map or a form, are shown as a linked thumbnail
+function processHtmlIframe(iframe: Element, context: Context): void {
+  const src = htmlAttr(iframe, 'src');
+  if (!src || !/^https?:\/\//.test(src)) {
+    context.report('error', 'unsupported-html', 'Unsupported iframe: ' + src);
+    return;
+  }
+  const size = (name: string) => {
+    const value = htmlAttr(iframe, name);
+    return value && /^\d+$/.test(value) ? Number(value) : 0;
+  };
+  appendEmbed(src, context, size('width'), size('height'));
+}
+
+// Elements that put their content on lines of their own in a table cell
+const HTML_CELL_BLOCKS = [
+  'p',
+  'div',
+  'blockquote',
+  'ul',
+  'ol',
+  'li',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+];
+
+// Tokens of a line of a table cell that are read, the rest can't be shown
+const HTML_CELL_TOKENS = [
+  'paragraph_open',
+  'paragraph_close',
+  'heading_open',
+  'heading_close',
+  'inline',
+];
+
+interface HtmlCellLine {
+  nodes: ChildNode[];
+  line: number; // Of the source, counting from 1
+}
+
+// Line of the source a node of a table starts on, skipping the blank
+// lines text starts with. `offset` is the line the table starts on.
+function htmlSourceLine(node: ChildNode, offset: number): number {
+  const line = node.sourceCodeLocation?.startLine ?? 1;
+  const text = node.nodeName === '#text' ? (node as TextNode).value : '';
+  return offset + line + (text.match(/^\s*/)?.[0].split('\n').length ?? 1) - 1;
+}
+
+// Splits the content of a table cell into lines at its block elements,
+// e.g. `<p>`, each of which is read as inline markdown and HTML
+function htmlCellLines(cell: Element, offset: number): HtmlCellLine[] {
+  const lines: HtmlCellLine[] = [];
+  let current: HtmlCellLine | undefined;
+  const visit = (node: ChildNode) => {
+    if (HTML_CELL_BLOCKS.includes(node.nodeName)) {
+      current = undefined;
+      (node as Element).childNodes.forEach(visit);
+      current = undefined;
+      return;
+    }
+    if (!current) {
+      current = {nodes: [], line: htmlSourceLine(node, offset)};
+      lines.push(current);
+    }
+    current.nodes.push(node);
+  };
+  cell.childNodes.forEach(visit);
+  return lines;
+}
+
+function processHtmlCellLine(cellLine: HtmlCellLine, context: Context): void {
+  const fragment = {nodeName: '#document-fragment', childNodes: cellLine.nodes};
+  // Indentation of the HTML would otherwise be read as code
+  const markdown = parse5
+    .serialize(fragment as DocumentFragment)
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .trim();
+  if (!markdown.length) {
+    return;
+  }
+  const tokens = parseMarkdown(markdown);
+  const unsupported = tokens.find(t => !HTML_CELL_TOKENS.includes(t.type));
+  if (unsupported) {
+    context.report(
+      'error',
+      'unsupported-html',
+      `Table cell on line ${cellLine.line}: Unsupported content: ` +
+        (unsupported.content.trim() || unsupported.type),
+      cellLine.line
+    );
+    return;
+  }
+  context.line = cellLine.line;
+  try {
+    tokens
+      .filter(token => token.type === 'inline')
+      .forEach(token => {
+        const text = context.text?.rawText ?? '';
+        if (text.length && !text.endsWith('\n')) {
+          context.appendText('\n');
+        }
+        processMarkdownToken(token, context);
+      });
+  } catch (err) {
+    throw new Error(
+      `Table cell on line ${cellLine.line}: ${(err as Error).message}`
+    );
+  }
+}
+
+// HTML tables are the only way to merge cells without attributes
+function processHtmlTable(
+  table: Element,
+  context: Context,
+  offset: number
+): void {
+  const style = htmlAttr(table, 'style');
+  startTable(
+    context,
+    style ? updateStyleDefinition(parseInlineStyle(style), {}) : {},
+    {header: true, sideBySide: false, markdown: false}
+  );
+  const rows = [
+    ...childElements(table, ['tr']),
+    ...childElements(table, ['thead', 'tbody', 'tfoot']).flatMap(section =>
+      childElements(section, ['tr'])
+    ),
+  ];
+  for (const tr of rows) {
+    startRow(context, {});
+    for (const cell of childElements(tr, ['th', 'td'])) {
+      const style = htmlAttr(cell, 'style');
+      startCell(
+        context,
+        cell.nodeName === 'th',
+        style ? parseInlineStyle(style) : undefined,
+        {
+          rowSpan: parseSpan(htmlAttr(cell, 'rowspan')),
+          columnSpan: parseSpan(htmlAttr(cell, 'colspan')),
+        }
+      );
+      // Cells may contain inline markdown and HTML, one line per paragraph
+      // or block element
+      for (const line of htmlCellLines(cell, offset)) {
+        processHtmlCellLine(line, context);
+      }
+      endCell(context);
+    }
+    endRow(context);
+  }
+  endTable(context);
+}
+
+fullTokenRules['table_open'] = (token, context) => {
+  startTable(context, applyTokenStyle(token, {}), {
+    header: !hasClass(token, 'noheader') && attr(token, 'header') !== 'false',
+    sideBySide: hasClass(token, 'side-by-side'),
+    markdown: true,
+  });
 };
 
-fullTokenRules['math_inline'] =
-fullTokenRules['math_block'] = (token, context) => {
-  assert(context.currentSlide);
-  const image = {
+fullTokenRules['table_close'] = (token, context) => endTable(context);
+
+fullTokenRules['thead_open'] = () => {};
+fullTokenRules['thead_close'] = () => {};
+
+fullTokenRules['tbody_open'] = () => {};
+fullTokenRules['tbody_close'] = () => {};
+
+fullTokenRules['tr_open'] = (token, context) =>
+  startRow(context, applyTokenStyle(token, {}));
+
+fullTokenRules['tr_close'] = (token, context) => endRow(context);
+
+// markdown-it-attrs hides the extra cells of rows with merged cells,
+// except in the header row
+fullTokenRules['th_open'] = fullTokenRules['td_open'] = (token, context) => {
+  assert(context.table);
+  if (token.hidden) {
+    return;
+  }
+  if (context.tableColumns !== undefined && !context.table.cells.length) {
+    context.tableColumns++;
+  }
+  startCell(context, token.type === 'th_open', tokenCss(token), {
+    rowSpan: parseSpan(attr(token, 'rowspan')),
+    columnSpan: parseSpan(attr(token, 'colspan')),
+  });
+};
+
+fullTokenRules['td_close'] = fullTokenRules['th_close'] = (token, context) => {
+  if (!token.hidden) {
+    endCell(context);
+  }
+};
+
+// Math is drawn in the color and at the size of the text around it,
+// unless set with `{color=... size=...}`
+function applyMathStyle(
+  token: Token,
+  image: ImageDefinition,
+  context: Context
+): void {
+  const style = context.currentStyle() ?? {};
+  const colorAttr = attr(token, 'color');
+  const color = colorAttr ? parseMathColor(colorAttr) : style.foregroundColor;
+  if (color) {
+    image.color = color;
+  }
+  const size = attr(token, 'size');
+  if (size) {
+    image.fontSize = parseFontSize(size);
+  } else if (style.fontSize?.unit === 'PT') {
+    image.fontSize = style.fontSize.magnitude;
+  }
+}
+
+function mathImage(token: Token, context: Context): ImageDefinition {
+  const image: ImageDefinition = {
     source: token.content,
     type: "math",
     width: 0,
@@ -569,6 +1314,31 @@ fullTokenRules['math_block'] = (token, context) => {
     offsetX: 0,
     offsetY: 0,
   };
+  applyMathStyle(token, image, context);
+  return image;
+}
+
+fullTokenRules['math_block'] = (token, context) => {
+  assert(context.currentSlide);
+  context.images.push(mathImage(token, context));
+};
+
+// Inline math that can't be written as text is drawn as an image over the
+// sentence, in space kept for it in the text. Titles, tables and callouts
+// are laid out apart from the body, so there it's left as TeX.
+fullTokenRules['math_inline'] = (token, context) => {
+  if (
+    linearMath(token.content) ||
+    !context.text ||
+    context.inHeading ||
+    context.table ||
+    context.callouts.length
+  ) {
+    inlineTokenRules['math_inline'](token, context);
+    return;
+  }
+  const image = mathImage(token, context);
+  image.textIndex = context.text.rawText.length;
   context.images.push(image);
 };
 
@@ -588,6 +1358,9 @@ fullTokenRules['generated_image'] = (token, context) => {
   if (padding) {
     image.padding = parseInt(padding);
   }
+  if (image.type === 'math') {
+    applyMathStyle(token, image, context);
+  }
   if (hasClass(token, 'background')) {
     context.currentSlide.backgroundImage = image;
   } else {
@@ -604,18 +1377,25 @@ fullTokenRules['generated_image'] = (token, context) => {
  *
  * @param {string} markdown
  * @param {string} stylesheet
+ * @param {ObjectIdSource} newObjectId IDs of the slides, random by default
+ * @param {Diagnostic[]} diagnostics Collects the problems found, with their
+ *   lines, rather than stopping at the first
  * @returns {Promise.<Array>}
  */
 export default function extractSlides(
   markdown: string,
-  stylesheet?: string
+  stylesheet?: string,
+  newObjectId?: ObjectIdSource,
+  diagnostics?: Diagnostic[]
 ): SlideDefinition[] {
-  const tokens = parseMarkdown(markdown);
+  const {metadata, content} = parseFrontMatter(markdown);
+  const tokens = parseMarkdown(content);
   const css = parseStyleSheet(stylesheet);
-  const context = new Context(css);
+  const context = new Context(css, newObjectId, diagnostics);
   ruleSet = fullTokenRules; // TODO - Make not global
   processTokens(tokens, context);
   context.done();
+  applyDeckMetadata(context.slides, metadata);
   debug('Slides %O', context.slides);
   return context.slides;
 }
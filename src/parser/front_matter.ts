@@ -0,0 +1,183 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+// @ts-ignore
+import yaml from 'js-yaml';
+import {SlideDefinition} from '../slides.js';
+
+const debug = Debug('md2gslides');
+
+/**
+ * Settings for the whole deck, from the front matter at the top of the
+ * markdown file.
+ */
+export interface DeckMetadata {
+  title?: string;
+  parent?: string;
+  copy?: string;
+  theme?: string;
+  layout?: string;
+  font?: string;
+  codeFont?: string;
+}
+
+/**
+ * Settings for a single slide, from a block right after its separator.
+ */
+export interface SlideMetadata {
+  layout?: string;
+  background?: string;
+  notes?: string;
+  transition?: string;
+}
+
+export interface FrontMatter {
+  metadata: DeckMetadata;
+  // Markdown with the front matter blanked out, so line numbers still match
+  content: string;
+}
+
+const DECK_KEYS: {[key: string]: keyof DeckMetadata} = {
+  title: 'title',
+  parent: 'parent',
+  copy: 'copy',
+  theme: 'theme',
+  layout: 'layout',
+  font: 'font',
+  'code-font': 'codeFont',
+};
+
+const SLIDE_KEYS: (keyof SlideMetadata)[] = [
+  'layout',
+  'background',
+  'notes',
+  'transition',
+];
+
+// Font used for code unless the front matter says otherwise
+export const DEFAULT_CODE_FONT = 'Courier Prime';
+
+function parseMapping(source: string): {[key: string]: unknown} | undefined {
+  let value: unknown;
+  try {
+    value = yaml.load(source);
+  } catch (err) {
+    debug('Not YAML: %O', err);
+    return undefined;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  return value as {[key: string]: unknown};
+}
+
+/**
+ * Reads the YAML front matter, delimited by `---` lines, at the very top
+ * of the markdown. Unknown keys are ignored.
+ *
+ * @param {string} markdown Markdown to read
+ * @returns {FrontMatter} Settings and the remaining markdown
+ */
+export function parseFrontMatter(markdown: string): FrontMatter {
+  const match = markdown.match(
+    /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(\r?\n|$)/
+  );
+  const mapping = match ? parseMapping(match[1]) : undefined;
+  if (!match || !mapping) {
+    return {metadata: {}, content: markdown};
+  }
+
+  const metadata: DeckMetadata = {};
+  for (const [key, value] of Object.entries(mapping)) {
+    const name = DECK_KEYS[key];
+    if (!name) {
+      debug('Ignoring front matter key %s', key);
+      continue;
+    }
+    if (value !== null && value !== undefined) {
+      metadata[name] = String(value);
+    }
+  }
+  const blank = match[0].replace(/[^\r\n]/g, '');
+  return {metadata, content: blank + markdown.slice(match[0].length)};
+}
+
+/**
+ * Reads the settings block of a slide. Only blocks made up entirely of
+ * known keys count, anything else is left to be parsed as markdown.
+ *
+ * @param {string} source YAML between the `---` lines
+ * @returns {SlideMetadata} Settings, or undefined if not a settings block
+ */
+export function parseSlideMetadata(source: string): SlideMetadata | undefined {
+  const mapping = parseMapping(source);
+  if (!mapping) {
+    return undefined;
+  }
+  const keys = Object.keys(mapping);
+  if (!keys.every(key => (SLIDE_KEYS as string[]).includes(key))) {
+    return undefined;
+  }
+  const metadata: SlideMetadata = {};
+  for (const key of keys as (keyof SlideMetadata)[]) {
+    if (mapping[key] !== null && mapping[key] !== undefined) {
+      metadata[key] = String(mapping[key]);
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Applies the deck wide defaults to the extracted slides. Slides that
+ * choose their own layout keep it, and the default font is applied
+ * before the other runs so any font set in the text wins over it.
+ *
+ * @param {SlideDefinition[]} slides Slides to update
+ * @param {DeckMetadata} metadata Settings from the front matter
+ */
+export function applyDeckMetadata(
+  slides: SlideDefinition[],
+  metadata: DeckMetadata
+): void {
+  for (const slide of slides) {
+    if (metadata.layout && !slide.customLayout) {
+      slide.customLayout = metadata.layout;
+    }
+    const texts = [
+      slide.title,
+      slide.subtitle,
+      ...slide.bodies.map(body => body.text),
+      ...slide.tables.flatMap(table => table.cells.flat()),
+    ];
+    for (const text of texts) {
+      if (!text || !text.rawText.length) {
+        continue;
+      }
+      if (metadata.codeFont) {
+        text.textRuns
+          .filter(run => run.fontFamily === DEFAULT_CODE_FONT)
+          .forEach(run => (run.fontFamily = metadata.codeFont));
+      }
+      if (metadata.font) {
+        // Runs are applied last to first, so this one goes first
+        text.textRuns.push({
+          fontFamily: metadata.font,
+          start: 0,
+          end: text.rawText.length,
+        });
+      }
+    }
+  }
+}
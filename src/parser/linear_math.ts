@@ -0,0 +1,425 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Writes simple TeX as text, so inline math flows with the rest of the
+// sentence, e.g. `x^2 \leq \frac{a}{b}` becomes x² ≤ a/b with the 2 as a
+// superscript. Anything else is rendered as an image, see mathjax.ts.
+
+export interface MathRun {
+  text: string;
+  italic?: boolean;
+  baselineOffset?: string; // SUPERSCRIPT or SUBSCRIPT
+}
+
+// Lowercase letters are variables, and written in italics
+const GREEK: {[command: string]: string} = {
+  alpha: 'α',
+  beta: 'β',
+  gamma: 'γ',
+  delta: 'δ',
+  epsilon: 'ϵ',
+  varepsilon: 'ε',
+  zeta: 'ζ',
+  eta: 'η',
+  theta: 'θ',
+  vartheta: 'ϑ',
+  iota: 'ι',
+  kappa: 'κ',
+  lambda: 'λ',
+  mu: 'μ',
+  nu: 'ν',
+  xi: 'ξ',
+  pi: 'π',
+  rho: 'ρ',
+  sigma: 'σ',
+  tau: 'τ',
+  upsilon: 'υ',
+  phi: 'ϕ',
+  varphi: 'φ',
+  chi: 'χ',
+  psi: 'ψ',
+  omega: 'ω',
+  Gamma: 'Γ',
+  Delta: 'Δ',
+  Theta: 'Θ',
+  Lambda: 'Λ',
+  Xi: 'Ξ',
+  Pi: 'Π',
+  Sigma: 'Σ',
+  Upsilon: 'Υ',
+  Phi: 'Φ',
+  Psi: 'Ψ',
+  Omega: 'Ω',
+};
+
+const SYMBOLS: {[command: string]: string} = {
+  infty: '∞',
+  partial: '∂',
+  nabla: '∇',
+  forall: '∀',
+  exists: '∃',
+  emptyset: '∅',
+  ldots: '…',
+  dots: '…',
+  cdots: '⋯',
+  prime: '′',
+  degree: '°',
+  sum: '∑',
+  prod: '∏',
+  int: '∫',
+  neg: '¬',
+  '{': '{',
+  '}': '}',
+  '%': '%',
+  $: '$',
+  '&': '&',
+  '#': '#',
+  _: '_',
+  ',': ' ',
+  ';': ' ',
+  ':': ' ',
+  ' ': ' ',
+  quad: ' ',
+  qquad: '  ',
+  '!': '',
+};
+
+// Binary operators and relations, spaced out unless used as signs
+const OPERATORS: {[command: string]: string} = {
+  '+': '+',
+  '-': '−',
+  '=': '=',
+  '<': '<',
+  '>': '>',
+  pm: '±',
+  mp: '∓',
+  times: '×',
+  cdot: '·',
+  div: '÷',
+  ast: '∗',
+  circ: '∘',
+  leq: '≤',
+  le: '≤',
+  geq: '≥',
+  ge: '≥',
+  neq: '≠',
+  ne: '≠',
+  approx: '≈',
+  equiv: '≡',
+  sim: '∼',
+  propto: '∝',
+  to: '→',
+  rightarrow: '→',
+  leftarrow: '←',
+  Rightarrow: '⇒',
+  Leftarrow: '⇐',
+  iff: '⇔',
+  implies: '⇒',
+  in: '∈',
+  notin: '∉',
+  subset: '⊂',
+  subseteq: '⊆',
+  cup: '∪',
+  cap: '∩',
+  land: '∧',
+  lor: '∨',
+};
+
+// Written upright, followed by a space
+const FUNCTIONS = [
+  'sin',
+  'cos',
+  'tan',
+  'cot',
+  'sec',
+  'csc',
+  'arcsin',
+  'arccos',
+  'arctan',
+  'sinh',
+  'cosh',
+  'tanh',
+  'log',
+  'ln',
+  'exp',
+  'lim',
+  'max',
+  'min',
+  'sup',
+  'inf',
+  'det',
+  'gcd',
+  'mod',
+];
+
+// Only commands in the table, not properties of every object such as
+// `constructor`
+function has(table: {[command: string]: string}, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(table, name);
+}
+
+// Thrown for TeX that can't be written as text
+class NotLinear extends Error {}
+
+/**
+ * Converts TeX to text runs, one per change of style.
+ */
+class LinearMath {
+  private tex: string;
+  private pos = 0;
+  private runs: MathRun[] = [];
+  private offset?: string;
+  // Whether the last atom was an operator or opening bracket, so the
+  // next operator is a sign
+  private afterOperator = true;
+  // Whether the last atom was a function name, which is spaced from
+  // what follows
+  private afterFunction = false;
+
+  public constructor(tex: string) {
+    this.tex = tex;
+  }
+
+  public convert(): MathRun[] {
+    this.sequence(false);
+    const runs = this.runs
+      .map(run => ({...run, text: run.text.replace(/ +/g, ' ')}))
+      .filter(run => run.text.length);
+    if (runs.length) {
+      runs[0].text = runs[0].text.trimStart();
+      const last = runs[runs.length - 1];
+      last.text = last.text.trimEnd();
+    }
+    return runs.filter(run => run.text.length);
+  }
+
+  private sequence(inGroup: boolean): void {
+    while (this.pos < this.tex.length) {
+      const c = this.tex[this.pos];
+      if (c === '}') {
+        if (!inGroup) {
+          throw new NotLinear();
+        }
+        this.pos++;
+        return;
+      }
+      this.atom();
+    }
+    if (inGroup) {
+      throw new NotLinear();
+    }
+  }
+
+  private atom(): void {
+    const c = this.tex[this.pos++];
+    if (/\s/.test(c)) {
+      return;
+    }
+    if (c === '{') {
+      this.sequence(true);
+    } else if (c === '^' || c === '_') {
+      this.script(c === '^' ? 'SUPERSCRIPT' : 'SUBSCRIPT');
+    } else if (c === '\\') {
+      this.command(this.commandName());
+    } else if (c === "'") {
+      this.append('′');
+    } else if (has(OPERATORS, c)) {
+      this.operator(OPERATORS[c]);
+    } else if (/[A-Za-z]/.test(c)) {
+      this.append(c, true);
+    } else if (/[0-9.,;:!?|/()[\]]/.test(c)) {
+      this.append(c);
+      this.afterOperator = /[([,;:]/.test(c);
+    } else {
+      throw new NotLinear();
+    }
+  }
+
+  private commandName(): string {
+    const match = /^([A-Za-z]+|.)/.exec(this.tex.slice(this.pos));
+    if (!match) {
+      throw new NotLinear();
+    }
+    this.pos += match[1].length;
+    return match[1];
+  }
+
+  private command(name: string): void {
+    if (has(GREEK, name)) {
+      this.append(GREEK[name], /^[a-z]/.test(name));
+    } else if (has(SYMBOLS, name)) {
+      this.append(SYMBOLS[name]);
+    } else if (has(OPERATORS, name)) {
+      this.operator(OPERATORS[name]);
+    } else if (FUNCTIONS.includes(name)) {
+      this.append(name);
+      this.afterFunction = true;
+    } else if (name === 'left' || name === 'right') {
+      // The delimiter that follows is written as is, unless it's none
+      this.skipSpaces();
+      if (this.tex[this.pos] === '.') {
+        this.pos++;
+      }
+    } else if (['text', 'mathrm', 'textrm', 'operatorname'].includes(name)) {
+      this.append(this.argument(), false);
+    } else if (name === 'frac') {
+      const numerator = this.capture(() => this.group());
+      const denominator = this.capture(() => this.group());
+      this.appendOperand(numerator);
+      this.append('/');
+      this.appendOperand(denominator);
+    } else if (name === 'sqrt') {
+      if (this.tex[this.pos] === '[') {
+        throw new NotLinear();
+      }
+      const radicand = this.capture(() => this.group());
+      this.append('√');
+      this.appendOperand(radicand);
+    } else {
+      throw new NotLinear();
+    }
+  }
+
+  private operator(symbol: string): void {
+    // Superscripts and subscripts are too small to space out
+    const spaced = !this.afterOperator && !this.offset;
+    this.append(spaced ? ` ${symbol} ` : symbol);
+    this.afterOperator = true;
+  }
+
+  private script(offset: string): void {
+    if (this.offset) {
+      // Text can only be raised or lowered once
+      throw new NotLinear();
+    }
+    this.offset = offset;
+    this.group();
+    this.offset = undefined;
+    this.afterOperator = false;
+  }
+
+  // Single character or braced group
+  private group(): void {
+    this.skipSpaces();
+    const c = this.tex[this.pos];
+    if (c === undefined || c === '}') {
+      throw new NotLinear();
+    }
+    if (c === '{') {
+      this.pos++;
+      this.sequence(true);
+    } else {
+      this.atom();
+    }
+  }
+
+  // Braced text, as is
+  private argument(): string {
+    this.skipSpaces();
+    const match = /^\{([^{}\\]*)\}/.exec(this.tex.slice(this.pos));
+    if (!match) {
+      throw new NotLinear();
+    }
+    this.pos += match[0].length;
+    return match[1];
+  }
+
+  // Converts part of the expression on its own
+  private capture(fn: () => void): MathRun[] {
+    const runs = this.runs;
+    this.runs = [];
+    this.afterOperator = true;
+    try {
+      fn();
+      return this.runs;
+    } finally {
+      this.runs = runs;
+    }
+  }
+
+  // Argument of \frac or \sqrt, in brackets unless it's a single number
+  // or variable
+  private appendOperand(runs: MathRun[]): void {
+    const text = runs
+      .map(run => run.text)
+      .join('')
+      .trim();
+    if (!text) {
+      throw new NotLinear();
+    }
+    const brackets = !/^([\p{L}\p{N}]+|\d*\.\d+)$/u.test(text);
+    if (brackets) {
+      this.append('(');
+    }
+    runs.forEach(run => this.appendRun(run));
+    if (brackets) {
+      this.append(')');
+    }
+  }
+
+  private skipSpaces(): void {
+    while (/\s/.test(this.tex[this.pos] ?? '')) {
+      this.pos++;
+    }
+  }
+
+  private append(text: string, italic = false): void {
+    if (!this.offset && this.afterFunction) {
+      // Space between a function and its argument, e.g. sin x
+      this.afterFunction = false;
+      if (!/^[\s(]/.test(text)) {
+        this.appendRun({text: ' '});
+      }
+    }
+    this.afterOperator = false;
+    this.appendRun({
+      text: text,
+      ...(italic ? {italic: true} : {}),
+      ...(this.offset ? {baselineOffset: this.offset} : {}),
+    });
+  }
+
+  private appendRun(run: MathRun): void {
+    const last = this.runs[this.runs.length - 1];
+    if (
+      last &&
+      last.italic === run.italic &&
+      last.baselineOffset === run.baselineOffset
+    ) {
+      last.text += run.text;
+      return;
+    }
+    this.runs.push({...run});
+  }
+}
+
+/**
+ * Writes a TeX expression as text, if it's simple enough: letters,
+ * numbers, common symbols and operators, single superscripts and
+ * subscripts, fractions and square roots.
+ *
+ * @param {string} tex Expression to convert
+ * @returns {MathRun[]} Text runs to append, or undefined if the
+ *   expression has to be rendered as an image
+ */
+export default function linearMath(tex: string): MathRun[] | undefined {
+  try {
+    return new LinearMath(tex).convert();
+  } catch (err) {
+    if (err instanceof NotLinear) {
+      return undefined;
+    }
+    throw err;
+  }
+}
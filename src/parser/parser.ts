@@ -14,6 +14,8 @@
 
 import markdownIt from 'markdown-it';
 import Token from 'markdown-it/lib/token';
+import StateBlock from 'markdown-it/lib/rules_block/state_block';
+import StateCore from 'markdown-it/lib/rules_core/state_core';
 // @ts-ignore
 import attrs from 'markdown-it-attrs';
 // @ts-ignore
@@ -28,6 +30,9 @@ import video from 'markdown-it-video';
 import customFence from 'markdown-it-fence';
 // @ts-ignore
 import mathjax3 from 'markdown-it-mathjax3';
+// @ts-ignore
+import container from 'markdown-it-container';
+import {parseSlideMetadata} from './front_matter.js';
 
 function generatedImage(md: unknown): void {
   return customFence(md, 'generated_image', {
@@ -36,6 +41,201 @@ function generatedImage(md: unknown): void {
   });
 }
 
+function isSeparator(state: StateBlock, line: number): boolean {
+  const start = state.bMarks[line] + state.tShift[line];
+  return (
+    state.sCount[line] - state.blkIndent < 4 &&
+    /^---[ \t]*$/.test(state.src.slice(start, state.eMarks[line]))
+  );
+}
+
+// A `---` separator followed by `key: value` lines and another `---`
+// holds the settings of the next slide. Emits the separator as usual
+// followed by a slide_meta token.
+function slideMeta(md: markdownIt): void {
+  md.block.ruler.before(
+    'hr',
+    'slide_meta',
+    (state: StateBlock, startLine: number, endLine: number, silent: boolean) => {
+      if (!isSeparator(state, startLine)) {
+        return false;
+      }
+      let closeLine = startLine + 1;
+      while (closeLine < endLine && !isSeparator(state, closeLine)) {
+        if (state.isEmpty(closeLine)) {
+          return false;
+        }
+        closeLine++;
+      }
+      if (closeLine >= endLine || closeLine === startLine + 1) {
+        return false;
+      }
+      const source = state.getLines(startLine + 1, closeLine, 0, false);
+      const metadata = parseSlideMetadata(source);
+      if (!metadata) {
+        return false;
+      }
+      if (silent) {
+        return true;
+      }
+      const hr = state.push('hr', 'hr', 0);
+      hr.map = [startLine, startLine + 1];
+      hr.markup = '---';
+      const token = state.push('slide_meta', '', 0);
+      token.map = [startLine, closeLine + 1];
+      token.content = source;
+      token.meta = metadata;
+      state.line = closeLine + 1;
+      return true;
+    }
+  );
+}
+
+// An HTML table is one block up to its closing tag, rather than up to the
+// first blank line as for other HTML, so that its rows can be spaced out
+function htmlTable(md: markdownIt): void {
+  md.block.ruler.before(
+    'html_block',
+    'html_table',
+    (state: StateBlock, startLine: number, endLine: number, silent: boolean) => {
+      const line = (n: number) =>
+        state.src.slice(state.bMarks[n] + state.tShift[n], state.eMarks[n]);
+      if (
+        state.sCount[startLine] - state.blkIndent >= 4 ||
+        !/^<table(\s|>|$)/i.test(line(startLine))
+      ) {
+        return false;
+      }
+      let closeLine = startLine;
+      while (closeLine < endLine && !/<\/table>/i.test(line(closeLine))) {
+        closeLine++;
+      }
+      if (closeLine >= endLine) {
+        return false;
+      }
+      if (silent) {
+        return true;
+      }
+      const token = state.push('html_block', '', 0);
+      token.map = [startLine, closeLine + 1];
+      token.content = state.getLines(
+        startLine,
+        closeLine + 1,
+        state.blkIndent,
+        true
+      );
+      state.line = closeLine + 1;
+      return true;
+    },
+    {alt: ['paragraph', 'reference', 'blockquote']}
+  );
+}
+
+// Attributes of a paragraph holding videos, as in
+// `@[youtube](id) {start=10 end=20}`, apply to the videos
+function applyVideoAttributes(state: StateCore): void {
+  state.tokens.forEach((token, index) => {
+    const inline = state.tokens[index + 1];
+    if (token.type !== 'paragraph_open' || !token.attrs || !inline?.children) {
+      return;
+    }
+    for (const child of inline.children) {
+      if (child.type === 'video') {
+        child.attrs = [...(child.attrs ?? []), ...token.attrs];
+      }
+    }
+  });
+}
+
+function videoAttributes(md: markdownIt): void {
+  md.core.ruler.after(
+    'curly_attributes',
+    'video_attributes',
+    applyVideoAttributes
+  );
+}
+
+// Attributes that style math, see applyMathAttributes
+const MATH_ATTRIBUTES = ['color', 'size', 'style'];
+
+// Attributes of a paragraph holding inline math, as in `$x^2$ {color=red}`,
+// apply to the math. So do those on a line of their own right after a
+// block of math, which would otherwise be an empty paragraph.
+function applyMathAttributes(state: StateCore): void {
+  const tokens = state.tokens;
+  for (let index = tokens.length - 1; index >= 0; --index) {
+    const token = tokens[index];
+    const next = tokens[index + 1];
+    const inline = tokens[index + 2];
+    if (
+      token.type === 'math_block' &&
+      next?.type === 'paragraph_open' &&
+      next.attrs &&
+      inline?.type === 'inline' &&
+      (inline.children ?? []).every(c => c.type === 'text' && !c.content)
+    ) {
+      token.attrs = [...(token.attrs ?? []), ...next.attrs];
+      tokens.splice(index + 1, 3);
+    } else if (token.type === 'paragraph_open' && token.attrs) {
+      const attrs = token.attrs.filter(a => MATH_ATTRIBUTES.includes(a[0]));
+      for (const child of tokens[index + 1]?.children ?? []) {
+        if (child.type === 'math_inline') {
+          child.attrs = [...(child.attrs ?? []), ...attrs];
+        }
+      }
+    }
+  }
+}
+
+function mathAttributes(md: markdownIt): void {
+  md.core.ruler.after(
+    'curly_attributes',
+    'math_attributes',
+    applyMathAttributes
+  );
+}
+
+// A `::: notes` block holds speaker notes rather than body text. Its
+// tokens become the children of a single speaker_notes token, so they
+// can be told apart from the rest of the slide.
+function applySpeakerNotes(state: StateCore): void {
+  const tokens = state.tokens;
+  for (let index = 0; index < tokens.length; ++index) {
+    const open = tokens[index];
+    if (open.type !== 'container_notes_open') {
+      continue;
+    }
+    let close = index + 1;
+    while (
+      close < tokens.length &&
+      (tokens[close].type !== 'container_notes_close' ||
+        tokens[close].level !== open.level)
+    ) {
+      close++;
+    }
+    const notes = new state.Token('speaker_notes', '', 0);
+    notes.map = open.map;
+    notes.level = open.level;
+    notes.block = true;
+    notes.children = tokens.slice(index + 1, close);
+    tokens.splice(index, close - index + 1, notes);
+  }
+}
+
+function speakerNotes(md: markdownIt): void {
+  md.use(container, 'notes');
+  md.core.ruler.push('speaker_notes', applySpeakerNotes);
+}
+
+// `::: name` blocks that divide the body of a slide, see extract_slides.ts
+const BODY_CONTAINERS = ['columns', 'column', 'left', 'right', 'callout'];
+
+function bodyContainers(md: markdownIt): void {
+  for (const name of BODY_CONTAINERS) {
+    md.use(container, name);
+  }
+}
+
 const mdOptions = {
   html: true,
   langPrefix: 'highlight ',
@@ -50,7 +250,13 @@ const parser = markdownIt(mdOptions)
   .use(expandTabs, {tabWidth: 4})
   .use(mathjax3)
   .use(generatedImage)
-  .use(video, {youtube: {width: 640, height: 390}});
+  .use(slideMeta)
+  .use(htmlTable)
+  .use(video, {youtube: {width: 640, height: 390}, drive: {}})
+  .use(videoAttributes)
+  .use(mathAttributes)
+  .use(speakerNotes)
+  .use(bodyContainers);
 
 function parseMarkdown(markdown: string): Token[] {
   const parseTree = parser.parse(markdown, {});
@@ -0,0 +1,773 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import {slides_v1 as SlidesV1} from 'googleapis';
+import {
+  BodyDefinition,
+  ImageDefinition,
+  ListMarker,
+  SlideDefinition,
+  StyleDefinition,
+  TableCellStyle,
+  TableDefinition,
+  TextDefinition,
+} from './slides.js';
+import matchLayout from './layout/match_layout.js';
+import {
+  findLayoutIdByName,
+  calculateFontSize,
+  calculateTableLayout,
+  findMerge,
+  findTextColor,
+  isCoveredCell,
+  measureTextPosition,
+} from './layout/presentation_helpers.js';
+import {
+  BoundingBox,
+  calculateBoundingBox,
+  pageBoundingBox,
+  placeImage,
+  placeImages,
+  placeInlineImage,
+  placeShapes,
+  placeTables,
+  placeTextAndImages,
+  placeVideos,
+  reserveInlineSpace,
+  scaleElementHeight,
+} from './layout/geometry.js';
+import maybeGenerateImage from './images/generate.js';
+import maybeAdjustImage from './images/adjust.js';
+import probeImage from './images/probe.js';
+import ImageCache from './images/cache.js';
+import BrowserPool from './images/browser.js';
+import {isNumberedPreset} from './parser/bullets.js';
+
+const debug = Debug('md2gslides');
+
+// Width of a rendered slide, in CSS pixels
+const SLIDE_WIDTH_PX = 960;
+
+const EMU_PER_PT = 12700;
+
+// Font sizes used when the layout doesn't say, in points
+const DEFAULT_FONT_SIZE = 18;
+
+// CSS text-align values for paragraph alignments
+const TEXT_ALIGNMENTS: {[key: string]: string} = {
+  START: 'left',
+  CENTER: 'center',
+  END: 'right',
+  JUSTIFIED: 'justify',
+};
+
+// CSS border styles for dash styles
+const BORDER_STYLES: {[key: string]: string} = {
+  SOLID: 'solid',
+  DASH: 'dashed',
+  DOT: 'dotted',
+};
+
+// Glyphs for BULLET_DISC_CIRCLE_SQUARE, by nesting level
+const BULLET_GLYPHS = ['●', '○', '■'];
+
+const STYLESHEET = `
+body { background: #e8eaed; font-family: Arial, sans-serif; margin: 0; padding: 24px; }
+.slide { position: relative; overflow: hidden; background: #fff no-repeat;
+  background-size: 100% 100%; margin: 0 auto 8px; box-shadow: 0 1px 3px rgba(0,0,0,.3); }
+.slide > * { position: absolute; box-sizing: border-box; margin: 0; }
+.placeholder { overflow: hidden; padding: 0.1in; }
+.placeholder p { margin: 0 0 0.3em; }
+.bullet { display: inline-block; width: 1.5em; }
+table { border-collapse: collapse; table-layout: fixed; }
+td { border: 1px solid #9e9e9e; padding: 0.3em; vertical-align: top; }
+.video { background: #000 center / cover no-repeat; }
+.callout { border-radius: 0.1in; padding: 0.1in; display: flex; flex-direction: column; justify-content: center; }
+.callout p { margin: 0 0 0.3em; }
+.notes { width: ${SLIDE_WIDTH_PX}px; margin: 0 auto 32px; color: #5f6368; white-space: pre-wrap; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toCssColor(color?: SlidesV1.Schema$OptionalColor): string | undefined {
+  const rgb = color?.opaqueColor?.rgbColor;
+  if (!rgb) {
+    // Theme colors aren't resolved, fall back to the inherited color
+    return undefined;
+  }
+  const channels = [rgb.red, rgb.green, rgb.blue].map(c =>
+    Math.round((c ?? 0) * 255)
+  );
+  return `rgb(${channels.join(', ')})`;
+}
+
+function toCss(style: StyleDefinition, scale: number): string {
+  const css: string[] = [];
+  if (style.bold) {
+    css.push('font-weight: bold');
+  }
+  if (style.italic) {
+    css.push('font-style: italic');
+  }
+  const decorations = [];
+  if (style.underline) {
+    decorations.push('underline');
+  }
+  if (style.strikethrough) {
+    decorations.push('line-through');
+  }
+  if (decorations.length) {
+    css.push(`text-decoration: ${decorations.join(' ')}`);
+  }
+  if (style.smallCaps) {
+    css.push('font-variant: small-caps');
+  }
+  if (style.fontFamily) {
+    css.push(`font-family: '${style.fontFamily}'`);
+  }
+  if (style.fontSize?.magnitude) {
+    css.push(`font-size: ${style.fontSize.magnitude * EMU_PER_PT * scale}px`);
+  }
+  const color = toCssColor(style.foregroundColor);
+  if (color) {
+    css.push(`color: ${color}`);
+  }
+  const backgroundColor = toCssColor(style.backgroundColor);
+  if (backgroundColor) {
+    css.push(`background-color: ${backgroundColor}`);
+  }
+  if (style.baselineOffset === 'SUPERSCRIPT') {
+    css.push('vertical-align: super; font-size: smaller');
+  } else if (style.baselineOffset === 'SUBSCRIPT') {
+    css.push('vertical-align: sub; font-size: smaller');
+  }
+  return css.join('; ');
+}
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [
+    [10, 'x'],
+    [9, 'ix'],
+    [5, 'v'],
+    [4, 'iv'],
+    [1, 'i'],
+  ];
+  let result = '';
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  }
+  return result;
+}
+
+// Labels for NUMBERED_DIGIT_ALPHA_ROMAN, by nesting level
+function orderedLabel(n: number, depth: number): string {
+  switch (depth % 3) {
+    case 0:
+      return `${n}.`;
+    case 1:
+      return `${String.fromCharCode(96 + ((n - 1) % 26) + 1)}.`;
+    default:
+      return `${toRoman(n)}.`;
+  }
+}
+
+/**
+ * Finds the font size a placeholder inherits from the layout and master.
+ *
+ * @param ancestors Placeholders, oldest-to-youngest
+ * @returns {number} Font size, in points
+ */
+function inheritedFontSize(ancestors: SlidesV1.Schema$PageElement[]): number {
+  for (const element of [...ancestors].reverse()) {
+    const size = element.shape?.text?.textElements?.find(
+      e => e.textRun?.style?.fontSize?.magnitude
+    )?.textRun?.style?.fontSize?.magnitude;
+    if (size) {
+      return size;
+    }
+  }
+  return DEFAULT_FONT_SIZE;
+}
+
+/**
+ * Renders text the way the requests from GenericLayout style it: text
+ * runs become spans and paragraphs in a list marker become list items,
+ * with leading tabs giving the nesting level.
+ */
+function renderText(text: TextDefinition, scale: number): string {
+  const paragraphs: string[] = [];
+  let counters: number[] = [];
+  let previousMarker: ListMarker | undefined;
+  let offset = 0;
+  const lines = text.rawText.split('\n');
+  // A trailing newline ends the last paragraph rather than starting one
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  for (const line of lines) {
+    const start = offset;
+    const end = start + line.length;
+    offset = end + 1;
+
+    // The outermost list numbers the paragraph, the innermost styles it
+    const markers = text.listMarkers
+      .filter(m => m.start <= start && start < m.end)
+      .sort((a, b) => (a.depth ?? 0) - (b.depth ?? 0));
+    const marker = markers[0];
+    const depth = marker ? line.match(/^\t*/)![0].length : 0;
+    const textStart = start + depth;
+
+    // Split into segments wherever a text run starts or ends
+    const boundaries = new Set([textStart, end]);
+    for (const run of text.textRuns) {
+      for (const index of [run.start, run.end]) {
+        if (index !== undefined && index > textStart && index < end) {
+          boundaries.add(index);
+        }
+      }
+    }
+    const points = [...boundaries].sort((a, b) => a - b);
+    let html = '';
+    for (let i = 0; i < points.length - 1; ++i) {
+      const [a, b] = [points[i], points[i + 1]];
+      const style: StyleDefinition = {};
+      let link: string | undefined;
+      // Runs are applied last to first, as when generating
+      for (const run of [...text.textRuns].reverse()) {
+        if ((run.start ?? 0) <= a && (run.end ?? 0) >= b) {
+          Object.assign(style, run);
+          link = run.link?.url ?? link;
+        }
+      }
+      const content = escapeHtml(text.rawText.slice(a, b)).replace(
+        /\u000b/g,
+        '<br>'
+      );
+      const css = toCss(style, scale);
+      let segment = css ? `<span style="${css}">${content}</span>` : content;
+      if (link) {
+        segment = `<a href="${escapeHtml(link)}">${segment}</a>`;
+      }
+      html += segment;
+    }
+
+    if (marker !== previousMarker) {
+      counters = [];
+      previousMarker = marker;
+    }
+    const innermost = markers[markers.length - 1];
+    if (marker && !innermost.literalNumbers) {
+      counters.length = depth + 1;
+      counters[depth] = (counters[depth] ?? 0) + 1;
+      const numbered = innermost.preset
+        ? isNumberedPreset(innermost.preset)
+        : innermost.type === 'ordered';
+      const label = numbered
+        ? orderedLabel(counters[depth], depth)
+        : BULLET_GLYPHS[depth % BULLET_GLYPHS.length];
+      paragraphs.push(
+        `<p style="margin-left: ${depth * 1.5}em"><span class="bullet">${label}</span>${html}</p>`
+      );
+    } else {
+      paragraphs.push(`<p>${html || '&nbsp;'}</p>`);
+    }
+  }
+  return paragraphs.join('\n');
+}
+
+/**
+ * Renders slides in the browser the way they'd look once generated.
+ */
+class PreviewSlide {
+  private presentation: SlidesV1.Schema$Presentation;
+  private slide: SlideDefinition;
+  private layout?: SlidesV1.Schema$Page;
+  private scale: number;
+  private elements: string[] = [];
+
+  public constructor(
+    presentation: SlidesV1.Schema$Presentation,
+    slide: SlideDefinition
+  ) {
+    this.presentation = presentation;
+    this.slide = slide;
+    this.scale = SLIDE_WIDTH_PX / pageBoundingBox(presentation).width;
+
+    const name = matchLayout(presentation, slide).name;
+    const layoutId = findLayoutIdByName(presentation, name);
+    this.layout = presentation.layouts?.find(l => l.objectId === layoutId);
+    if (!this.layout) {
+      throw new Error(`Unable to find layout ${name}`);
+    }
+  }
+
+  public render(): string {
+    const page = pageBoundingBox(this.presentation);
+    const {title, subtitle, backgroundImage, bodies, tables} = this.slide;
+
+    this.appendText(title, 'TITLE', 'horizontal');
+    this.appendText(title, 'CENTERED_TITLE');
+    this.appendText(subtitle, 'SUBTITLE');
+
+    const bodyElements = this.findPlaceholders('BODY');
+    const imagePlaceholders = this.findPlaceholders('PICTURE');
+    const tableBoxes = placeTables(
+      tables,
+      bodyElements[0] ? calculateBoundingBox(bodyElements[0]) : page
+    );
+    tables.forEach((table, i) => this.appendTable(table, tableBoxes[i]));
+    const bodyCount = Math.min(bodyElements.length, bodies.length);
+    for (let i = 0; i < bodyCount; ++i) {
+      // As when generating, inline math is drawn over its sentence
+      const inlineImages = bodies[i].images.filter(
+        image => image.textIndex !== undefined
+      );
+      const body = {
+        ...bodies[i],
+        images: bodies[i].images.filter(image => image.textIndex === undefined),
+      };
+      const inline =
+        body.text && inlineImages.length
+          ? reserveInlineSpace(body.text, inlineImages)
+          : undefined;
+      body.text = inline?.text ?? body.text;
+      const text = body.text ?? {
+        rawText: '',
+        textRuns: [],
+        listMarkers: [],
+        big: false,
+      };
+      let fontSize = this.fontSize(bodyElements[i], text, 'vertical');
+      // As when generating, callouts are stacked below the text, and so
+      // are images packed into the body, with the text fitted above them
+      const shapeBoxes = placeShapes(
+        body.shapes ?? [],
+        calculateBoundingBox(bodyElements[i]),
+        body.text
+      );
+      let imageBox = calculateBoundingBox(bodyElements[i]);
+      let textBox = shapeBoxes.text;
+      if (
+        body.images.length > imagePlaceholders.length &&
+        !body.shapes?.length
+      ) {
+        const boxes = placeTextAndImages(imageBox, body.text, fontSize);
+        imageBox = boxes.images;
+        if (boxes.text) {
+          textBox = boxes.text;
+          fontSize = this.fontSize(bodyElements[i], text, 'vertical', textBox);
+        }
+      }
+      this.appendText(
+        body.text,
+        bodyElements[i],
+        'vertical',
+        textBox,
+        textBox !== shapeBoxes.text
+      );
+      if (inline) {
+        const fitBox = textBox !== shapeBoxes.text ? textBox : undefined;
+        const ancestors = this.findFittedAncestors(bodyElements[i], fitBox);
+        inlineImages.forEach((image, j) => {
+          const position = measureTextPosition(
+            ancestors,
+            text,
+            fontSize,
+            inline.ranges[j]
+          );
+          const box = textBox ?? calculateBoundingBox(bodyElements[i]);
+          this.appendImage(
+            image,
+            placeInlineImage(image, box, position, fontSize)
+          );
+        });
+      }
+      (body.shapes ?? []).forEach((shape, j) => {
+        this.appendElement(
+          shapeBoxes.shapes[j],
+          'callout',
+          `font-size: ${this.px(fontSize * EMU_PER_PT)}px; ` +
+            `background-color: ${toCssColor(shape.fill) ?? 'transparent'}`,
+          renderText(shape.text, this.scale)
+        );
+      });
+      this.appendImages(body, imagePlaceholders, imageBox, fontSize);
+      const videoBoxes = placeVideos(
+        body.videos,
+        calculateBoundingBox(bodyElements[i]) ?? page
+      );
+      body.videos.forEach((video, j) => {
+        const thumbnail =
+          video.source === 'DRIVE'
+            ? `https://drive.google.com/thumbnail?id=${video.id}`
+            : `https://img.youtube.com/vi/${video.id}/hqdefault.jpg`;
+        this.appendElement(
+          videoBoxes[j],
+          'video',
+          `background-image: url('${thumbnail}')`,
+          ''
+        );
+      });
+    }
+
+    const background = backgroundImage?.url
+      ? `; background-image: url('${escapeHtml(backgroundImage.url)}')`
+      : '';
+    const slideHtml =
+      `<section class="slide" id="slide-${this.slide.index ?? 0}" data-layout="${
+        this.layout?.layoutProperties?.name
+      }" style="width: ${this.px(page.width)}px; height: ${this.px(
+        page.height
+      )}px${background}">\n` +
+      this.elements.join('\n') +
+      '\n</section>';
+    const notes = this.slide.notes
+      ? `\n<aside class="notes">${renderText(this.slide.notes, this.scale)}</aside>`
+      : '';
+    return slideHtml + notes;
+  }
+
+  private px(emu: number): number {
+    return Math.round(emu * this.scale * 100) / 100;
+  }
+
+  private findPlaceholders(type: string): SlidesV1.Schema$PageElement[] {
+    return (this.layout?.pageElements ?? []).filter(
+      element =>
+        element.shape?.placeholder?.type === type ||
+        element.image?.placeholder?.type === type
+    );
+  }
+
+  private findAncestors(
+    element: SlidesV1.Schema$PageElement
+  ): SlidesV1.Schema$PageElement[] {
+    const pages = [
+      ...(this.presentation.layouts ?? []),
+      ...(this.presentation.masters ?? []),
+    ];
+    const ancestors = [element];
+    let parentId = element.shape?.placeholder?.parentObjectId;
+    while (parentId) {
+      const parent = pages
+        .flatMap(page => page.pageElements ?? [])
+        .find(e => e.objectId === parentId);
+      if (!parent) {
+        break;
+      }
+      ancestors.unshift(parent);
+      parentId = parent.shape?.placeholder?.parentObjectId;
+    }
+    return ancestors;
+  }
+
+  // Ancestors of a placeholder, as if resized to the box if given
+  private findFittedAncestors(
+    placeholder: SlidesV1.Schema$PageElement,
+    box?: BoundingBox
+  ): SlidesV1.Schema$PageElement[] {
+    return this.findAncestors(
+      box
+        ? scaleElementHeight(
+            placeholder,
+            box.height / calculateBoundingBox(placeholder).height
+          )
+        : placeholder
+    );
+  }
+
+  private appendElement(
+    box: BoundingBox,
+    className: string,
+    style: string,
+    html: string
+  ): void {
+    const position =
+      `left: ${this.px(box.x)}px; top: ${this.px(box.y)}px; ` +
+      `width: ${this.px(box.width)}px; height: ${this.px(box.height)}px`;
+    this.elements.push(
+      `<div class="${className}" style="${position}${
+        style ? '; ' + style : ''
+      }">${html}</div>`
+    );
+  }
+
+  private appendText(
+    text: TextDefinition | undefined,
+    placeholder: string | SlidesV1.Schema$PageElement | undefined,
+    constraints?: string,
+    box?: BoundingBox,
+    fitToBox = false
+  ): void {
+    if (!text || !text.rawText.trim().length) {
+      return;
+    }
+    if (typeof placeholder === 'string') {
+      placeholder = this.findPlaceholders(placeholder)[0];
+    }
+    if (!placeholder) {
+      return;
+    }
+
+    const fontSize = this.fontSize(
+      placeholder,
+      text,
+      constraints,
+      fitToBox ? box : undefined
+    );
+    const alignment =
+      placeholder.shape?.text?.textElements?.[0]?.paragraphMarker?.style
+        ?.alignment;
+    const textAlign = alignment === 'CENTER' ? '; text-align: center' : '';
+    this.appendElement(
+      box ?? calculateBoundingBox(placeholder),
+      'placeholder',
+      `font-size: ${this.px(fontSize * EMU_PER_PT)}px${textAlign}`,
+      renderText(text, this.scale)
+    );
+  }
+
+  // Size text is drawn at in the placeholder, fitted to it if constrained,
+  // or to the box the placeholder is resized to
+  private fontSize(
+    placeholder: SlidesV1.Schema$PageElement,
+    text: TextDefinition,
+    constraints?: string,
+    box?: BoundingBox
+  ): number {
+    const ancestors = this.findFittedAncestors(placeholder, box);
+    let fontSize = inheritedFontSize(ancestors);
+    try {
+      fontSize = constraints
+        ? calculateFontSize(ancestors, text, constraints)
+        : fontSize;
+    } catch (err) {
+      debug('Unable to fit text: %O', err);
+    }
+    return fontSize;
+  }
+
+  private appendImages(
+    body: BodyDefinition,
+    placeholders: SlidesV1.Schema$PageElement[],
+    box: BoundingBox,
+    fontSize?: number
+  ): void {
+    const images = body.images.filter(image => {
+      if (!image.url || !image.width || !image.height) {
+        debug('Skipping image without size: %s', image.url);
+        return false;
+      }
+      return true;
+    });
+    // As when generating, images without a picture placeholder of their
+    // own are packed together into the body
+    const boxes = [
+      ...images
+        .slice(0, placeholders.length)
+        .map((image, i) =>
+          placeImage(
+            this.presentation,
+            image,
+            calculateBoundingBox(placeholders[i])
+          )
+        ),
+      ...placeImages(
+        images.slice(placeholders.length),
+        box,
+        body.imageLayout,
+        fontSize
+      ),
+    ];
+    images.forEach((image, i) => this.appendImage(image, boxes[i]));
+  }
+
+  private appendImage(image: ImageDefinition, box: BoundingBox): void {
+    if (!image.url || !image.width || !image.height) {
+      debug('Skipping image without size: %s', image.url);
+      return;
+    }
+    const position =
+      `left: ${this.px(box.x)}px; top: ${this.px(box.y)}px; ` +
+      `width: ${this.px(box.width)}px; ` +
+      `height: ${this.px(box.height)}px` +
+      this.imageStyle(image);
+    const html = `<img src="${escapeHtml(image.url)}" alt="${escapeHtml(
+      image.altText ?? ''
+    )}" style="${position}">`;
+    this.elements.push(
+      image.link ? `<a href="${escapeHtml(image.link.url)}">${html}</a>` : html
+    );
+  }
+
+  // Crop and opacity are already applied to the file, see prepareImages()
+  private imageStyle(image: ImageDefinition): string {
+    let css = '';
+    if (image.rotation) {
+      css += `; transform: rotate(${image.rotation}deg)`;
+    }
+    if (image.border) {
+      const {color, weight, dashStyle} = image.border;
+      css +=
+        `; outline: ${this.px((weight ?? 1) * EMU_PER_PT)}px ` +
+        `${BORDER_STYLES[dashStyle ?? 'SOLID'] ?? 'solid'} ` +
+        (toCssColor(color) ?? '#000');
+    }
+    return css;
+  }
+
+  private appendTable(table: TableDefinition, box: BoundingBox): void {
+    const {fontSize, columnWidths} = calculateTableLayout(table, box);
+    const columns = columnWidths.map(
+      width => `<col style="width: ${this.px(width)}px">`
+    );
+    const rows = table.cells.map(
+      (row, r) =>
+        '<tr>' +
+        row
+          .map((cell, c) => {
+            if (isCoveredCell(table, r, c)) {
+              return '';
+            }
+            const merge = findMerge(table, r, c);
+            const span =
+              (merge && merge.rowSpan > 1
+                ? ` rowspan="${merge.rowSpan}"`
+                : '') +
+              (merge && merge.columnSpan > 1
+                ? ` colspan="${merge.columnSpan}"`
+                : '');
+            return (
+              `<td${span}${this.cellStyle(table, table.cellStyles?.[r]?.[c])}>` +
+              `${renderText(cell, this.scale)}</td>`
+            );
+          })
+          .join('') +
+        '</tr>'
+    );
+    const position =
+      `left: ${this.px(box.x)}px; top: ${this.px(box.y)}px; ` +
+      `width: ${this.px(box.width)}px; ` +
+      `font-size: ${this.px(fontSize * EMU_PER_PT)}px`;
+    this.elements.push(
+      `<table style="${position}">\n<colgroup>${columns.join('')}</colgroup>\n` +
+        `${rows.join('\n')}\n</table>`
+    );
+  }
+
+  private cellStyle(table: TableDefinition, style?: TableCellStyle): string {
+    const css = [];
+    const background = toCssColor(style?.backgroundColor);
+    if (background) {
+      css.push(`background-color: ${background}`);
+    }
+    if (style?.alignment) {
+      css.push(`text-align: ${TEXT_ALIGNMENTS[style.alignment]}`);
+    }
+    if (table.border) {
+      const {color, weight, dashStyle} = table.border;
+      css.push(
+        `border: ${this.px((weight ?? 1) * EMU_PER_PT)}px ` +
+          `${BORDER_STYLES[dashStyle ?? 'SOLID'] ?? 'solid'} ` +
+          (toCssColor(color) ?? '#9e9e9e')
+      );
+    }
+    return css.length ? ` style="${css.join('; ')}"` : '';
+  }
+}
+
+/**
+ * Generates, sizes and adjusts the images in the slides, as SlideGenerator
+ * does before laying them out. Local images are left in place.
+ *
+ * @param {SlideDefinition[]} slides Slides to update
+ * @param {ImageCache} cache Previously rendered images
+ * @param presentation Presentation to take the color of math from
+ */
+export async function prepareImages(
+  slides: SlideDefinition[],
+  cache?: ImageCache,
+  presentation?: SlidesV1.Schema$Presentation
+): Promise<void> {
+  const images: ImageDefinition[] = [];
+  for (const slide of slides) {
+    if (slide.backgroundImage) {
+      images.push(slide.backgroundImage);
+    }
+    slide.bodies.forEach(body => images.push(...body.images));
+  }
+  const textColor = presentation && findTextColor(presentation);
+  for (const image of images) {
+    if (image.type === 'math' && !image.color && textColor) {
+      image.color = textColor;
+    }
+  }
+  const browser = new BrowserPool();
+  try {
+    await Promise.all(
+      images.map(image => maybeGenerateImage(image, cache, browser))
+    );
+  } finally {
+    await browser.close();
+  }
+  await Promise.all(images.map(image => probeImage(image)));
+  await Promise.all(images.map(image => maybeAdjustImage(image, cache)));
+}
+
+/**
+ * Renders slides to a standalone HTML page that approximates the
+ * generated deck, using the layouts of the given presentation. Useful
+ * for authoring offline and for visual regression tests.
+ *
+ * Images must already be sized, see prepareImages().
+ *
+ * @param presentation Presentation to take layouts and page size from
+ * @param {SlideDefinition[]} slides Slides, as returned by extractSlides
+ * @param {string} title Title of the page
+ * @returns {string} HTML
+ */
+export default function renderPreview(
+  presentation: SlidesV1.Schema$Presentation,
+  slides: SlideDefinition[],
+  title = 'Preview'
+): string {
+  const rendered = slides.map((slide, index) =>
+    new PreviewSlide(presentation, {index: index + 1, ...slide}).render()
+  );
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLESHEET}</style>`,
+    '</head>',
+    '<body>',
+    ...rendered,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
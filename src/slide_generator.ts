@@ -16,11 +16,28 @@ import Debug from 'debug';
 import extractSlides from './parser/extract_slides.js';
 import {SlideDefinition, ImageDefinition} from './slides.js';
 import matchLayout from './layout/match_layout.js';
+import {findTextColor} from './layout/presentation_helpers.js';
 import {URL} from 'url';
 import {google, Auth, slides_v1 as SlidesV1} from 'googleapis';
-import uploadLocalImage from './images/upload.js';
+import {ImageStore, ImageStoreOptions, createImageStore} from './images/store.js';
+import DriveImageStore from './images/upload.js';
+import CachedImageStore from './images/cached.js';
+import ImageCache from './images/cache.js';
+import BrowserPool, {BrowserOptions} from './images/browser.js';
 import probeImage from './images/probe.js';
 import maybeGenerateImage from './images/generate.js';
+import maybeAdjustImage from './images/adjust.js';
+import {
+  SyncPlan,
+  SyncSummary,
+  planSync,
+  appendReorderRequests,
+  hasOnlyUnsyncedSlides,
+  summarizeSync,
+  appendFingerprintRequests,
+} from './sync.js';
+import exportMarkdown from './export_markdown.js';
+import {ObjectIdSource, randomObjectId} from './object_ids.js';
 import assert from 'assert';
 
 const debug = Debug('md2gslides');
@@ -66,17 +83,24 @@ async function sleep(ms: number) {
 export default class SlideGenerator {
   private slides: SlideDefinition[] = [];
   private api: SlidesV1.Slides;
-  private presentation: SlidesV1.Schema$Presentation;
+  protected presentation: SlidesV1.Schema$Presentation;
   private drive: any;
+  private imageStore?: ImageStore;
+  private imageCache = new ImageCache();
+  private browser = new BrowserPool();
+  private syncPlan?: SyncPlan;
+  // Random unless the requests need to be the same on every run
+  protected newObjectId: ObjectIdSource = randomObjectId;
   /**
    * @param {Object} api Authorized API client instance
    * @param {Object} presentation Initial presentation data
+   * @param {OAuth2Client} auth User credentials, used for uploading images
    * @private
    */
   public constructor(
     api: SlidesV1.Slides,
     presentation: SlidesV1.Schema$Presentation,
-    auth: Auth.OAuth2Client,
+    auth?: Auth.OAuth2Client,
   ) {
     this.api = api;
     this.presentation = presentation;
@@ -157,28 +181,108 @@ export default class SlideGenerator {
     return new SlideGenerator(api, presentation, oauth2Client);
   }
 
+  /**
+   * Sets where local and generated images are uploaded to. Defaults to
+   * the root of the user's Google Drive.
+   *
+   * @param {ImageStore|ImageStoreOptions} store Store, or options to create one
+   */
+  public setImageStore(store: ImageStore | ImageStoreOptions): void {
+    this.imageStore =
+      'upload' in store ? store : createImageStore(store, this.drive);
+  }
+
+  /**
+   * Sets the cache of uploaded and rendered images. Defaults to an
+   * in-memory cache that only lasts for one run.
+   *
+   * @param {ImageCache} cache Image cache
+   */
+  public setImageCache(cache: ImageCache): void {
+    this.imageCache = cache;
+  }
+
+  /**
+   * Sets how images are drawn in the headless browser, e.g. HTML and
+   * Mermaid. The browser is shared by all images and closed once they
+   * are generated.
+   *
+   * @param {BrowserOptions} options Concurrency and timeout
+   */
+  public setBrowserOptions(options: BrowserOptions): void {
+    this.browser = new BrowserPool(options);
+  }
+
+  /**
+   * Reports what the last call to generateFromMarkdown changed, if it
+   * synced.
+   *
+   * @returns {SyncSummary|undefined}
+   */
+  public lastSyncSummary(): SyncSummary | undefined {
+    return this.syncPlan && summarizeSync(this.syncPlan);
+  }
+
   /**
    * Generate slides from markdown
    *
+   * When syncing, slides that were generated by a previous sync and whose
+   * content is unchanged are kept as-is. Modified slides are rewritten
+   * with the same ID, new ones are created, stale ones are deleted, and
+   * the rest are reordered. Syncing
+   * into a presentation whose slides were not generated by a sync is
+   * refused, since they would be kept alongside a second copy of the deck.
+   *
    * @param {String} markdown Markdown to import
    * @param css
+   * @param sync Only update slides whose content changed
    * @returns {Promise.<String>} ID of generated slide
    */
   public async generateFromMarkdown(
     markdown: string,
-    {css}: {css: string;}
+    {css, sync = false}: {css: string; sync?: boolean}
   ): Promise<string> {
     assert(this.presentation?.presentationId);
-    this.slides = extractSlides(markdown, css);
+    this.slides = extractSlides(markdown, css, this.newObjectId);
+    this.syncPlan = undefined;
+    if (sync) {
+      await this.reloadPresentation();
+      if (hasOnlyUnsyncedSlides(this.presentation)) {
+        throw new Error(
+          'Presentation has no slides from an earlier sync. Erase it first ' +
+            'or append without syncing.'
+        );
+      }
+      this.syncPlan = planSync(this.presentation, this.slides);
+      this.slides = this.syncPlan.create;
+    }
     await this.generateImages();
     await this.probeImageSizes();
+    await this.adjustImages();
     await this.uploadLocalImages();
+    if (this.syncPlan) {
+      // Separate batch, so rewritten slides can be created with the same ID
+      await this.updatePresentation(this.removeSlides());
+    }
     await this.updatePresentation(this.createSlides());
     await this.reloadPresentation();
     await this.updatePresentation(this.populateSlides());
+    if (this.syncPlan) {
+      await this.updatePresentation(this.reorderSlides());
+    }
     return this.presentation.presentationId;
   }
 
+  /**
+   * Converts the current state of the presentation back to markdown.
+   *
+   * @returns {Promise.<String>} Markdown for the presentation
+   */
+  public async exportToMarkdown(): Promise<string> {
+    await this.reloadPresentation();
+    return exportMarkdown(this.presentation);
+  }
+
   /**
    * Removes any existing slides from the presentation.
    *
@@ -243,11 +347,32 @@ export default class SlideGenerator {
     //if(upload) { console.log(JSON.stringify(images.map(i =>i.url), null, 2)); }
   }
   protected async generateImages(): Promise<void> {
-    return this.processImages(maybeGenerateImage);
+    // Math is drawn in the color of the theme unless styled, so it
+    // shows on dark themes too
+    const textColor = findTextColor(this.presentation);
+    try {
+      await this.processImages(image => {
+        if (image.type === 'math' && !image.color && textColor) {
+          image.color = textColor;
+        }
+        return maybeGenerateImage(image, this.imageCache, this.browser);
+      });
+    } finally {
+      await this.browser.close();
+    }
+  }
+
+  protected async adjustImages(): Promise<void> {
+    return this.processImages(image =>
+      maybeAdjustImage(image, this.imageCache)
+    );
   }
 
   protected async uploadLocalImages(): Promise<void> {
-    const urlCache: { [key: string]: string } = {};
+    const store = new CachedImageStore(
+      this.imageStore ?? new DriveImageStore(this.drive),
+      this.imageCache
+    );
     const uploadImageifLocal = async (
       image: ImageDefinition
     ): Promise<void> => {
@@ -258,16 +383,7 @@ export default class SlideGenerator {
       if (parsedUrl.protocol !== 'file:') {
         return Promise.reject(new Error(`The url ${parsedUrl}was not a valid file`));
       }
-      // if we've already uploaded it, use the cached link
-      else if(urlCache[parsedUrl.pathname]) { 
-        image.url = urlCache[parsedUrl.pathname];
-        return Promise.resolve();
-      }
-      else {
-        image.url = await uploadLocalImage(parsedUrl.pathname, this.drive);
-        urlCache[parsedUrl.pathname] = image.url;
-        return Promise.resolve();
-      }
+      image.url = await store.upload(parsedUrl.pathname);
     };
     return this.processImages(uploadImageifLocal, true);
   }
@@ -295,16 +411,34 @@ export default class SlideGenerator {
    */
   protected createSlides(): SlidesV1.Schema$BatchUpdatePresentationRequest {
     debug('Creating slides');
-    const batch = {
+    const batch: SlidesV1.Schema$BatchUpdatePresentationRequest = {
       requests: [],
     };
     for (const slide of this.slides) {
-      const layout = matchLayout(this.presentation, slide);
-      layout.appendCreateSlideRequest(batch.requests);
+      const layout = matchLayout(this.presentation, slide, this.newObjectId);
+      layout.appendCreateSlideRequest(batch.requests!);
     }
     return batch;
   }
 
+  /**
+   * When syncing, removes the slides from a previous sync that are stale or
+   * about to be rewritten.
+   *
+   * Note this only returns the batch requests, but does not execute it.
+   *
+   * @returns {{requests: Array}}
+   */
+  protected removeSlides(): SlidesV1.Schema$BatchUpdatePresentationRequest {
+    debug('Removing slides');
+    assert(this.syncPlan);
+    return {
+      requests: [...this.syncPlan.replace, ...this.syncPlan.remove].map(
+        objectId => ({deleteObject: {objectId}})
+      ),
+    };
+  }
+
   /**
    * 2nd pass at generation -- fills in placeholders and adds any other
    * elements to the slides.
@@ -319,13 +453,39 @@ export default class SlideGenerator {
       requests: [],
     };
     for (const slide of this.slides) {
-      const layout = matchLayout(this.presentation, slide);
+      const layout = matchLayout(this.presentation, slide, this.newObjectId);
       layout.appendContentRequests(batch.requests);
     }
+    if (this.syncPlan) {
+      appendFingerprintRequests(
+        this.presentation,
+        this.syncPlan,
+        batch.requests
+      );
+    }
     //console.log(JSON.stringify(batch, null, 2));
     return batch;
   }
 
+  /**
+   * 3rd pass when syncing -- moves the generated slides back into
+   * markdown order.
+   *
+   * Note this only returns the batch requests, but does not execute it.
+   *
+   * @returns {{requests: Array}}
+   */
+  protected reorderSlides(): SlidesV1.Schema$BatchUpdatePresentationRequest {
+    debug('Reordering slides');
+    assert(this.syncPlan);
+    const currentOrder = (this.presentation.slides ?? []).map(
+      slide => slide.objectId ?? ''
+    );
+    return {
+      requests: appendReorderRequests(currentOrder, this.syncPlan.order, []),
+    };
+  }
+
   /**
    * Updates the remote presentation.
    *
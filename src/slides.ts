@@ -19,12 +19,18 @@ export interface ListMarker {
   start: number;
   end: number;
   type: string; // TODO - enum
+  depth?: number; // 0 or unset for the outermost list
+  preset?: string; // Bullet preset, if not the default for the type
+  literalNumbers?: boolean; // Numbers are written out in the text
 }
 export interface ListDefinition {
   depth: number;
   tag: string;
   start: number;
   end?: number;
+  parent?: ListDefinition;
+  preset?: string;
+  nextNumber?: number; // When numbers are written out
 }
 export interface TextDefinition {
   rawText: string;
@@ -37,32 +43,83 @@ export interface VideoDefinition {
   height: number;
   autoPlay: boolean;
   id: string;
+  source?: string; // YOUTUBE (default) or DRIVE
+  start?: number; // In seconds
+  end?: number; // In seconds
+  mute?: boolean;
+}
+export interface ImageCrop {
+  // Fractions of the original size to cut off each edge
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
 }
 export interface ImageDefinition {
   url?: string;
   source?: string;
   type?: string;
-  width: number;
+  width: number; // In pixels, as given and then as sized by probing
   height: number;
+  relativeWidth?: number; // Fraction of the placeholder, for `width=50%`
+  relativeHeight?: number;
+  fit?: string; // contain (default), cover or stretch, when both are given
   style?: string;
   padding: number;
   offsetX: number;
   offsetY: number;
   altText?: string;
+  crop?: ImageCrop; // Applied to the file before uploading
+  opacity?: number; // 0 to 1, applied to the file before uploading
+  rotation?: number; // In degrees, clockwise
+  border?: BorderStyle;
+  link?: LinkDefinition;
+  color?: Color; // Math only, the color of the text by default
+  fontSize?: number; // Math only, in points. Sized like the text if unset
+  textIndex?: number; // Inline math only, where it goes in the body text
+}
+export interface ImageLayoutDefinition {
+  algorithm: string; // left-right, top-down, binary-tree or grid
+  columns?: number; // For grid
+}
+export interface TableCellStyle {
+  alignment?: string; // START, CENTER, END or JUSTIFIED
+  backgroundColor?: Color;
+}
+export interface BorderStyle {
+  color?: Color;
+  weight?: number; // In points
+  dashStyle?: string;
+}
+export interface TableMerge {
+  row: number;
+  column: number;
+  rowSpan: number;
+  columnSpan: number;
 }
 export interface TableDefinition {
   rows: number;
   columns: number;
   cells: TextDefinition[][];
+  cellStyles?: TableCellStyle[][];
+  border?: BorderStyle;
+  merges?: TableMerge[]; // Cells covered by a merge are left empty
+  sideBySide?: boolean; // Next to the previous table rather than below it
 }
 export interface LinkDefinition {
   url: string;
 }
+export interface ShapeDefinition {
+  text: TextDefinition;
+  fill: Color;
+}
 
 export interface BodyDefinition {
   text: TextDefinition | undefined;
   images: ImageDefinition[];
+  imageLayout?: ImageLayoutDefinition;
   videos: VideoDefinition[];
+  shapes?: ShapeDefinition[]; // Callouts, stacked below the text
 }
 export interface SlideDefinition {
   index?: number;
@@ -0,0 +1,292 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import crypto from 'crypto';
+import fs from 'fs';
+import {fileURLToPath} from 'url';
+import {slides_v1 as SlidesV1} from 'googleapis';
+import {SlideDefinition} from './slides.js';
+import {hashContent} from './images/cache.js';
+
+const debug = Debug('md2gslides');
+
+// Object IDs of slides created in sync mode start with this prefix,
+// followed by a number that stays with the slide across syncs. Slides
+// without it were added by hand and are never touched by a sync.
+export const SYNC_ID_PREFIX = 'md2gs_';
+
+// The speaker notes shape of each synced slide is described with this
+// marker followed by the fingerprint of the markdown it was made from.
+const FINGERPRINT_MARKER = 'md2gs:';
+
+export interface SyncPlan {
+  // Slides that are new or whose content changed
+  create: SlideDefinition[];
+  // Object IDs of slides whose content changed, deleted and created
+  // again with the same ID
+  replace: string[];
+  // Object IDs of previously generated slides no longer in the markdown
+  remove: string[];
+  // Object IDs of all generated slides, in markdown order
+  order: string[];
+  // Fingerprints of the slides to create, by object ID
+  fingerprints: Map<string, string>;
+  // Number of slides that were left untouched
+  unchanged: number;
+}
+
+export interface SyncSummary {
+  created: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+/**
+ * Tags local image URLs with a hash of the file so that editing an image
+ * changes the fingerprint of the slides that show it.
+ */
+function fingerprintUrl(url: string): string {
+  if (!url.startsWith('file:')) {
+    return url;
+  }
+  try {
+    return `${url}#${hashContent(fs.readFileSync(fileURLToPath(url)))}`;
+  } catch (err) {
+    debug('Unable to read %s: %O', url, err);
+    return url;
+  }
+}
+
+/**
+ * Computes a stable fingerprint of the slide content. The object ID and
+ * index are assigned at generation time and are not part of the content.
+ *
+ * @param {SlideDefinition} slide Slide to fingerprint
+ * @returns {string} Hex digest
+ */
+export function fingerprintSlide(slide: SlideDefinition): string {
+  const content = JSON.stringify(slide, (key, value) => {
+    if (key === 'objectId' || key === 'index') {
+      return undefined;
+    }
+    return key === 'url' && typeof value === 'string'
+      ? fingerprintUrl(value)
+      : value;
+  });
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * Reads the fingerprint stored with a slide by an earlier sync.
+ *
+ * @param slide Slide from the presentation
+ * @returns {string|undefined} Fingerprint, if the slide has one
+ */
+export function readFingerprint(
+  slide: SlidesV1.Schema$Page
+): string | undefined {
+  const notesPage = slide.slideProperties?.notesPage;
+  const notesId = notesPage?.notesProperties?.speakerNotesObjectId;
+  const description = notesPage?.pageElements?.find(
+    element => element.objectId === notesId
+  )?.description;
+  return description?.startsWith(FINGERPRINT_MARKER)
+    ? description.slice(FINGERPRINT_MARKER.length)
+    : undefined;
+}
+
+/**
+ * Whether the presentation has slides but none from an earlier sync, as
+ * when it was generated without syncing. Syncing would add a second copy
+ * of the deck after them.
+ *
+ * @param presentation Current state of the presentation
+ * @returns {boolean}
+ */
+export function hasOnlyUnsyncedSlides(
+  presentation: SlidesV1.Schema$Presentation
+): boolean {
+  const ids = (presentation.slides ?? []).map(slide => slide.objectId ?? '');
+  return ids.length > 0 && !ids.some(id => id.startsWith(SYNC_ID_PREFIX));
+}
+
+/**
+ * Compares the slides parsed from markdown against the slides already in
+ * the presentation and determines the minimal set of slides to delete
+ * and create.
+ *
+ * Slides whose fingerprint is unchanged are kept wherever they moved to.
+ * A changed slide takes over the ID of the synced slide at its position,
+ * so that it is rewritten in place, and the remaining slides are given
+ * new IDs.
+ *
+ * @param presentation Current state of the presentation
+ * @param {SlideDefinition[]} slides Slides parsed from markdown
+ * @returns {SyncPlan}
+ */
+export function planSync(
+  presentation: SlidesV1.Schema$Presentation,
+  slides: SlideDefinition[]
+): SyncPlan {
+  const existing = (presentation.slides ?? []).filter(slide =>
+    slide.objectId?.startsWith(SYNC_ID_PREFIX)
+  );
+  const existingIds = new Set(existing.map(slide => slide.objectId!));
+  const claimed = new Set<string>();
+  const fingerprints = slides.map(slide => fingerprintSlide(slide));
+
+  const ids: (string | undefined)[] = fingerprints.map(fingerprint => {
+    const match = existing.find(
+      slide =>
+        !claimed.has(slide.objectId!) && readFingerprint(slide) === fingerprint
+    );
+    if (match) {
+      claimed.add(match.objectId!);
+    }
+    return match?.objectId ?? undefined;
+  });
+  const kept = new Set(claimed);
+
+  const replace: string[] = [];
+  ids.forEach((id, index) => {
+    const previous = existing[index]?.objectId;
+    if (id === undefined && previous && !claimed.has(previous)) {
+      claimed.add(previous);
+      replace.push(previous);
+      ids[index] = previous;
+    }
+  });
+
+  let next = 1;
+  const plan: SyncPlan = {
+    create: [],
+    replace: replace,
+    remove: [...existingIds].filter(id => !claimed.has(id)),
+    order: [],
+    fingerprints: new Map(),
+    unchanged: kept.size,
+  };
+  slides.forEach((slide, index) => {
+    let objectId = ids[index];
+    if (objectId === undefined) {
+      while (existingIds.has(`${SYNC_ID_PREFIX}${next}`)) {
+        ++next;
+      }
+      objectId = `${SYNC_ID_PREFIX}${next++}`;
+    }
+    slide.objectId = objectId;
+    plan.order.push(objectId);
+    if (kept.has(objectId)) {
+      return;
+    }
+    plan.create.push(slide);
+    plan.fingerprints.set(objectId, fingerprints[index]);
+  });
+  debug(
+    'Sync plan: %d new, %d changed, %d stale, %d unchanged',
+    plan.create.length - plan.replace.length,
+    plan.replace.length,
+    plan.remove.length,
+    plan.unchanged
+  );
+  return plan;
+}
+
+/**
+ * Stores the fingerprint of each created slide in the description of its
+ * speaker notes shape, so the next sync can tell whether it changed.
+ *
+ * The shape may only appear once text is inserted into it, in which case
+ * the slide is left without a fingerprint and rewritten by the next sync.
+ *
+ * @param presentation Presentation, reloaded after creating the slides
+ * @param {SyncPlan} plan Plan the slides were created from
+ * @param requests Request array to append to
+ * @returns {Request[]}
+ */
+export function appendFingerprintRequests(
+  presentation: SlidesV1.Schema$Presentation,
+  plan: SyncPlan,
+  requests: SlidesV1.Schema$Request[]
+): SlidesV1.Schema$Request[] {
+  for (const slide of plan.create) {
+    const page = presentation.slides?.find(p => p.objectId === slide.objectId);
+    const notesPage = page?.slideProperties?.notesPage;
+    const notesId = notesPage?.notesProperties?.speakerNotesObjectId;
+    const hasShape =
+      slide.notes?.rawText ||
+      notesPage?.pageElements?.some(element => element.objectId === notesId);
+    if (!notesId || !hasShape) {
+      debug('No speaker notes shape on %s to fingerprint', slide.objectId);
+      continue;
+    }
+    requests.push({
+      updatePageElementAltText: {
+        objectId: notesId,
+        description:
+          FINGERPRINT_MARKER + plan.fingerprints.get(slide.objectId!),
+      },
+    });
+  }
+  return requests;
+}
+
+/**
+ * @param {SyncPlan} plan Plan to summarize
+ * @returns {SyncSummary} Number of slides created, rewritten, removed and
+ *   kept
+ */
+export function summarizeSync(plan: SyncPlan): SyncSummary {
+  return {
+    created: plan.create.length - plan.replace.length,
+    updated: plan.replace.length,
+    removed: plan.remove.length,
+    unchanged: plan.unchanged,
+  };
+}
+
+/**
+ * Moves generated slides so they appear in markdown order at the start of
+ * the presentation. Slides added by hand keep their relative order after
+ * the generated ones.
+ *
+ * @param {string[]} currentOrder Object IDs of all slides, as they are now
+ * @param {string[]} order Object IDs of generated slides, in markdown order
+ * @param requests Request array to append to
+ * @returns {Request[]}
+ */
+export function appendReorderRequests(
+  currentOrder: string[],
+  order: string[],
+  requests: SlidesV1.Schema$Request[]
+): SlidesV1.Schema$Request[] {
+  const slides = [...currentOrder];
+  order.forEach((objectId, index) => {
+    const position = slides.indexOf(objectId);
+    if (position === -1 || position === index) {
+      return;
+    }
+    slides.splice(position, 1);
+    slides.splice(index, 0, objectId);
+    requests.push({
+      updateSlidesPosition: {
+        slideObjectIds: [objectId],
+        insertionIndex: index,
+      },
+    });
+  });
+  return requests;
+}
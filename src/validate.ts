@@ -0,0 +1,199 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import fs from 'fs';
+import path from 'path';
+import {fileURLToPath} from 'url';
+import Token from 'markdown-it/lib/token';
+import {slides_v1 as SlidesV1} from 'googleapis';
+import parseMarkdown from './parser/parser.js';
+import extractSlides from './parser/extract_slides.js';
+import {Diagnostic, Severity} from './parser/env.js';
+import {parseFrontMatter, SlideMetadata} from './parser/front_matter.js';
+import {IMAGE_LAYOUTS} from './parser/attributes.js';
+import matchLayout from './layout/match_layout.js';
+
+export type {Diagnostic, Severity} from './parser/env.js';
+
+const debug = Debug('md2gslides');
+
+export interface ValidateOptions {
+  // Stylesheet, as for generating
+  css?: string;
+  // Presentation to check layout names against. Skipped if not set.
+  presentation?: SlidesV1.Schema$Presentation;
+  // Directory relative image paths resolve against. Defaults to cwd.
+  baseDir?: string;
+}
+
+/**
+ * Collects every problem with the markdown, rather than stopping at the
+ * first as generating does. Problems with the markdown itself are those
+ * extractSlides finds, the rest depend on the files and presentation
+ * the slides are generated with.
+ */
+class Validator {
+  private options: ValidateOptions;
+  private diagnostics: Diagnostic[] = [];
+  private layoutNames?: Set<string>;
+
+  public constructor(options: ValidateOptions) {
+    this.options = options;
+    const layouts = options.presentation?.layouts;
+    if (layouts) {
+      this.layoutNames = new Set(
+        layouts.map(l => l.layoutProperties?.displayName ?? '')
+      );
+    }
+  }
+
+  public validate(markdown: string): Diagnostic[] {
+    const {metadata, content} = parseFrontMatter(markdown);
+    if (metadata.layout) {
+      this.checkLayout(metadata.layout, 1);
+    }
+
+    const tokens = parseMarkdown(content);
+    // Lines where each slide starts, in the same order as extractSlides
+    const slideLines = [tokens[0]?.map ? tokens[0].map[0] + 1 : 1];
+    tokens.forEach((token, index) => {
+      const line = token.map ? token.map[0] + 1 : undefined;
+      if (token.type === 'hr' && index !== 0) {
+        slideLines.push((line ?? 0) + 1);
+      }
+      this.checkToken(token, line);
+      for (const child of token.children ?? []) {
+        this.checkToken(child, line);
+      }
+    });
+
+    this.checkSlides(markdown, slideLines);
+    return this.diagnostics.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  }
+
+  private report(
+    severity: Severity,
+    code: string,
+    message: string,
+    line?: number
+  ): void {
+    debug('%s at line %d: %s', code, line, message);
+    this.diagnostics.push({line, severity, code, message});
+  }
+
+  private checkToken(token: Token, line?: number): void {
+    switch (token.type) {
+      case 'image':
+        this.checkImage(token.attrGet('src') ?? undefined, line);
+        break;
+      case 'paragraph_open': {
+        const layout = token.attrGet('layout');
+        if (layout && !IMAGE_LAYOUTS.includes(layout)) {
+          this.checkLayout(layout, line);
+        }
+        break;
+      }
+      case 'slide_meta': {
+        const metadata = token.meta as SlideMetadata;
+        if (metadata.layout) {
+          this.checkLayout(metadata.layout, line);
+        }
+        if (metadata.background) {
+          this.checkImage(metadata.background, line);
+        }
+        break;
+      }
+    }
+  }
+
+  private checkImage(src: string | undefined, line?: number): void {
+    if (!src || /^https?:/.test(src)) {
+      return;
+    }
+    const file = src.startsWith('file:')
+      ? fileURLToPath(src)
+      : path.resolve(this.options.baseDir ?? process.cwd(), src);
+    if (!fs.existsSync(file)) {
+      this.report('error', 'missing-image', `Image not found: ${src}`, line);
+    }
+  }
+
+  private checkLayout(name: string, line?: number): void {
+    if (this.layoutNames && !this.layoutNames.has(name)) {
+      this.report(
+        'warning',
+        'unknown-layout',
+        `Unknown layout "${name}", one will be chosen from the content`,
+        line
+      );
+    }
+  }
+
+  private checkSlides(markdown: string, slideLines: number[]): void {
+    const problems: Diagnostic[] = [];
+    const slides = extractSlides(
+      markdown,
+      this.options.css,
+      undefined,
+      problems
+    );
+    problems.forEach(d => this.report(d.severity, d.code, d.message, d.line));
+    if (problems.some(d => d.severity === 'error')) {
+      return; // Slides are incomplete, so their layouts would be too
+    }
+    const presentation = this.options.presentation ?? {};
+    slides.forEach((slide, index) => {
+      try {
+        matchLayout(presentation, slide);
+      } catch (err) {
+        this.report(
+          'error',
+          'no-matching-layout',
+          'Failed to match layout for slide',
+          slideLines[index]
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Checks markdown for problems that would stop the slides from being
+ * generated, or generate them differently than intended, without
+ * calling any API.
+ *
+ * @param {string} markdown Markdown to check
+ * @param {ValidateOptions} options
+ * @returns {Diagnostic[]} Problems found, in order of appearance
+ */
+export default function validate(
+  markdown: string,
+  options: ValidateOptions = {}
+): Diagnostic[] {
+  return new Validator(options).validate(markdown);
+}
+
+/**
+ * Formats a diagnostic the way compilers do, e.g.
+ * `slides.md:12: error: Image not found: cat.png (missing-image)`
+ *
+ * @param {Diagnostic} diagnostic Problem to format
+ * @param {string} file Name of the markdown file
+ * @returns {string}
+ */
+export function formatDiagnostic(diagnostic: Diagnostic, file: string): string {
+  const location = diagnostic.line ? `${file}:${diagnostic.line}` : file;
+  return `${location}: ${diagnostic.severity}: ${diagnostic.message} (${diagnostic.code})`;
+}
@@ -0,0 +1,159 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import Debug from 'debug';
+import fs from 'fs';
+import path from 'path';
+import {URL} from 'url';
+import extractSlides from './parser/extract_slides.js';
+import {ImageDefinition} from './slides.js';
+
+const debug = Debug('md2gslides');
+
+/**
+ * Runs once per batch of changes and returns the files to watch next.
+ */
+export type WatchFn = (changed: string[]) => Promise<string[]>;
+
+export interface WatchOptions {
+  // Quiet period after a change before running, in milliseconds
+  debounce?: number;
+  // How often files are checked for changes, in milliseconds
+  interval?: number;
+}
+
+/**
+ * Finds the local image files referenced by markdown, so edits to them
+ * can trigger a rebuild too. Relative paths resolve against the working
+ * directory, as they do when generating.
+ *
+ * @param {string} markdown Markdown to scan
+ * @param {string} css Stylesheet, as for generating
+ * @returns {string[]} Absolute paths to local images
+ */
+export function findLocalImages(markdown: string, css?: string): string[] {
+  const images: ImageDefinition[] = [];
+  for (const slide of extractSlides(markdown, css)) {
+    if (slide.backgroundImage) {
+      images.push(slide.backgroundImage);
+    }
+    slide.bodies.forEach(body => images.push(...body.images));
+  }
+  const files = images
+    .filter(image => image.url?.startsWith('file:'))
+    .map(image => path.resolve(new URL(image.url!).pathname));
+  return [...new Set(files)];
+}
+
+/**
+ * Reruns a task whenever any of the files it depends on change.
+ *
+ * Changes are debounced so an editor saving several files at once only
+ * triggers a single run, and runs never overlap -- changes made while a
+ * run is in progress are picked up by the next one. Files are polled
+ * rather than watched with fs.watch, which loses track of files that
+ * editors replace on save.
+ */
+export default class Watcher {
+  private run: WatchFn;
+  private debounce: number;
+  private interval: number;
+  private files = new Set<string>();
+  private changed = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+  private stopped = false;
+
+  /**
+   * @param {WatchFn} run Task to run
+   * @param {WatchOptions} options
+   */
+  public constructor(run: WatchFn, options: WatchOptions = {}) {
+    this.run = run;
+    this.debounce = options.debounce ?? 300;
+    this.interval = options.interval ?? 500;
+  }
+
+  /**
+   * Runs the task once and then again after every change.
+   *
+   * @param {string[]} files Files to watch before the first run
+   * @returns {Promise<void>} Resolves after the first run
+   */
+  public async start(files: string[] = []): Promise<void> {
+    this.updateFiles(files);
+    await this.execute([]);
+  }
+
+  /**
+   * Stops watching. A run that is in progress still completes.
+   *
+   * @returns {Promise<void>} Resolves once no run is in progress
+   */
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.updateFiles([]);
+    await this.running;
+  }
+
+  private onChange(file: string): void {
+    debug('Changed: %s', file);
+    this.changed.add(file);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.debounce);
+  }
+
+  private flush(): void {
+    if (this.stopped || !this.changed.size) {
+      return;
+    }
+    if (this.running) {
+      // Picked up again once the current run finishes
+      return;
+    }
+    const changed = [...this.changed];
+    this.changed.clear();
+    this.execute(changed);
+  }
+
+  private async execute(changed: string[]): Promise<void> {
+    this.running = this.run(changed).then(
+      files => this.updateFiles(files),
+      err => debug('Run failed: %O', err)
+    );
+    await this.running;
+    this.running = undefined;
+    this.flush();
+  }
+
+  private updateFiles(files: string[]): void {
+    const next = new Set(this.stopped ? [] : files.map(f => path.resolve(f)));
+    for (const file of this.files) {
+      if (!next.has(file)) {
+        fs.unwatchFile(file);
+      }
+    }
+    for (const file of next) {
+      if (!this.files.has(file)) {
+        fs.watchFile(file, {interval: this.interval}, (curr, prev) => {
+          if (curr.mtimeMs !== prev.mtimeMs || curr.size !== prev.size) {
+            this.onChange(file);
+          }
+        });
+      }
+    }
+    this.files = next;
+  }
+}
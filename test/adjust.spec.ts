@@ -0,0 +1,65 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import http from 'http';
+import {AddressInfo} from 'net';
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {download} from '../src/images/adjust';
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+describe('download', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/image.png') {
+        res.end('image');
+      } else if (req.url === '/moved') {
+        res.writeHead(302, {location: '/image.png'});
+        res.end();
+      } else if (req.url === '/missing') {
+        res.writeHead(404);
+        res.end();
+      }
+      // Anything else never gets a response
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should follow redirects', async () => {
+    const body = await download(`${baseUrl}/moved`);
+    expect(body.toString()).to.equal('image');
+  });
+
+  it('should name the URL when it fails', () => {
+    return expect(download(`${baseUrl}/missing`)).to.be.rejectedWith(
+      `Unable to download ${baseUrl}/missing: status 404`
+    );
+  });
+
+  it('should give up on servers that do not respond', () => {
+    return expect(download(`${baseUrl}/slow`, 100)).to.be.rejectedWith(
+      `Unable to download ${baseUrl}/slow: no response after 100ms`
+    );
+  });
+});
@@ -0,0 +1,118 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {Browser, Page} from 'puppeteer';
+import BrowserPool, {emptyPage} from '../src/images/browser';
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+describe('BrowserPool', () => {
+  // Just enough of a browser to take screenshots
+  let launched: number;
+  let pagesOpened: number;
+  let pagesClosed: number;
+  let browsersClosed: number;
+
+  function launch(): Promise<Browser> {
+    launched++;
+    const browser = {
+      newPage: async () => {
+        pagesOpened++;
+        return {
+          setViewport: async () => {},
+          setContent: async () => {},
+          $: async () => ({
+            boundingBox: async () => ({x: 0, y: 0, width: 20, height: 10}),
+            screenshot: async () => Buffer.from('png'),
+          }),
+          close: async () => {
+            pagesClosed++;
+          },
+        } as unknown as Page;
+      },
+      close: async () => {
+        browsersClosed++;
+      },
+    };
+    return Promise.resolve(browser as unknown as Browser);
+  }
+
+  function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  beforeEach(() => {
+    launched = 0;
+    pagesOpened = 0;
+    pagesClosed = 0;
+    browsersClosed = 0;
+  });
+
+  it('should share the browser and reuse pages', async () => {
+    const pool = new BrowserPool({launch});
+    const first = await pool.screenshot('<div id="DOMtoImage"></div>');
+    await pool.screenshot('<div id="DOMtoImage"></div>');
+    expect(first).to.include({width: 20, height: 10});
+    expect(launched).to.equal(1);
+    expect(pagesOpened).to.equal(1);
+  });
+
+  it('should limit the number of concurrent renders', async () => {
+    const pool = new BrowserPool({launch, concurrency: 2});
+    let active = 0;
+    let maxActive = 0;
+    const render = () =>
+      pool.screenshot('', async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await delay(5);
+        active--;
+      });
+    await Promise.all([render(), render(), render(), render(), render()]);
+    expect(maxActive).to.equal(2);
+    expect(pagesOpened).to.equal(2);
+  });
+
+  it('should time out slow renders', async () => {
+    const pool = new BrowserPool({launch, timeout: 10});
+    await expect(pool.screenshot('', () => delay(1000))).to.be.rejectedWith(
+      /timed out/
+    );
+    // The page is discarded rather than reused
+    expect(pagesClosed).to.equal(1);
+    await pool.screenshot('');
+    expect(pagesOpened).to.equal(2);
+  });
+
+  it('should start a new browser after closing', async () => {
+    const pool = new BrowserPool({launch});
+    await pool.close();
+    expect(browsersClosed).to.equal(0);
+    await pool.screenshot('');
+    await pool.close();
+    await pool.screenshot('');
+    expect(browsersClosed).to.equal(1);
+    expect(launched).to.equal(2);
+  });
+
+  it('should escape the style of the page', () => {
+    expect(emptyPage('color: red" onload="alert(1)')).to.equal(
+      '<html><body><div id="DOMtoImage" ' +
+        'style="color: red&quot; onload=&quot;alert(1)"></div></body></html>'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import path from 'path';
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import chaiSubset from 'chai-subset';
+import {slides_v1} from 'googleapis';
+import DryRunSlideGenerator from '../src/dry_run';
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+chai.use(chaiSubset);
+
+describe('DryRunSlideGenerator', () => {
+  const fixturePath = path.join(path.dirname(__dirname), 'test', 'fixtures');
+  let batches: slides_v1.Schema$BatchUpdatePresentationRequest[];
+
+  before(async () => {
+    const generator = DryRunSlideGenerator.fromFile(
+      path.join(fixturePath, 'blank_presentation.json')
+    );
+    await generator.erase();
+    await generator.generateFromMarkdown(
+      '# Title\n## Subtitle\n\n---\n\n# Body slide\n\nHello world\n',
+      {css: '.hljs {color: #000}'}
+    );
+    batches = generator.requestBatches();
+  });
+
+  it('should erase the existing slide', () => {
+    expect(batches[0]).to.eql({requests: [{deleteObject: {objectId: 'p'}}]});
+  });
+
+  it('should create slides from the snapshot layouts', () => {
+    expect(batches[1].requests).to.containSubset([
+      {createSlide: {slideLayoutReference: {layoutId: 'p2'}}},
+      {createSlide: {slideLayoutReference: {layoutId: 'p4'}}},
+    ]);
+  });
+
+  it('should give the same requests on every run', async () => {
+    const markdown =
+      '# Title\n\n---\n\n# Body\n\n* one\n* two\n\n' +
+      `![](${path.join(fixturePath, 'landscape.png')})\n\n` +
+      '| a | b |\n|---|---|\n| 1 | 2 |\n';
+    const run = async () => {
+      const generator = DryRunSlideGenerator.fromFile(
+        path.join(fixturePath, 'blank_presentation.json')
+      );
+      await generator.generateFromMarkdown(markdown, {css: '.hljs {}'});
+      return JSON.stringify(generator.requestBatches());
+    };
+    const first = await run();
+    expect(first).to.contain('"objectId":"object_1"');
+    expect(await run()).to.equal(first);
+  });
+
+  it('should refuse to sync into a deck that was never synced', async () => {
+    const generator = DryRunSlideGenerator.fromFile(
+      path.join(fixturePath, 'blank_presentation.json')
+    );
+    await expect(
+      generator.generateFromMarkdown('# Title\n', {css: '.hljs {}', sync: true})
+    ).to.be.rejectedWith('Presentation has no slides from an earlier sync');
+    await generator.erase();
+    await generator.generateFromMarkdown('# Title\n', {
+      css: '.hljs {}',
+      sync: true,
+    });
+  });
+
+  it('should rewrite edited slides in place when syncing', async () => {
+    const generator = DryRunSlideGenerator.fromFile(
+      path.join(fixturePath, 'blank_presentation.json')
+    );
+    await generator.erase();
+    const options = {css: '.hljs {}', sync: true};
+    await generator.generateFromMarkdown('# One\n\n---\n\n# Two\n', options);
+    const before = generator.requestBatches().length;
+    await generator.generateFromMarkdown(
+      '# One\n\n---\n\n# Two, fixed\n',
+      options
+    );
+    const batches = generator.requestBatches().slice(before);
+    expect(batches[0]).to.eql({
+      requests: [{deleteObject: {objectId: 'md2gs_2'}}],
+    });
+    expect(batches[1].requests).to.have.length(1);
+    expect(batches[1].requests![0].createSlide?.objectId).to.equal('md2gs_2');
+    expect(generator.lastSyncSummary()).to.eql({
+      created: 0,
+      updated: 1,
+      removed: 0,
+      unchanged: 1,
+    });
+  });
+
+  it('should fill in placeholders copied from the layouts', () => {
+    const slideId = batches[1].requests![1].createSlide!.objectId;
+    expect(batches[2].requests).to.deep.include({
+      insertText: {
+        text: 'Hello world\n',
+        objectId: `${slideId}_p4_i1`,
+      },
+    });
+  });
+});
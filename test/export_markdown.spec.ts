@@ -0,0 +1,240 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import chai from 'chai';
+import path from 'path';
+import jsonfile from 'jsonfile';
+import {slides_v1 as SlidesV1} from 'googleapis';
+import exportMarkdown from '../src/export_markdown';
+import extractSlides from '../src/parser/extract_slides';
+
+const expect = chai.expect;
+
+type Run = [string, SlidesV1.Schema$TextStyle?];
+
+function text(
+  ...paragraphs: (Run[] | {bullet: string; runs: Run[]})[]
+): SlidesV1.Schema$TextContent {
+  const textElements: SlidesV1.Schema$TextElement[] = [];
+  for (const paragraph of paragraphs) {
+    const runs = Array.isArray(paragraph) ? paragraph : paragraph.runs;
+    textElements.push({
+      paragraphMarker: Array.isArray(paragraph)
+        ? {}
+        : {bullet: {glyph: paragraph.bullet}},
+    });
+    runs.forEach(([content, style], i) =>
+      textElements.push({
+        textRun: {
+          content: i === runs.length - 1 ? content + '\n' : content,
+          style: style ?? {},
+        },
+      })
+    );
+  }
+  return {textElements};
+}
+
+function placeholder(
+  type: string,
+  content: SlidesV1.Schema$TextContent,
+  x = 0
+): SlidesV1.Schema$PageElement {
+  return {
+    objectId: `${type}_${x}`,
+    size: {width: {magnitude: 100}, height: {magnitude: 100}},
+    transform: {scaleX: 1, scaleY: 1, translateX: x, translateY: 0},
+    shape: {placeholder: {type}, text: content},
+  };
+}
+
+function slide(
+  layoutId: string,
+  pageElements: SlidesV1.Schema$PageElement[],
+  notes?: SlidesV1.Schema$TextContent
+): SlidesV1.Schema$Page {
+  return {
+    objectId: 'slide',
+    pageElements,
+    slideProperties: {
+      layoutObjectId: layoutId,
+      notesPage: {
+        notesProperties: {speakerNotesObjectId: 'notes'},
+        pageElements: notes ? [{objectId: 'notes', shape: {text: notes}}] : [],
+      },
+    },
+  };
+}
+
+describe('exportMarkdown', () => {
+  const fixturePath = path.join(
+    path.dirname(__dirname),
+    'test',
+    'fixtures',
+    'blank_presentation.json'
+  );
+  let presentation: SlidesV1.Schema$Presentation;
+
+  function exportSlides(...slides: SlidesV1.Schema$Page[]): string {
+    presentation.slides = slides;
+    return exportMarkdown(presentation);
+  }
+
+  beforeEach(() => {
+    presentation = jsonfile.readFileSync(fixturePath);
+  });
+
+  it('should export title slides', () => {
+    const markdown = exportSlides(
+      slide('p2', [
+        placeholder('CENTERED_TITLE', text([['Hello']])),
+        placeholder('SUBTITLE', text([['World']])),
+      ])
+    );
+    expect(markdown).to.equal('# Hello\n\n## World\n');
+  });
+
+  it('should mark big titles', () => {
+    const markdown = exportSlides(
+      slide('p8', [placeholder('TITLE', text([['Main point']]))])
+    );
+    expect(markdown).to.equal('# Main point {.big}\n');
+  });
+
+  it('should export columns, lists and styles', () => {
+    const markdown = exportSlides(
+      slide('p5', [
+        placeholder('TITLE', text([['Two columns']])),
+        placeholder('BODY', text([['Right']]), 500),
+        placeholder(
+          'BODY',
+          text(
+            {bullet: '●', runs: [['strong', {bold: true}]]},
+            {
+              bullet: '●',
+              runs: [
+                ['red', {foregroundColor: {opaqueColor: {rgbColor: {red: 1}}}}],
+              ],
+            },
+            [['see '], ['docs', {link: {url: 'https://example.com'}}]]
+          ),
+          0
+        ),
+      ])
+    );
+    expect(markdown).to.equal(
+      '# Two columns\n\n' +
+        '* **strong**\n' +
+        '* <span style="color: #ff0000">red</span>\n\n' +
+        'see [docs](https://example.com)\n\n' +
+        '{.column}\n\n' +
+        'Right\n'
+    );
+  });
+
+  it('should export code blocks', () => {
+    const code = {fontFamily: 'Courier Prime'};
+    const markdown = exportSlides(
+      slide('p4', [
+        placeholder('TITLE', text([['Code']])),
+        placeholder(
+          'BODY',
+          text(
+            [['function hello() {', code]],
+            [['}', code]],
+            [['Use '], ['x*y', code]]
+          )
+        ),
+      ])
+    );
+    expect(markdown).to.equal(
+      '# Code\n\n```\nfunction hello() {\n}\n```\n\nUse `x*y`\n'
+    );
+  });
+
+  it('should export tables, images, videos and notes', () => {
+    const markdown = exportSlides(
+      slide(
+        'p4',
+        [
+          placeholder('TITLE', text([['Things']])),
+          {
+            objectId: 'image',
+            description: 'A cat',
+            image: {contentUrl: 'https://example.com/cat.png'},
+          },
+          {
+            objectId: 'video',
+            video: {source: 'YOUTUBE', id: 'abc'},
+          },
+          {
+            objectId: 'table',
+            table: {
+              rows: 2,
+              columns: 2,
+              tableRows: [
+                {
+                  tableCells: [
+                    {text: text([['Animal', {bold: true}]])},
+                    {text: text([['Number', {bold: true}]])},
+                  ],
+                },
+                {
+                  tableCells: [
+                    {text: text([['Fish']])},
+                    {text: text([['142']])},
+                  ],
+                },
+              ],
+            },
+          },
+        ],
+        text([['Remember this']])
+      )
+    );
+    expect(markdown).to.equal(
+      '# Things\n\n' +
+        '![A cat](https://example.com/cat.png)\n\n' +
+        '@[youtube](abc)\n\n' +
+        '| Animal | Number |\n|---|---|\n| Fish | 142 |\n\n' +
+        '<!--\nRemember this\n-->\n'
+    );
+  });
+
+  it('should only set layouts that differ from the inferred one', () => {
+    const markdown = exportSlides(
+      slide('p6', [placeholder('TITLE', text([['Only a title']]))]),
+      slide('p3', [placeholder('TITLE', text([['Section']]))])
+    );
+    expect(markdown).to.equal(
+      '# Only a title\n\n{layout="Title only"}\n\n---\n\n# Section\n'
+    );
+  });
+
+  it('should round trip through the parser', () => {
+    const markdown = exportSlides(
+      slide('p6', [placeholder('TITLE', text([['Star *power*']]))]),
+      slide('p4', [
+        placeholder('TITLE', text([['Body']])),
+        placeholder('BODY', text({bullet: '1.', runs: [['one']]})),
+      ])
+    );
+    const slides = extractSlides(markdown);
+    expect(slides).to.have.length(2);
+    expect(slides[0].title?.rawText).to.equal('Star *power*');
+    expect(slides[0].customLayout).to.equal('Title only');
+    expect(slides[1].bodies[0].text?.rawText).to.equal('one\n');
+    expect(slides[1].bodies[0].text?.listMarkers[0].type).to.equal('ordered');
+  });
+});
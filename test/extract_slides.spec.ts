@@ -15,6 +15,7 @@
 import chai from 'chai';
 import chaiAsPromised from 'chai-as-promised';
 import extractSlides from '../src/parser/extract_slides';
+import {Diagnostic} from '../src/parser/env';
 
 const expect = chai.expect;
 chai.use(chaiAsPromised);
@@ -118,6 +119,76 @@ describe('extractSlides', () => {
     });
   });
 
+  describe('with column containers', () => {
+    const markdown =
+      '# Title\n' +
+      '\n' +
+      ':::: columns\n' +
+      '::: column\n' +
+      'hello\n' +
+      ':::\n' +
+      '::: column\n' +
+      '* world\n' +
+      ':::\n' +
+      '::::\n';
+    const slides = extractSlides(markdown);
+
+    it('should have a body per column', () => {
+      expect(slides[0].bodies.map(body => body.text?.rawText)).to.eql([
+        'hello\n',
+        'world\n',
+      ]);
+    });
+
+    it('should keep the side of a single column', () => {
+      const [right, left] = extractSlides(
+        '# Right\n\n::: right\nworld\n:::\n\n---\n\n' +
+          '# Left\n\n::: left\nhello\n:::\n'
+      );
+      expect(right.bodies).to.have.length(2);
+      expect(right.bodies[1].text?.rawText).to.equal('world\n');
+      expect(left.bodies).to.have.length(2);
+      expect(left.bodies[0].text?.rawText).to.equal('hello\n');
+    });
+  });
+
+  describe('with callouts', () => {
+    const markdown =
+      '# Title\n' +
+      '\n' +
+      'Before\n' +
+      '\n' +
+      '::: callout {color=#ff0000}\n' +
+      'Watch **out**\n' +
+      ':::\n' +
+      '\n' +
+      'After\n';
+    const slides = extractSlides(markdown);
+
+    it('should keep the text around it in the body', () => {
+      expect(slides[0].bodies).to.have.length(1);
+      expect(slides[0].bodies[0].text?.rawText).to.equal('Before\nAfter\n');
+    });
+
+    it('should have a shape with text and fill', () => {
+      const [shape] = slides[0].bodies[0].shapes ?? [];
+      expect(shape.text.rawText).to.equal('Watch out');
+      expect(shape.text.textRuns).to.deep.include({
+        bold: true,
+        start: 6,
+        end: 9,
+      });
+      expect(shape.fill).to.eql({
+        opaqueColor: {rgbColor: {red: 1, green: 0, blue: 0}},
+      });
+    });
+
+    it('should reject invalid colors', () => {
+      expect(() =>
+        extractSlides('::: callout {color=nope}\nHi\n:::\n')
+      ).to.throw('Invalid callout color');
+    });
+  });
   describe('with background image', () => {
     const markdown =
       '# Title\n' +
@@ -163,6 +234,117 @@ describe('extractSlides', () => {
     });
   });
 
+  describe('with image sizes', () => {
+    it('should size images in pixels', () => {
+      const slides = extractSlides(
+        '![](https://example.com/a.jpg){width=200px height=100 fit=cover}\n'
+      );
+      expect(slides[0].bodies[0].images[0]).to.include({
+        width: 200,
+        height: 100,
+        fit: 'cover',
+      });
+    });
+
+    it('should size images relative to the placeholder', () => {
+      const slides = extractSlides(
+        '![](https://example.com/a.jpg){width=50%}\n'
+      );
+      expect(slides[0].bodies[0].images[0]).to.include({
+        width: 0,
+        relativeWidth: 0.5,
+      });
+    });
+
+    it('should reject mixed units', () => {
+      expect(() =>
+        extractSlides('![](https://example.com/a.jpg){width=50% height=100}\n')
+      ).to.throw('same unit');
+    });
+
+    it('should only cover sizes in pixels', () => {
+      expect(() =>
+        extractSlides('![](https://example.com/a.jpg){width=100 fit=cover}\n')
+      ).to.throw('fit=cover needs a width and height in pixels');
+    });
+  });
+
+  describe('with image attributes', () => {
+    const markdown =
+      '# Title\n' +
+      '\n' +
+      '![](https://example.com/a.jpg){crop="10% 0 20%" opacity=0.5 ' +
+      'rotate=15 border="2pt dashed #333" link=https://example.com}\n' +
+      '\n' +
+      '[![](https://example.com/b.jpg)](https://example.com/b)\n';
+    const slides = extractSlides(markdown);
+
+    it('should crop', () => {
+      expect(slides[0].bodies[0].images[0].crop).to.eql({
+        top: 0.1,
+        right: 0,
+        bottom: 0.2,
+        left: 0,
+      });
+    });
+
+    it('should set the opacity and rotation', () => {
+      expect(slides[0].bodies[0].images[0]).to.include({
+        opacity: 0.5,
+        rotation: 15,
+      });
+    });
+
+    it('should set the border', () => {
+      expect(slides[0].bodies[0].images[0].border).to.eql({
+        weight: 2,
+        dashStyle: 'DASH',
+        color: {opaqueColor: {rgbColor: {red: 0.2, green: 0.2, blue: 0.2}}},
+      });
+    });
+
+    it('should link images', () => {
+      expect(slides[0].bodies[0].images[0].link).to.eql({
+        url: 'https://example.com',
+      });
+      expect(slides[0].bodies[0].images[1].link).to.eql({
+        url: 'https://example.com/b',
+      });
+    });
+
+    it('should reject invalid crops', () => {
+      expect(() =>
+        extractSlides('![](https://example.com/a.jpg){crop="60% 0"}\n')
+      ).to.throw('Invalid crop');
+    });
+  });
+
+  describe('with an image layout', () => {
+    const markdown =
+      '# Title\n' +
+      '\n' +
+      '![](https://example.com/a.jpg) ![](https://example.com/b.jpg) ' +
+      '{layout=grid cols=3}\n';
+    const slides = extractSlides(markdown);
+
+    it('should set the image layout', () => {
+      expect(slides[0].bodies[0].imageLayout).to.eql({
+        algorithm: 'grid',
+        columns: 3,
+      });
+    });
+
+    it('should not set the slide layout', () => {
+      expect(slides[0].customLayout).to.be.undefined;
+    });
+
+    it('should reject invalid columns', () => {
+      expect(() =>
+        extractSlides('![](https://example.com/a.jpg) {layout=grid cols=0}\n')
+      ).to.throw('Invalid number of columns');
+    });
+  });
+
   describe('with video', () => {
     const markdown =
       '# Title\n' + '\n' + '@[youtube](12345)\n' + 'hello world\n';
@@ -176,6 +358,74 @@ describe('extractSlides', () => {
     });
   });
 
+  describe('with video options', () => {
+    const markdown =
+      '# Title\n' +
+      '\n' +
+      '@[youtube](12345) {start=1:30 end=120 mute autoplay=false}\n' +
+      '\n' +
+      '@[drive](https://drive.google.com/file/d/abc-123/view)\n';
+    const slides = extractSlides(markdown);
+
+    it('should set the times and settings', () => {
+      expect(slides[0].bodies[0].videos[0]).to.eql({
+        width: 1600,
+        height: 900,
+        autoPlay: false,
+        id: '12345',
+        source: 'YOUTUBE',
+        start: 90,
+        end: 120,
+        mute: true,
+      });
+    });
+
+    it('should have a Drive video', () => {
+      expect(slides[0].bodies[0].videos[1]).to.include({
+        id: 'abc-123',
+        source: 'DRIVE',
+        autoPlay: true,
+      });
+    });
+
+    it('should reject invalid times', () => {
+      expect(() => extractSlides('@[youtube](12345) {start=soon}\n')).to.throw(
+        'Invalid video time'
+      );
+    });
+  });
+
+  describe('with other embeds', () => {
+    const markdown =
+      '# Title\n' +
+      '\n' +
+      '@[vimeo](12345)\n' +
+      '\n' +
+      '<iframe src="https://example.com/map" width="400" height="300">' +
+      '</iframe>\n';
+    const slides = extractSlides(markdown);
+
+    it('should link a thumbnail of the video', () => {
+      expect(slides[0].bodies[0].videos).to.eql([]);
+      expect(slides[0].bodies[0].images[0]).to.include({
+        type: 'embed',
+        source: 'https://vimeo.com/12345',
+      });
+      expect(slides[0].bodies[0].images[0].link).to.eql({
+        url: 'https://vimeo.com/12345',
+      });
+    });
+
+    it('should link a thumbnail of the iframe', () => {
+      expect(slides[0].bodies[0].images[1]).to.include({
+        type: 'embed',
+        source: 'https://example.com/map',
+        width: 400,
+        height: 300,
+      });
+    });
+  });
+
   describe('with tables', () => {
     const markdown =
       '# Title\n' +
@@ -206,6 +456,214 @@ describe('extractSlides', () => {
     });
   });
 
+  describe('with styled tables', () => {
+    const css =
+      'table { border: 2pt dashed #00f; }\n' +
+      'th { background-color: #eee; }\n' +
+      'td { background-color: #fff; color: #f00; }\n';
+
+    it('should align columns', () => {
+      const slides = extractSlides(
+        '# Title\n\n a | b | c\n:--|:-:|--:\n d | e | f\n'
+      );
+      expect(slides[0].tables[0].cellStyles?.[1]).to.eql([
+        {alignment: 'START'},
+        {alignment: 'CENTER'},
+        {alignment: 'END'},
+      ]);
+    });
+
+    it('should fill the header', () => {
+      const slides = extractSlides('# Title\n\n a | b\n---|---\n c | d\n');
+      expect(slides[0].tables[0].cellStyles?.[0][0]).to.have.property(
+        'backgroundColor'
+      );
+      expect(slides[0].tables[0].cellStyles?.[1][0]).to.eql({});
+    });
+
+    it('should style cells from the stylesheet', () => {
+      const slides = extractSlides('# Title\n\n a | b\n---|---\n c | d\n', css);
+      const table = slides[0].tables[0];
+      expect(table.cellStyles?.[0][0].backgroundColor).to.eql({
+        opaqueColor: {
+          rgbColor: {red: 238 / 255, green: 238 / 255, blue: 238 / 255},
+        },
+      });
+      expect(table.cellStyles?.[1][0].backgroundColor).to.eql({
+        opaqueColor: {rgbColor: {red: 1, green: 1, blue: 1}},
+      });
+      expect(table.cells[1][0].textRuns[0].foregroundColor).to.eql({
+        opaqueColor: {rgbColor: {red: 1, green: 0, blue: 0}},
+      });
+      expect(table.border).to.eql({
+        weight: 2,
+        dashStyle: 'DASH',
+        color: {opaqueColor: {rgbColor: {red: 0, green: 0, blue: 1}}},
+      });
+    });
+
+    it('should fill cells with their own style', () => {
+      const slides = extractSlides(
+        '# Title\n\n a | b\n---|--:\n c | d {style="background-color: #f00"}\n'
+      );
+      const table = slides[0].tables[0];
+      expect(table.cellStyles?.[1][1]).to.eql({
+        alignment: 'END',
+        backgroundColor: {opaqueColor: {rgbColor: {red: 1, green: 0, blue: 0}}},
+      });
+      expect(table.cells[1][1].textRuns[0]).to.not.have.property(
+        'backgroundColor'
+      );
+    });
+
+    it('should treat the first row as a body row without a header', () => {
+      const slides = extractSlides(
+        '# Title\n\n a | b\n---|---\n c | d\n\n{.noheader}\n'
+      );
+      const table = slides[0].tables[0];
+      expect(table.rows).to.eql(2);
+      expect(table.cellStyles?.[0][0]).to.eql({});
+      expect(table.cells[0][0].textRuns[0].bold).to.not.be.true;
+    });
+
+    it('should drop an empty header row without a header', () => {
+      const slides = extractSlides(
+        '# Title\n\n|   |   |\n|---|---|\n| c | d |\n\n{header=false}\n'
+      );
+      expect(slides[0].tables[0].rows).to.eql(1);
+      expect(slides[0].tables[0].cells[0][0].rawText).to.eql('c');
+    });
+
+    it('should mark tables side by side', () => {
+      const slides = extractSlides(
+        '# Title\n\n a | b\n---|---\n c | d\n\n{.noheader .side-by-side}\n'
+      );
+      expect(slides[0].tables[0].sideBySide).to.be.true;
+      expect(slides[0].tables[0].cellStyles?.[0][0]).to.eql({});
+    });
+
+    it('should drop a DELETE THIS ROW header', () => {
+      const slides = extractSlides(
+        '# Title\n\nDELETE THIS ROW | |\n---|---\n c | d\n'
+      );
+      expect(slides[0].tables[0].rows).to.eql(1);
+      expect(slides[0].tables[0].cellStyles).to.have.length(1);
+    });
+  });
+
+  describe('with merged table cells', () => {
+    it('should read spans of HTML tables', () => {
+      const markdown =
+        '# Rubric\n' +
+        '\n' +
+        '<table>\n' +
+        '<tr><th rowspan="2">Skill</th><th colspan="2">Score</th></tr>\n' +
+        '<tr><th>Low</th><th>High</th></tr>\n' +
+        '<tr><td>Reading <b>well</b></td><td>1</td><td>3</td></tr>\n' +
+        '</table>\n';
+      const table = extractSlides(markdown)[0].tables[0];
+      expect(table.rows).to.eql(3);
+      expect(table.columns).to.eql(3);
+      expect(table.cells.map(row => row.map(cell => cell.rawText))).to.eql([
+        ['Skill', 'Score', ''],
+        ['', 'Low', 'High'],
+        ['Reading well', '1', '3'],
+      ]);
+      expect(table.cells[2][0].textRuns.find(run => run.bold)).to.include({
+        start: 8,
+        end: 12,
+      });
+      expect(table.merges).to.eql([
+        {row: 0, column: 0, rowSpan: 2, columnSpan: 1},
+        {row: 0, column: 1, rowSpan: 1, columnSpan: 2},
+      ]);
+    });
+
+    it('should put paragraphs of HTML table cells on lines', () => {
+      const markdown =
+        '# Notes\n' +
+        '\n' +
+        '<table>\n' +
+        '<tr><td><p>One</p><p><b>Two</b></p></td><td>Three</td></tr>\n' +
+        '</table>\n';
+      const table = extractSlides(markdown)[0].tables[0];
+      expect(table.cells[0].map(cell => cell.rawText)).to.eql([
+        'One\nTwo',
+        'Three',
+      ]);
+      expect(table.cells[0][0].textRuns.find(run => run.bold)).to.include({
+        start: 4,
+        end: 7,
+      });
+    });
+
+    it('should break lines of HTML table cells at <br>', () => {
+      const markdown =
+        '# Address\n' +
+        '\n' +
+        '<table>\n' +
+        '<tr><td>1 Main St<br>Springfield</td></tr>\n' +
+        '</table>\n';
+      const table = extractSlides(markdown)[0].tables[0];
+      expect(table.cells[0][0].rawText).to.eql('1 Main St\nSpringfield');
+    });
+
+    it('should keep the rows of HTML tables after blank lines', () => {
+      const markdown =
+        '# Spaced\n' +
+        '\n' +
+        '<table>\n' +
+        '<tr><td>a</td></tr>\n' +
+        '\n' +
+        '<tr><td>b</td></tr>\n' +
+        '</table>\n' +
+        '\n' +
+        'After\n';
+      const slide = extractSlides(markdown)[0];
+      expect(
+        slide.tables[0].cells.map(row => row.map(cell => cell.rawText))
+      ).to.eql([['a'], ['b']]);
+      expect(slide.bodies[0].text?.rawText).to.eql('After\n');
+    });
+
+    it('should report HTML table cells it cannot show with their line', () => {
+      const markdown =
+        '# Images\n' +
+        '\n' +
+        '<table>\n' +
+        '<tr><td>a</td></tr>\n' +
+        '<tr><td>\n' +
+        '<img src="x.png">\n' +
+        '</td></tr>\n' +
+        '</table>\n';
+      expect(() => extractSlides(markdown)).to.throw(
+        'Table cell on line 6: Unsupported content: <img src="x.png">'
+      );
+    });
+
+    it('should read spans of markdown tables', () => {
+      const markdown =
+        '# Schedule\n' +
+        '\n' +
+        '| Week {colspan=2} |   |\n' +
+        '|------|------|\n' +
+        '| 1 {rowspan=2} | Intro |\n' +
+        '| Setup |\n' +
+        '| 2 | Loops |\n';
+      const table = extractSlides(markdown)[0].tables[0];
+      expect(table.cells.map(row => row.map(cell => cell.rawText))).to.eql([
+        ['Week', ''],
+        ['1', 'Intro'],
+        ['', 'Setup'],
+        ['2', 'Loops'],
+      ]);
+      expect(table.merges).to.eql([
+        {row: 0, column: 0, rowSpan: 1, columnSpan: 2},
+        {row: 1, column: 0, rowSpan: 2, columnSpan: 1},
+      ]);
+    });
+  });
+
   describe('with unordered lists', () => {
     const markdown = '# Title\n' + '* item 1\n' + '* item 2\n';
 
@@ -272,6 +730,60 @@ describe('extractSlides', () => {
     });
   });
 
+  describe('with mixed nested lists', () => {
+    const markdown = '# Title\n' + '1. step\n' + '    * detail\n' + '2. step\n';
+
+    const slides = extractSlides(markdown);
+
+    it('should have a marker per list', () => {
+      return expect(slides)
+        .to.have.nested.property('[0].bodies[0].text.listMarkers')
+        .eql([
+          {start: 5, end: 13, type: 'unordered', depth: 1},
+          {start: 0, end: 18, type: 'ordered', depth: 0},
+        ]);
+    });
+  });
+
+  describe('with list start numbers and bullets', () => {
+    const markdown =
+      '# Title\n' + '4. step\n' + '5. step\n' + '{bullets=letters}\n';
+
+    const slides = extractSlides(markdown);
+
+    it('should write out the numbers', () => {
+      return expect(slides).to.have.nested.property(
+        '[0].bodies[0].text.rawText',
+        'D. step\nE. step\n'
+      );
+    });
+
+    it('should mark the list', () => {
+      return expect(slides)
+        .to.have.nested.property('[0].bodies[0].text.listMarkers[0]')
+        .eql({
+          start: 0,
+          end: 16,
+          type: 'ordered',
+          depth: 0,
+          preset: 'NUMBERED_UPPERALPHA_ALPHA_ROMAN',
+          literalNumbers: true,
+        });
+    });
+
+    it('should reject unknown presets', () => {
+      return expect(() =>
+        extractSlides('# Title\n* item\n{bullets=squiggles}\n')
+      ).to.throw('Unknown bullet preset: squiggles');
+    });
+
+    it('should not mistake properties of objects for presets', () => {
+      return expect(() =>
+        extractSlides('# Title\n* item\n{bullets=constructor}\n')
+      ).to.throw('Unknown bullet preset: constructor');
+    });
+  });
+
   describe('with text formats', () => {
     const markdown = '*italic*, **bold**, ~~strikethrough~~\n';
 
@@ -503,6 +1015,107 @@ describe('extractSlides', () => {
     });
   });
 
+  describe('with inline math', () => {
+    const markdown =
+      'Solve for $x$ where $x^2 = \\frac{a+b}{2}$\n' +
+      '\n' +
+      'Or $\\begin{pmatrix}1\\end{pmatrix}$\n';
+
+    const slides = extractSlides(markdown);
+
+    it('should write simple math as text', () => {
+      return expect(slides).to.have.nested.property(
+        '[0].bodies[0].text.rawText',
+        'Solve for x where x2 = (a + b)/2\nOr \n'
+      );
+    });
+
+    it('should write variables in italics', () => {
+      return expect(slides)
+        .to.have.nested.property('[0].bodies[0].text.textRuns')
+        .that.deep.includes({italic: true, start: 10, end: 11});
+    });
+
+    it('should raise superscripts', () => {
+      return expect(slides)
+        .to.have.nested.property('[0].bodies[0].text.textRuns')
+        .that.deep.includes({
+          baselineOffset: 'SUPERSCRIPT',
+          start: 19,
+          end: 20,
+        });
+    });
+
+    it('should not mistake properties of objects for commands', () => {
+      const [slide] = extractSlides('$\\constructor + \\toString$\n');
+      expect(slide.bodies[0].text?.rawText).to.equal('\n');
+      expect(slide.bodies[0].images[0]).to.include({
+        source: '\\constructor + \\toString',
+        textIndex: 0,
+      });
+    });
+
+    it('should draw other math as an image in the sentence', () => {
+      expect(slides[0].bodies[0].images).to.have.length(1);
+      expect(slides[0].bodies[0].images[0]).to.include({
+        type: 'math',
+        source: '\\begin{pmatrix}1\\end{pmatrix}',
+        textIndex: 36,
+      });
+    });
+
+    it('should leave other math as TeX where images cannot go', () => {
+      const diagnostics: Diagnostic[] = [];
+      const slides = extractSlides(
+        '# Or $\\begin{pmatrix}1\\end{pmatrix}$\n' +
+          '\n' +
+          '::: notes\n' +
+          'Or $\\begin{pmatrix}2\\end{pmatrix}$\n' +
+          ':::\n',
+        undefined,
+        undefined,
+        diagnostics
+      );
+      expect(slides[0].title?.rawText).to.equal(
+        'Or \\begin{pmatrix}1\\end{pmatrix}'
+      );
+      expect(slides[0].notes?.rawText).to.equal(
+        'Or \\begin{pmatrix}2\\end{pmatrix}\n'
+      );
+      expect(slides[0].bodies).to.have.length(0);
+      expect(diagnostics.map(d => [d.line, d.code])).to.eql([
+        [1, 'math-as-tex'],
+        [4, 'math-as-tex'],
+      ]);
+    });
+  });
+
+  describe('with styled math', () => {
+    const markdown =
+      '$$\n' +
+      'x^{y^z}\n' +
+      '$$\n' +
+      '{color=red size=24}\n' +
+      '\n' +
+      '<span style="color: #0000ff; font-size: 20pt">$\\sqrt[3]{x}$</span>\n';
+
+    const slides = extractSlides(markdown);
+
+    it('should style math from attributes', () => {
+      expect(slides[0].bodies[0].images[0]).to.deep.include({
+        color: {opaqueColor: {rgbColor: {red: 1, green: 0, blue: 0}}},
+        fontSize: 24,
+      });
+    });
+
+    it('should style math like the text around it', () => {
+      expect(slides[0].bodies[0].images[1]).to.deep.include({
+        color: {opaqueColor: {rgbColor: {red: 0, green: 0, blue: 1}}},
+        fontSize: 20,
+      });
+    });
+  });
+
   describe('with speaker notes', () => {
     const markdown =
       '# Title\n' +
@@ -534,6 +1147,64 @@ describe('extractSlides', () => {
     });
   });
 
+  describe('with indented speaker notes', () => {
+    const markdown =
+      '# Title\n' +
+      '<!--\n' +
+      '\t* one\n' +
+      '\t\t* two\n' +
+      '\n' +
+      '\tSee [the docs](https://example.com)\n' +
+      '-->\n';
+    const slides = extractSlides(markdown);
+
+    it('should keep nested lists', () => {
+      expect(slides[0].notes?.rawText).to.equal('one\n\ttwo\nSee the docs\n');
+      expect(slides[0].notes?.listMarkers).to.have.length(2);
+    });
+
+    it('should keep links', () => {
+      expect(slides[0].notes?.textRuns).to.deep.include({
+        link: {url: 'https://example.com'},
+        start: 13,
+        end: 21,
+      });
+    });
+  });
+
+  describe('with a notes container', () => {
+    const markdown =
+      '# Title\n' +
+      '\n' +
+      'Body\n' +
+      '\n' +
+      '::: notes\n' +
+      'Read **slowly**\n' +
+      '\n' +
+      '```\n' +
+      'code\n' +
+      '```\n' +
+      ':::\n' +
+      '\n' +
+      '<!-- And smile -->\n';
+    const slides = extractSlides(markdown);
+
+    it('should leave the body as is', () => {
+      expect(slides[0].bodies[0].text?.rawText).to.equal('Body\n');
+    });
+
+    it('should have speaker notes', () => {
+      expect(slides[0].notes?.rawText).to.equal(
+        'Read slowly\ncode\u000b\nAnd smile\n'
+      );
+      expect(slides[0].notes?.textRuns).to.deep.include({
+        bold: true,
+        start: 5,
+        end: 11,
+      });
+    });
+  });
+
   describe('with a custom layout', () => {
     const markdown = '{layout="my custom layout"}\n' + '# Title\n';
     const slides = extractSlides(markdown);
@@ -545,4 +1216,49 @@ describe('extractSlides', () => {
       );
     });
   });
+
+  describe('with problems collected', () => {
+    const markdown =
+      '# Problems\n' +
+      '\n' +
+      'Some <blink>text</blink>\n' +
+      'and <marquee>more</marquee>\n' +
+      '\n' +
+      '![](https://example.com/a.png){crop=50%}\n' +
+      '\n' +
+      '<table>\n' +
+      '<tr><td>\n' +
+      '<img src="x.png">\n' +
+      '</td><td>Fine</td></tr>\n' +
+      '</table>\n' +
+      '\n' +
+      '<!--\n' +
+      'Notes <font>here</font>\n' +
+      '-->\n';
+    const diagnostics: Diagnostic[] = [];
+    const slides = extractSlides(markdown, undefined, undefined, diagnostics);
+
+    it('should report each with its line', () => {
+      return expect(diagnostics.map(d => [d.line, d.code])).to.eql([
+        [3, 'unsupported-html'],
+        [4, 'unsupported-html'],
+        [6, 'invalid-attribute'],
+        [10, 'unsupported-html'],
+        [15, 'unsupported-html'],
+      ]);
+    });
+
+    it('should read on past them', () => {
+      return expect(slides).to.have.nested.property(
+        '[0].notes.rawText',
+        'Notes here\n'
+      );
+    });
+
+    it('should throw the first when not collected', () => {
+      return expect(() => extractSlides(markdown)).to.throw(
+        'Unsupported inline HTML element: blink'
+      );
+    });
+  });
 });
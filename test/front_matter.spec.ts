@@ -0,0 +1,130 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import chai from 'chai';
+import extractSlides from '../src/parser/extract_slides';
+import {parseFrontMatter} from '../src/parser/front_matter';
+
+const expect = chai.expect;
+
+describe('front matter', () => {
+  describe('for the deck', () => {
+    const markdown =
+      '---\n' +
+      'title: "Talk: the sequel"\n' +
+      'parent: folder\n' +
+      'theme: github\n' +
+      'layout: Title only\n' +
+      'font: Lato\n' +
+      'code-font: Fira Code\n' +
+      'author: ignored\n' +
+      '---\n' +
+      '\n' +
+      '# One `code`\n' +
+      '\n' +
+      '---\n' +
+      '\n' +
+      '# Two\n' +
+      '\n' +
+      '{layout="Title and body"}\n';
+
+    it('should read known keys', () => {
+      const {metadata} = parseFrontMatter(markdown);
+      expect(metadata).to.eql({
+        title: 'Talk: the sequel',
+        parent: 'folder',
+        theme: 'github',
+        layout: 'Title only',
+        font: 'Lato',
+        codeFont: 'Fira Code',
+      });
+    });
+
+    it('should keep line numbers', () => {
+      const {content} = parseFrontMatter(markdown);
+      expect(content.split('\n')).to.have.length(markdown.split('\n').length);
+      expect(content.split('\n')[10]).to.equal('# One `code`');
+    });
+
+    it('should not be a slide', () => {
+      expect(extractSlides(markdown)).to.have.length(2);
+    });
+
+    it('should set the default layout', () => {
+      const slides = extractSlides(markdown);
+      expect(slides[0].customLayout).to.equal('Title only');
+    });
+
+    it('should not override the layout of a slide', () => {
+      const slides = extractSlides(markdown);
+      expect(slides[1].customLayout).to.equal('Title and body');
+    });
+
+    it('should set fonts', () => {
+      const runs = extractSlides(markdown)[0].title?.textRuns;
+      expect(runs).to.deep.include({fontFamily: 'Fira Code', start: 4, end: 8});
+      expect(runs?.[runs.length - 1]).to.eql({
+        fontFamily: 'Lato',
+        start: 0,
+        end: 8,
+      });
+    });
+
+    it('should be optional', () => {
+      expect(parseFrontMatter('# Title\n')).to.eql({
+        metadata: {},
+        content: '# Title\n',
+      });
+    });
+  });
+
+  describe('for a slide', () => {
+    const markdown =
+      '# One\n' +
+      '\n' +
+      '---\n' +
+      'layout: Title only\n' +
+      'background: https://example.com/cover.jpg\n' +
+      'notes: Say hello\n' +
+      'transition: fade\n' +
+      '---\n' +
+      '\n' +
+      '# Two\n';
+    const slides = extractSlides(markdown);
+
+    it('should separate slides', () => {
+      expect(slides).to.have.length(2);
+    });
+
+    it('should set the layout', () => {
+      expect(slides[1].customLayout).to.equal('Title only');
+    });
+
+    it('should set the background', () => {
+      expect(slides[1].backgroundImage?.url).to.equal(
+        'https://example.com/cover.jpg'
+      );
+    });
+
+    it('should set the notes', () => {
+      expect(slides[1].notes?.rawText).to.equal('Say hello\n');
+    });
+
+    it('should leave other blocks as markdown', () => {
+      const slides = extractSlides('# One\n\n---\nSome text\n---\n');
+      expect(slides).to.have.length(2);
+      expect(slides[1].subtitle?.rawText).to.equal('Some text');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import fs from 'fs';
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {fileURLToPath} from 'url';
+import maybeGenerateImage from '../src/images/generate';
+import ImageCache from '../src/images/cache';
+import extractSlides from '../src/parser/extract_slides';
+import {ImageDefinition} from '../src/slides';
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+describe('maybeGenerateImage', () => {
+  function generatedImage(type: string, source: string): ImageDefinition {
+    return {
+      type: type,
+      source: source,
+      width: 0,
+      height: 0,
+      padding: 0,
+      offsetX: 0,
+      offsetY: 0,
+    };
+  }
+
+  it('should parse diagram fences', () => {
+    const slides = extractSlides(
+      '# Diagram\n\n@@@ mermaid\ngraph TD; A-->B;\n@@@\n'
+    );
+    expect(slides[0].bodies[0].images[0]).to.include({
+      type: 'mermaid',
+      source: 'graph TD; A-->B;\n',
+    });
+  });
+
+  it('should render Graphviz graphs', async () => {
+    const image = await maybeGenerateImage(
+      generatedImage('dot', 'digraph { a -> b; }')
+    );
+    expect(image.url).to.match(/^file:.*\.png$/);
+    expect(fs.existsSync(fileURLToPath(image.url ?? ''))).to.be.true;
+  });
+
+  it('should cache renderings by source', async () => {
+    const cache = new ImageCache();
+    const first = await maybeGenerateImage(
+      generatedImage('graphviz', 'digraph { c -> d; }'),
+      cache
+    );
+    const second = await maybeGenerateImage(
+      generatedImage('graphviz', 'digraph { c -> d; }'),
+      cache
+    );
+    expect(second.url).to.equal(first.url);
+  });
+
+  it('should draw a stand-in for embeds when offline', async () => {
+    const cache = new ImageCache();
+    const image = await maybeGenerateImage(
+      generatedImage('embed', 'http://127.0.0.1:1/video'),
+      cache
+    );
+    expect(image.url).to.match(/^file:.*\.png$/);
+    expect(fs.existsSync(fileURLToPath(image.url ?? ''))).to.be.true;
+    // Fetched again next time
+    const again = await maybeGenerateImage(
+      generatedImage('embed', 'http://127.0.0.1:1/video'),
+      cache
+    );
+    expect(again.url).to.not.equal(image.url);
+  });
+
+  it('should size math like its text', async () => {
+    const small = await maybeGenerateImage(generatedImage('math', 'x^2'));
+    const large = await maybeGenerateImage({
+      ...generatedImage('math', 'x^2'),
+      fontSize: 32,
+    });
+    expect(large.width).to.be.closeTo(small.width * 2, 0.01);
+    expect(large.height).to.be.closeTo(small.height * 2, 0.01);
+  });
+
+  it('should render MathML', async () => {
+    const image = await maybeGenerateImage(
+      generatedImage('math', '<math><mi>x</mi><mo>+</mo><mn>1</mn></math>')
+    );
+    expect(image.url).to.match(/^file:.*\.png$/);
+    expect(image.width).to.be.above(image.height);
+  });
+
+  it('should reject unknown types', () => {
+    return expect(maybeGenerateImage(generatedImage('plantuml', '@startuml')))
+      .to.be.rejected;
+  });
+});
@@ -19,7 +19,7 @@ import path from 'path';
 import GenericLayout from '../src/layout/generic_layout';
 import jsonfile from 'jsonfile';
 import {slides_v1} from 'googleapis';
-import {SlideDefinition} from '../src/slides';
+import {ImageLayoutDefinition, SlideDefinition} from '../src/slides';
 
 const expect = chai.expect;
 chai.use(chaiAsPromised);
@@ -192,6 +192,86 @@ describe('GenericLayout', () => {
     });
   });
 
+  describe('with callouts', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+    const fill = {opaqueColor: {rgbColor: {red: 1, green: 0, blue: 0}}};
+
+    before(() => {
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        bodies: [
+          {
+            images: [],
+            videos: [],
+            text: {
+              rawText: 'This is the slide body.\n',
+              textRuns: [],
+              listMarkers: [],
+              big: false,
+            },
+            shapes: [
+              {
+                text: {
+                  rawText: 'Watch out',
+                  textRuns: [],
+                  listMarkers: [],
+                  big: false,
+                },
+                fill: fill,
+              },
+            ],
+          },
+        ],
+        tables: [],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should create a rounded rectangle below the text', () => {
+      expect(requests).to.containSubset([
+        {
+          createShape: {
+            shapeType: 'ROUND_RECTANGLE',
+            elementProperties: {
+              pageObjectId: 'body-slide',
+              size: {width: {magnitude: 8368200}},
+              transform: {translateX: 387900},
+            },
+          },
+        },
+      ]);
+      const shape = requests.find(r => r.createShape)?.createShape;
+      expect(shape?.elementProperties?.transform?.translateY).to.be.greaterThan(
+        1489824.0225
+      );
+    });
+
+    it('should fill the shape and insert its text', () => {
+      const shapeId = requests.find(r => r.createShape)?.createShape?.objectId;
+      expect(requests).to.containSubset([
+        {
+          updateShapeProperties: {
+            objectId: shapeId,
+            shapeProperties: {
+              shapeBackgroundFill: {solidFill: {color: fill.opaqueColor}},
+            },
+          },
+        },
+        {insertText: {objectId: shapeId, text: 'Watch out'}},
+      ]);
+    });
+
+    it('should make room in the body', () => {
+      const update = requests.find(
+        r => r.updatePageElementTransform
+      )?.updatePageElementTransform;
+      expect(update?.objectId).to.equal('body-element');
+      expect(update?.transform?.translateY).to.equal(1489824.0225);
+      expect(update?.transform?.scaleY).to.be.closeTo(1.0263 / 2, 0.02);
+    });
+  });
+
   describe('with background images', () => {
     const requests: slides_v1.Schema$Request[] = [];
 
@@ -288,6 +368,272 @@ describe('GenericLayout', () => {
     });
   });
 
+  describe('with text and images', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+
+    before(() => {
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        tables: [],
+        bodies: [
+          {
+            videos: [],
+            images: [
+              {
+                url: 'https://placekitten.com/350/315',
+                width: 350,
+                height: 315,
+                padding: 0,
+                offsetX: 0,
+                offsetY: 0,
+              },
+            ],
+            text: {
+              rawText: 'This is the slide body.\n',
+              big: false,
+              listMarkers: [],
+              textRuns: [],
+            },
+          },
+        ],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should shrink the body to its text', () => {
+      const update = requests.find(
+        r => r.updatePageElementTransform
+      )?.updatePageElementTransform;
+      expect(update?.objectId).to.equal('body-element');
+      expect(update?.transform?.translateY).to.equal(1489824.0225);
+      expect(update?.transform?.scaleY).to.be.below(1.0263 / 2);
+    });
+
+    it('should place the image below the text', () => {
+      const update = requests.find(
+        r => r.updatePageElementTransform
+      )?.updatePageElementTransform;
+      // The body placeholder is 3000000 EMU high before it is scaled
+      const textBottom =
+        1489824.0225 + 3000000 * (update?.transform?.scaleY ?? 1.0263);
+      const image = requests.find(r => r.createImage)?.createImage;
+      expect(image?.elementProperties?.transform?.translateY).to.be.above(
+        textBottom
+      );
+    });
+  });
+
+  describe('with inline math', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+
+    before(() => {
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        tables: [],
+        bodies: [
+          {
+            videos: [],
+            images: [
+              {
+                url: 'https://example.com/math.png',
+                type: 'math',
+                width: 80,
+                height: 20,
+                padding: 0,
+                offsetX: 0,
+                offsetY: 0,
+                textIndex: 3,
+              },
+            ],
+            text: {
+              rawText: 'Or .\n',
+              big: false,
+              listMarkers: [],
+              textRuns: [{bold: true, start: 4, end: 5}],
+            },
+          },
+        ],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should keep space for the math in the text', () => {
+      // 60pt wide at 16pt, and a space is 0.278em
+      expect(requests).to.containSubset([
+        {insertText: {text: 'Or ' + '\u00a0'.repeat(14) + '.\n'}},
+        {
+          updateTextStyle: {
+            textRange: {startIndex: 18, endIndex: 19},
+            style: {bold: true},
+          },
+        },
+      ]);
+    });
+
+    it('should draw the math over the space', () => {
+      const image = requests.find(r => r.createImage)?.createImage;
+      const transform = image?.elementProperties?.transform;
+      // After the padding of the body and the width of `Or `
+      expect(transform?.translateX).to.be.above(387900 + 91440);
+      expect(transform?.translateX).to.be.below(387900 + 91440 + 400000);
+      // On the first line
+      expect(transform?.translateY).to.be.within(1489824, 1489824 + 300000);
+      expect(image?.elementProperties?.size?.width?.magnitude).to.equal(
+        80 * 9525
+      );
+    });
+
+    it('should leave the body its size', () => {
+      expect(requests.find(r => r.updatePageElementTransform)).to.be.undefined;
+    });
+  });
+
+  describe('with image attributes', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+
+    before(() => {
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        tables: [],
+        bodies: [
+          {
+            videos: [],
+            images: [
+              {
+                url: 'https://placekitten.com/350/315',
+                width: 350,
+                height: 315,
+                padding: 0,
+                offsetX: 0,
+                offsetY: 0,
+                rotation: 90,
+                border: {
+                  weight: 2,
+                  dashStyle: 'DASH',
+                  color: {opaqueColor: {rgbColor: {red: 1}}},
+                },
+                link: {url: 'https://example.com'},
+              },
+            ],
+            text: undefined,
+          },
+        ],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should rotate the image', () => {
+      const transform = requests.find(r => r.createImage)?.createImage
+        ?.elementProperties?.transform;
+      expect(transform?.scaleX).to.be.closeTo(0, 1e-9);
+      expect(transform?.shearX).to.eql(-1);
+      expect(transform?.shearY).to.eql(1);
+    });
+
+    it('should set the outline and link', () => {
+      expect(requests).to.containSubset([
+        {
+          updateImageProperties: {
+            imageProperties: {
+              outline: {
+                outlineFill: {solidFill: {color: {rgbColor: {red: 1}}}},
+                weight: {magnitude: 2, unit: 'PT'},
+                dashStyle: 'DASH',
+              },
+              link: {url: 'https://example.com'},
+            },
+            fields: 'outline.outlineFill,outline.weight,outline.dashStyle,link',
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('with multiple images', () => {
+    function image(width: number, height: number) {
+      return {
+        url: `https://placekitten.com/${width}/${height}`,
+        width: width,
+        height: height,
+        padding: 0,
+        offsetX: 0,
+        offsetY: 0,
+      };
+    }
+
+    function imageBoxes(imageLayout?: ImageLayoutDefinition) {
+      const requests: slides_v1.Schema$Request[] = [];
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        tables: [],
+        bodies: [
+          {
+            videos: [],
+            images: [image(400, 300), image(400, 300), image(400, 300)],
+            imageLayout: imageLayout,
+            text: undefined,
+          },
+        ],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+      return requests
+        .filter(r => r.createImage)
+        .map(r => r.createImage?.elementProperties);
+    }
+
+    it('should pack images in a row', () => {
+      const boxes = imageBoxes({algorithm: 'left-right'});
+      expect(boxes).to.have.length(3);
+      expect(boxes[1]?.transform?.translateY).to.eql(
+        boxes[0]?.transform?.translateY
+      );
+      expect(boxes[1]?.transform?.translateX).to.be.closeTo(
+        (boxes[0]?.transform?.translateX ?? 0) +
+          (boxes[0]?.size?.width?.magnitude ?? 0),
+        1
+      );
+    });
+
+    it('should pack images in a column', () => {
+      const boxes = imageBoxes({algorithm: 'top-down'});
+      expect(boxes[1]?.transform?.translateX).to.eql(
+        boxes[0]?.transform?.translateX
+      );
+      expect(boxes[1]?.transform?.translateY).to.be.above(
+        boxes[0]?.transform?.translateY ?? 0
+      );
+    });
+
+    it('should pack images in a grid', () => {
+      const boxes = imageBoxes({algorithm: 'grid', columns: 2});
+      expect(boxes[1]?.transform?.translateY).to.eql(
+        boxes[0]?.transform?.translateY
+      );
+      expect(boxes[2]?.transform?.translateX).to.eql(
+        boxes[0]?.transform?.translateX
+      );
+      expect(boxes[2]?.transform?.translateY).to.be.above(
+        boxes[0]?.transform?.translateY ?? 0
+      );
+    });
+
+    it('should fit images in the body', () => {
+      // Body placeholder of the fixture
+      const left = 387900;
+      const right = left + 3000000 * 2.7894;
+      for (const box of imageBoxes()) {
+        expect(box?.transform?.translateX).to.be.at.least(left - 1);
+        expect(
+          (box?.transform?.translateX ?? 0) + (box?.size?.width?.magnitude ?? 0)
+        ).to.be.at.most(right + 1);
+      }
+    });
+  });
+
   describe('with video', () => {
     const requests: slides_v1.Schema$Request[] = [];
 
@@ -331,6 +677,74 @@ describe('GenericLayout', () => {
     });
   });
 
+  describe('with videos', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+
+    before(() => {
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        bodies: [
+          {
+            videos: [
+              {
+                width: 1600,
+                height: 900,
+                autoPlay: true,
+                id: 'MG8KADiRbOU',
+              },
+              {
+                width: 1600,
+                height: 900,
+                autoPlay: false,
+                id: 'abc-123',
+                source: 'DRIVE',
+                start: 10,
+                mute: true,
+              },
+            ],
+            images: [],
+            text: undefined,
+          },
+        ],
+        tables: [],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should create each video', () => {
+      const videos = requests.filter(r => r.createVideo);
+      expect(videos).to.have.length(2);
+      expect(videos[1]).to.containSubset({
+        createVideo: {source: 'DRIVE', id: 'abc-123'},
+      });
+    });
+
+    it('should not overlap videos', () => {
+      const [first, second] = requests
+        .filter(r => r.createVideo)
+        .map(r => r.createVideo?.elementProperties);
+      const firstRight =
+        (first?.transform?.translateX ?? 0) +
+        (first?.size?.width?.magnitude ?? 0);
+      expect(second?.transform?.translateY).to.eql(
+        first?.transform?.translateY
+      );
+      expect(second?.transform?.translateX).to.be.at.least(firstRight);
+    });
+
+    it('should set video properties', () => {
+      expect(requests).to.containSubset([
+        {
+          updateVideoProperties: {
+            fields: 'autoPlay,start,mute',
+            videoProperties: {autoPlay: false, start: 10, mute: true},
+          },
+        },
+      ]);
+    });
+  });
+
   describe('with table', () => {
     const requests: slides_v1.Schema$Request[] = [];
 
@@ -462,6 +876,253 @@ describe('GenericLayout', () => {
         },
       ]);
     });
+
+    it('should place the table in the body', () => {
+      expect(requests).to.containSubset([
+        {
+          createTable: {
+            elementProperties: {
+              size: {width: {magnitude: 8368200, unit: 'EMU'}},
+              transform: {translateX: 387900, translateY: 1489824.0225},
+            },
+          },
+        },
+      ]);
+    });
+
+    it('should size columns to fill the table', () => {
+      const widths = requests
+        .filter(r => r.updateTableColumnProperties)
+        .map(
+          r =>
+            r.updateTableColumnProperties?.tableColumnProperties?.columnWidth
+              ?.magnitude ?? 0
+        );
+      expect(widths).to.have.length(2);
+      expect(widths[0]).to.be.below(widths[1]);
+      expect(widths[0] + widths[1]).to.be.closeTo(8368200, 1);
+    });
+
+    it('should set the font size of cells', () => {
+      expect(requests).to.containSubset([
+        {
+          updateTextStyle: {
+            cellLocation: {rowIndex: 1, columnIndex: 1},
+            style: {fontSize: {magnitude: 14, unit: 'PT'}},
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('with many table columns', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+
+    before(() => {
+      const cell = (rawText: string) => ({
+        big: false,
+        rawText,
+        textRuns: [],
+        listMarkers: [],
+      });
+      const header = [cell('A much longer heading than the others '.repeat(8))];
+      for (let c = 1; c < 18; ++c) {
+        header.push(cell(`Column ${c}`));
+      }
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        bodies: [],
+        tables: [{rows: 1, columns: 18, cells: [header]}],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should keep columns as wide as the API allows', () => {
+      const widths = requests
+        .filter(r => r.updateTableColumnProperties)
+        .map(
+          r =>
+            r.updateTableColumnProperties?.tableColumnProperties?.columnWidth
+              ?.magnitude ?? 0
+        );
+      expect(widths).to.have.length(18);
+      widths.forEach(width => expect(width).to.be.at.least(406400));
+      expect(widths.reduce((a, n) => a + n, 0)).to.be.closeTo(8368200, 1);
+    });
+  });
+
+  describe('with merged table cells', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+
+    before(() => {
+      const cell = (rawText: string) => ({
+        big: false,
+        rawText,
+        textRuns: [],
+        listMarkers: [],
+      });
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        bodies: [],
+        tables: [
+          {
+            rows: 2,
+            columns: 2,
+            cells: [
+              [cell('Score'), cell('hidden')],
+              [cell('Low'), cell('High')],
+            ],
+            merges: [{row: 0, column: 0, rowSpan: 1, columnSpan: 2}],
+          },
+        ],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should merge cells before inserting text', () => {
+      const merge = requests.findIndex(r => r.mergeTableCells);
+      expect(requests[merge]).to.containSubset({
+        mergeTableCells: {
+          tableRange: {
+            location: {rowIndex: 0, columnIndex: 0},
+            rowSpan: 1,
+            columnSpan: 2,
+          },
+        },
+      });
+      expect(requests.findIndex(r => r.insertText)).to.be.above(merge);
+    });
+
+    it('should skip covered cells', () => {
+      const texts = requests
+        .filter(r => r.insertText)
+        .map(r => r.insertText?.text);
+      expect(texts).to.eql(['Score', 'Low', 'High']);
+    });
+  });
+
+  describe('with tables side by side', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+
+    before(() => {
+      const cell = (rawText: string) => ({
+        big: false,
+        rawText,
+        textRuns: [],
+        listMarkers: [],
+      });
+      const table = {
+        rows: 2,
+        columns: 1,
+        cells: [[cell('Name')], [cell('Value')]],
+      };
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        bodies: [],
+        tables: [table, {...table, sideBySide: true}, table],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should share rows with the previous table', () => {
+      const transforms = requests
+        .filter(r => r.createTable)
+        .map(r => r.createTable?.elementProperties?.transform);
+      expect(transforms).to.have.length(3);
+      expect(transforms[0]?.translateY).to.eql(transforms[1]?.translateY);
+      expect(transforms[1]?.translateX).to.be.above(
+        transforms[0]?.translateX ?? 0
+      );
+      expect(transforms[2]?.translateX).to.eql(transforms[0]?.translateX);
+      expect(transforms[2]?.translateY).to.be.above(
+        transforms[0]?.translateY ?? 0
+      );
+    });
+  });
+
+  describe('with styled table', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+    const red = {opaqueColor: {rgbColor: {red: 1, green: 0, blue: 0}}};
+
+    before(() => {
+      const cell = (rawText: string) => ({
+        big: false,
+        rawText,
+        textRuns: [],
+        listMarkers: [],
+      });
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        bodies: [],
+        tables: [
+          {
+            rows: 2,
+            columns: 2,
+            cells: [
+              [cell('Animal'), cell('Number')],
+              [cell('Fish'), cell('')],
+            ],
+            cellStyles: [
+              [{backgroundColor: red}, {alignment: 'END'}],
+              [{}, {alignment: 'END'}],
+            ],
+            border: {weight: 2, dashStyle: 'DOT'},
+          },
+        ],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should align cells', () => {
+      const alignments = requests.filter(r => r.updateParagraphStyle);
+      expect(alignments).to.have.length(1);
+      expect(alignments[0]).to.containSubset({
+        updateParagraphStyle: {
+          cellLocation: {rowIndex: 0, columnIndex: 1},
+          style: {alignment: 'END'},
+          fields: 'alignment',
+        },
+      });
+    });
+
+    it('should fill cells', () => {
+      const fills = requests.filter(r => r.updateTableCellProperties);
+      expect(fills).to.have.length(1);
+      expect(fills[0]).to.containSubset({
+        updateTableCellProperties: {
+          tableRange: {
+            location: {rowIndex: 0, columnIndex: 0},
+            rowSpan: 1,
+            columnSpan: 1,
+          },
+          tableCellProperties: {
+            tableCellBackgroundFill: {
+              solidFill: {color: red.opaqueColor},
+            },
+          },
+        },
+      });
+    });
+
+    it('should update borders', () => {
+      expect(requests).to.containSubset([
+        {
+          updateTableBorderProperties: {
+            borderPosition: 'ALL',
+            tableRange: {rowSpan: 2, columnSpan: 2},
+            tableBorderProperties: {
+              weight: {magnitude: 2, unit: 'PT'},
+              dashStyle: 'DOT',
+            },
+            fields: 'weight,dashStyle',
+          },
+        },
+      ]);
+    });
   });
 
   describe('with formatted text', () => {
@@ -583,4 +1244,134 @@ describe('GenericLayout', () => {
       ]);
     });
   });
+
+  describe('with mixed nested lists', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+
+    before(() => {
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        bodies: [
+          {
+            images: [],
+            videos: [],
+            text: {
+              big: false,
+              rawText: 'Step 1\n\tfoo\n\tbar\nStep 2\n',
+              textRuns: [],
+              listMarkers: [
+                {
+                  start: 7,
+                  end: 17,
+                  type: 'unordered',
+                  depth: 1,
+                },
+                {
+                  start: 0,
+                  end: 24,
+                  type: 'ordered',
+                  depth: 0,
+                },
+              ],
+            },
+          },
+        ],
+        tables: [],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should number the whole list', () => {
+      expect(requests).to.containSubset([
+        {
+          createParagraphBullets: {
+            textRange: {
+              type: 'FIXED_RANGE',
+              startIndex: 0,
+              endIndex: 24,
+            },
+            bulletPreset: 'NUMBERED_DIGIT_ALPHA_ROMAN',
+          },
+        },
+      ]);
+    });
+
+    it('should restore the tabs of the nested list', () => {
+      const inserts = requests
+        .filter(r => r.insertText?.text === '\t')
+        .map(r => r.insertText?.insertionIndex);
+      expect(inserts).to.eql([11, 7]);
+    });
+
+    it('should bullet the nested list', () => {
+      const bullets = requests.filter(r => r.createParagraphBullets);
+      expect(bullets[bullets.length - 1]).to.containSubset({
+        createParagraphBullets: {
+          textRange: {
+            type: 'FIXED_RANGE',
+            startIndex: 7,
+            endIndex: 14,
+          },
+          bulletPreset: 'BULLET_DISC_CIRCLE_SQUARE',
+          objectId: 'body-element',
+        },
+      });
+    });
+  });
+
+  describe('with numbers written out', () => {
+    const requests: slides_v1.Schema$Request[] = [];
+
+    before(() => {
+      const input: SlideDefinition = {
+        objectId: 'body-slide',
+        bodies: [
+          {
+            images: [],
+            videos: [],
+            text: {
+              big: false,
+              rawText: '4. Step\n\tfoo\n5. Step\n',
+              textRuns: [],
+              listMarkers: [
+                {
+                  start: 8,
+                  end: 13,
+                  type: 'unordered',
+                  depth: 1,
+                  preset: 'BULLET_CHECKBOX',
+                },
+                {
+                  start: 0,
+                  end: 21,
+                  type: 'ordered',
+                  depth: 0,
+                  literalNumbers: true,
+                },
+              ],
+            },
+          },
+        ],
+        tables: [],
+      };
+      const layout = new GenericLayout('', presentation, input);
+      layout.appendContentRequests(requests);
+    });
+
+    it('should only bullet the nested list', () => {
+      const bullets = requests.filter(r => r.createParagraphBullets);
+      expect(bullets).to.have.length(1);
+      expect(bullets[0]).to.containSubset({
+        createParagraphBullets: {
+          textRange: {
+            type: 'FIXED_RANGE',
+            startIndex: 8,
+            endIndex: 9,
+          },
+          bulletPreset: 'BULLET_CHECKBOX',
+        },
+      });
+    });
+  });
 });
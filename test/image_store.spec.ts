@@ -0,0 +1,192 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import fs from 'fs';
+import http from 'http';
+import {AddressInfo} from 'net';
+import os from 'os';
+import path from 'path';
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {google} from 'googleapis';
+import {createImageStore} from '../src/images/store';
+import HostedImageStore from '../src/images/hosted';
+import S3ImageStore from '../src/images/s3';
+import DriveImageStore from '../src/images/upload';
+import CachedImageStore from '../src/images/cached';
+import ImageCache from '../src/images/cache';
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+describe('ImageStore', () => {
+  describe('HostedImageStore', () => {
+    const root = path.join(path.dirname(__dirname), 'examples');
+    const store = new HostedImageStore('https://example.com/deck', root);
+
+    it('should map files relative to the root', () => {
+      return expect(
+        store.upload(path.join(root, 'images', 'example2', 'bypass.png'))
+      ).to.eventually.equal(
+        'https://example.com/deck/images/example2/bypass.png'
+      );
+    });
+
+    it('should reject files outside of the root', () => {
+      return expect(store.upload('/tmp/rendered.png')).to.be.rejectedWith(
+        /outside of/
+      );
+    });
+  });
+
+  describe('S3ImageStore', () => {
+    let dir: string;
+    let server: http.Server;
+    let requests: string[];
+
+    beforeEach(async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'md2gslides-'));
+      fs.writeFileSync(path.join(dir, 'a.png'), 'image');
+      requests = [];
+      server = http.createServer((req, res) => {
+        requests.push(`${req.method} ${req.url}`);
+        req.resume();
+        if (!req.url?.startsWith('/slow/')) {
+          req.on('end', () => res.end());
+        }
+      });
+      await new Promise<void>(resolve =>
+        server.listen(0, '127.0.0.1', resolve)
+      );
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+      fs.rmSync(dir, {recursive: true, force: true});
+    });
+
+    it('should keep the path of the endpoint', async () => {
+      const port = (server.address() as AddressInfo).port;
+      const store = new S3ImageStore({
+        bucket: 'decks',
+        accessKeyId: 'id',
+        secretAccessKey: 'secret',
+        endpoint: `http://127.0.0.1:${port}/s3/`,
+      });
+      const url = await store.upload(path.join(dir, 'a.png'));
+      expect(requests).to.have.length(1);
+      expect(requests[0]).to.match(/^PUT \/s3\/decks\/[0-9a-f]{32}\.png$/);
+      expect(url).to.equal(
+        `http://127.0.0.1:${port}${requests[0].split(' ')[1]}`
+      );
+    });
+
+    it('should give up on endpoints that do not respond', async () => {
+      const port = (server.address() as AddressInfo).port;
+      const store = new S3ImageStore({
+        bucket: 'decks',
+        accessKeyId: 'id',
+        secretAccessKey: 'secret',
+        endpoint: `http://127.0.0.1:${port}/slow/`,
+        timeout: 100,
+      });
+      await expect(store.upload(path.join(dir, 'a.png'))).to.be.rejectedWith(
+        new RegExp(
+          `^Upload to http://127\\.0\\.0\\.1:${port}/slow/decks/` +
+            '[0-9a-f]{32}\\.png failed: no response after 100ms$'
+        )
+      );
+    });
+  });
+
+  describe('createImageStore', () => {
+    it('should create a Drive store', () => {
+      const store = createImageStore(
+        {type: 'drive', folderId: 'abc'},
+        google.drive({version: 'v3'})
+      );
+      expect(store).to.be.instanceof(DriveImageStore);
+    });
+
+    it('should require a bucket for S3', () => {
+      expect(() => createImageStore({type: 's3'})).to.throw(/bucket/);
+    });
+
+    it('should require a base URL for hosted images', () => {
+      expect(() => createImageStore({type: 'url'})).to.throw(/base URL/);
+    });
+  });
+
+  describe('CachedImageStore', () => {
+    let dir: string;
+    let uploads: string[];
+    let available: boolean;
+    const fakeStore = {
+      key: 'fake',
+      upload: async (filePath: string) => {
+        uploads.push(filePath);
+        return `https://example.com/${uploads.length}`;
+      },
+      exists: async () => available,
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'md2gslides-'));
+      fs.writeFileSync(path.join(dir, 'a.png'), 'same');
+      fs.writeFileSync(path.join(dir, 'b.png'), 'same');
+      fs.writeFileSync(path.join(dir, 'c.png'), 'different');
+      uploads = [];
+      available = true;
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, {recursive: true, force: true});
+    });
+
+    it('should upload identical files once', async () => {
+      const store = new CachedImageStore(fakeStore, new ImageCache());
+      const urls = await Promise.all(
+        ['a.png', 'b.png', 'c.png'].map(f => store.upload(path.join(dir, f)))
+      );
+      expect(uploads).to.have.length(2);
+      expect(urls[0]).to.equal(urls[1]);
+      expect(urls[2]).to.not.equal(urls[0]);
+    });
+
+    it('should reuse uploads from an earlier run', async () => {
+      const cache = new ImageCache();
+      await new CachedImageStore(fakeStore, cache).upload(
+        path.join(dir, 'a.png')
+      );
+      const url = await new CachedImageStore(fakeStore, cache).upload(
+        path.join(dir, 'b.png')
+      );
+      expect(uploads).to.have.length(1);
+      expect(url).to.equal('https://example.com/1');
+    });
+
+    it('should upload again if the earlier upload is gone', async () => {
+      const cache = new ImageCache();
+      await new CachedImageStore(fakeStore, cache).upload(
+        path.join(dir, 'a.png')
+      );
+      available = false;
+      const url = await new CachedImageStore(fakeStore, cache).upload(
+        path.join(dir, 'a.png')
+      );
+      expect(uploads).to.have.length(2);
+      expect(url).to.equal('https://example.com/2');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import chai from 'chai';
+import path from 'path';
+import jsonfile from 'jsonfile';
+import {slides_v1 as SlidesV1} from 'googleapis';
+import renderPreview from '../src/preview';
+import extractSlides from '../src/parser/extract_slides';
+
+const expect = chai.expect;
+
+describe('renderPreview', () => {
+  const fixturePath = path.join(
+    path.dirname(__dirname),
+    'test',
+    'fixtures',
+    'blank_presentation.json'
+  );
+  let presentation: SlidesV1.Schema$Presentation;
+
+  beforeEach(() => {
+    presentation = jsonfile.readFileSync(fixturePath);
+  });
+
+  it('should render a section per slide with its layout', () => {
+    const html = renderPreview(
+      presentation,
+      extractSlides('# Title\n\n## Subtitle\n\n---\n\n# Section\n')
+    );
+    expect(html).to.match(/^<!DOCTYPE html>/);
+    expect(html).to.include('id="slide-1" data-layout="TITLE"');
+    expect(html).to.include('id="slide-2" data-layout="SECTION_HEADER"');
+    expect(html).to.include('style="width: 960px; height: 540px"');
+    expect(html).to.include('<p>Subtitle</p>');
+  });
+
+  it('should render lists and styled text', () => {
+    const html = renderPreview(
+      presentation,
+      extractSlides(
+        '# List\n\n* one **bold**\n    * two\n\n1. first\n2. second\n'
+      )
+    );
+    expect(html).to.include(
+      '<span class="bullet">●</span>one <span style="font-weight: bold">bold</span>'
+    );
+    expect(html).to.include(
+      '<p style="margin-left: 1.5em"><span class="bullet">○</span>two</p>'
+    );
+    expect(html).to.include('<span class="bullet">1.</span>first');
+    expect(html).to.include('<span class="bullet">2.</span>second');
+  });
+
+  it('should render tables with a header row', () => {
+    const html = renderPreview(
+      presentation,
+      extractSlides('# Table\n\n| a | b |\n|---|--:|\n| 1 | 2 |\n')
+    );
+    expect(html).to.include(
+      '<td style="background-color: rgb(191, 191, 191)">'
+    );
+    expect(html).to.include(
+      '<td><p>1</p></td><td style="text-align: right"><p>2</p></td>'
+    );
+  });
+
+  it('should place images like the generated slide', () => {
+    const slides = extractSlides(
+      '# Image\n\n![](https://example.com/cat.png)\n'
+    );
+    const image = slides[0].bodies[0].images[0];
+    image.width = 100;
+    image.height = 50;
+    const html = renderPreview(presentation, slides);
+    const match = html.match(
+      /<img src="https:\/\/example.com\/cat.png" alt="" style="left: [\d.]+px; top: [\d.]+px; width: ([\d.]+)px; height: ([\d.]+)px">/
+    );
+    expect(match).to.not.be.null;
+    // Scaled to fit the body, keeping its aspect ratio
+    expect(Number(match?.[1])).to.be.closeTo(Number(match?.[2]) * 2, 0.1);
+  });
+
+  it('should draw inline math over its sentence', () => {
+    const slides = extractSlides(
+      '# Math\n\nOr $\\begin{pmatrix}1\\end{pmatrix}$ so\n'
+    );
+    const image = slides[0].bodies[0].images[0];
+    image.url = 'https://example.com/math.png';
+    image.width = 80;
+    image.height = 20;
+    const html = renderPreview(presentation, slides);
+    expect(html).to.include('Or ' + '\u00a0'.repeat(14) + ' so');
+    expect(html).to.match(
+      /<img src="https:\/\/example.com\/math.png" alt="" style="left: [\d.]+px; top: [\d.]+px; width: [\d.]+px; height: [\d.]+px">/
+    );
+  });
+
+  it('should escape text', () => {
+    const html = renderPreview(presentation, extractSlides('# a < b & c\n'));
+    expect(html).to.include('a &lt; b &amp; c');
+  });
+});
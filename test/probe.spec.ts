@@ -0,0 +1,121 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import chai from 'chai';
+import path from 'path';
+import fileUrl from 'file-url';
+import probeImage from '../src/images/probe';
+import {placeImages} from '../src/layout/geometry';
+import {ImageDefinition} from '../src/slides';
+
+const expect = chai.expect;
+
+describe('probeImage', () => {
+  const fixtures = path.join(path.dirname(__dirname), 'test', 'fixtures');
+
+  // landscape.png is 200x100, portrait.png is 100x200
+  function image(
+    file: string,
+    attributes: Partial<ImageDefinition> = {}
+  ): ImageDefinition {
+    return {
+      url: fileUrl(path.join(fixtures, file)),
+      width: 0,
+      height: 0,
+      padding: 0,
+      offsetX: 0,
+      offsetY: 0,
+      ...attributes,
+    };
+  }
+
+  async function size(img: ImageDefinition): Promise<number[]> {
+    const probed = await probeImage(img);
+    return [probed.width, probed.height];
+  }
+
+  it('should use the actual size', async () => {
+    expect(await size(image('landscape.png'))).to.eql([200, 100]);
+  });
+
+  it('should follow the width', async () => {
+    expect(await size(image('landscape.png', {width: 50}))).to.eql([50, 25]);
+  });
+
+  it('should follow the height', async () => {
+    expect(await size(image('portrait.png', {height: 50}))).to.eql([25, 50]);
+  });
+
+  it('should fit inside both by default', async () => {
+    expect(
+      await size(image('landscape.png', {width: 100, height: 100}))
+    ).to.eql([100, 50]);
+    expect(await size(image('portrait.png', {width: 100, height: 100}))).to.eql(
+      [50, 100]
+    );
+  });
+
+  it('should stretch to both', async () => {
+    expect(
+      await size(
+        image('landscape.png', {width: 100, height: 100, fit: 'stretch'})
+      )
+    ).to.eql([100, 100]);
+  });
+
+  it('should cover both, cropping the rest', async () => {
+    const img = await probeImage(
+      image('landscape.png', {width: 100, height: 100, fit: 'cover'})
+    );
+    expect([img.width, img.height]).to.eql([100, 100]);
+    expect(img.crop).to.eql({top: 0, right: 0.25, bottom: 0, left: 0.25});
+  });
+
+  it('should size cropped images', async () => {
+    const crop = {top: 0, right: 0.25, bottom: 0, left: 0.25};
+    expect(await size(image('landscape.png', {crop}))).to.eql([100, 100]);
+    expect(await size(image('landscape.png', {crop, width: 50}))).to.eql([
+      50, 50,
+    ]);
+  });
+
+  it('should leave relative sizes to the layout', async () => {
+    const img = await probeImage(image('landscape.png', {relativeWidth: 0.5}));
+    expect([img.width, img.height]).to.eql([200, 100]);
+    // 0.5 of a 1000x1000 pixel box
+    const box = {x: 0, y: 0, width: 9525000, height: 9525000};
+    const [placed] = placeImages([img], box);
+    expect(placed.width).to.equal(4762500);
+    expect(placed.height).to.equal(2381250);
+  });
+
+  it('should fit relative sizes inside both', async () => {
+    const img = await probeImage(
+      image('portrait.png', {relativeWidth: 0.5, relativeHeight: 0.25})
+    );
+    const box = {x: 0, y: 0, width: 9525000, height: 9525000};
+    const [placed] = placeImages([img], box);
+    expect(placed.width).to.equal(1190625);
+    expect(placed.height).to.equal(2381250);
+  });
+
+  it('should size math like the text around it', () => {
+    const math = image('landscape.png', {type: 'math', width: 100, height: 50});
+    const box = {x: 0, y: 0, width: 9525000, height: 9525000};
+    // Drawn for 16pt text, shown with 32pt text
+    const [placed] = placeImages([math], box, undefined, 32);
+    expect(placed.width).to.equal(1905000);
+    expect(placed.height).to.equal(952500);
+  });
+});
@@ -0,0 +1,285 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import chai from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {pathToFileURL} from 'url';
+import {slides_v1} from 'googleapis';
+import {
+  SYNC_ID_PREFIX,
+  SyncPlan,
+  appendFingerprintRequests,
+  appendReorderRequests,
+  fingerprintSlide,
+  hasOnlyUnsyncedSlides,
+  planSync,
+} from '../src/sync';
+import {SlideDefinition} from '../src/slides';
+
+const expect = chai.expect;
+
+function slide(title: string, objectId?: string): SlideDefinition {
+  return {
+    objectId: objectId,
+    title: {rawText: title, textRuns: [], listMarkers: [], big: false},
+    bodies: [],
+    tables: [],
+  };
+}
+
+// Slides as the API returns them once a sync has created them
+function createdPages(plan: SyncPlan): slides_v1.Schema$Page[] {
+  const presentation: slides_v1.Schema$Presentation = {
+    slides: plan.order.map(objectId => ({
+      objectId: objectId,
+      slideProperties: {
+        notesPage: {
+          notesProperties: {speakerNotesObjectId: `${objectId}_notes`},
+          pageElements: [{objectId: `${objectId}_notes`}],
+        },
+      },
+    })),
+  };
+  for (const request of appendFingerprintRequests(presentation, plan, [])) {
+    const {objectId, description} = request.updatePageElementAltText!;
+    const notes = presentation.slides!.find(
+      slide => `${slide.objectId}_notes` === objectId
+    );
+    notes!.slideProperties!.notesPage!.pageElements![0].description =
+      description;
+  }
+  return presentation.slides!;
+}
+
+describe('sync', () => {
+  describe('fingerprintSlide', () => {
+    it('should ignore object IDs', () => {
+      expect(fingerprintSlide(slide('Hello', 'a'))).to.equal(
+        fingerprintSlide(slide('Hello', 'b'))
+      );
+    });
+
+    it('should change when content changes', () => {
+      expect(fingerprintSlide(slide('Hello'))).to.not.equal(
+        fingerprintSlide(slide('Hello!'))
+      );
+    });
+
+    it('should change when a local image changes', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'md2gslides-'));
+      const file = path.join(dir, 'image.png');
+      const withImage = slide('Hello');
+      withImage.backgroundImage = {
+        url: 'file://' + file,
+        width: 0,
+        height: 0,
+        padding: 0,
+        offsetX: 0,
+        offsetY: 0,
+      };
+      try {
+        fs.writeFileSync(file, 'before');
+        const before = fingerprintSlide(withImage);
+        fs.writeFileSync(file, 'after');
+        expect(fingerprintSlide(withImage)).to.not.equal(before);
+      } finally {
+        fs.rmSync(dir, {recursive: true, force: true});
+      }
+    });
+
+    it('should read local images whose path has a space', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'md2gslides '));
+      const file = path.join(dir, 'my image.png');
+      const withImage = slide('Hello');
+      withImage.backgroundImage = {
+        url: pathToFileURL(file).href,
+        width: 0,
+        height: 0,
+        padding: 0,
+        offsetX: 0,
+        offsetY: 0,
+      };
+      try {
+        fs.writeFileSync(file, 'before');
+        const before = fingerprintSlide(withImage);
+        fs.writeFileSync(file, 'after');
+        expect(fingerprintSlide(withImage)).to.not.equal(before);
+      } finally {
+        fs.rmSync(dir, {recursive: true, force: true});
+      }
+    });
+  });
+
+  describe('hasOnlyUnsyncedSlides', () => {
+    it('should accept an empty deck', () => {
+      expect(hasOnlyUnsyncedSlides({slides: []})).to.be.false;
+    });
+
+    it('should accept a deck from an earlier sync', () => {
+      const presentation = {
+        slides: [{objectId: 'p'}, {objectId: `${SYNC_ID_PREFIX}1`}],
+      };
+      expect(hasOnlyUnsyncedSlides(presentation)).to.be.false;
+    });
+
+    it('should refuse a deck that was never synced', () => {
+      expect(hasOnlyUnsyncedSlides({slides: [{objectId: 'p'}]})).to.be.true;
+    });
+  });
+
+  describe('planSync', () => {
+    const previous = [slide('One'), slide('Two'), slide('Three')];
+    const previousPlan = planSync({}, previous);
+    const presentation: slides_v1.Schema$Presentation = {
+      slides: [...createdPages(previousPlan), {objectId: 'hand-made-slide'}],
+    };
+
+    it('should create every slide of a new deck', () => {
+      expect(previousPlan.create).to.have.length(3);
+      expect(previousPlan.replace).to.be.empty;
+      expect(previousPlan.remove).to.be.empty;
+    });
+
+    it('should number the slides', () => {
+      expect(previousPlan.order).to.eql([
+        `${SYNC_ID_PREFIX}1`,
+        `${SYNC_ID_PREFIX}2`,
+        `${SYNC_ID_PREFIX}3`,
+      ]);
+    });
+
+    it('should disambiguate identical slides', () => {
+      const plan = planSync({}, [slide('Same'), slide('Same')]);
+      expect(plan.order[0]).to.not.equal(plan.order[1]);
+    });
+
+    it('should store the fingerprint of each created slide', () => {
+      const requests = appendFingerprintRequests(
+        presentation,
+        previousPlan,
+        []
+      );
+      expect(requests).to.have.length(3);
+      expect(requests[0]).to.eql({
+        updatePageElementAltText: {
+          objectId: `${SYNC_ID_PREFIX}1_notes`,
+          description: `md2gs:${fingerprintSlide(slide('One'))}`,
+        },
+      });
+    });
+
+    it('should keep every slide when nothing changed', () => {
+      const plan = planSync(presentation, [
+        slide('One'),
+        slide('Two'),
+        slide('Three'),
+      ]);
+      expect(plan.create).to.be.empty;
+      expect(plan.unchanged).to.equal(3);
+      expect(plan.order).to.eql(previousPlan.order);
+    });
+
+    describe('after editing one slide', () => {
+      const plan = planSync(presentation, [
+        slide('One'),
+        slide('Two, fixed'),
+        slide('Three'),
+      ]);
+
+      it('should only create the changed slide', () => {
+        expect(plan.create).to.have.length(1);
+        expect(plan.create[0]).to.have.nested.property(
+          'title.rawText',
+          'Two, fixed'
+        );
+      });
+
+      it('should rewrite the changed slide with the same ID', () => {
+        expect(plan.create[0].objectId).to.equal(previousPlan.order[1]);
+        expect(plan.replace).to.eql([previousPlan.order[1]]);
+        expect(plan.remove).to.be.empty;
+      });
+
+      it('should keep the unchanged slides', () => {
+        expect(plan.unchanged).to.equal(2);
+        expect(plan.order).to.eql(previousPlan.order);
+      });
+
+      it('should not remove slides added by hand', () => {
+        expect(plan.remove).to.not.include('hand-made-slide');
+        expect(plan.replace).to.not.include('hand-made-slide');
+      });
+    });
+
+    describe('after inserting a slide', () => {
+      const plan = planSync(presentation, [
+        slide('One'),
+        slide('New'),
+        slide('Two'),
+        slide('Three'),
+      ]);
+
+      it('should keep the slides that moved', () => {
+        expect(plan.unchanged).to.equal(3);
+        expect(plan.replace).to.be.empty;
+        expect(plan.remove).to.be.empty;
+      });
+
+      it('should give the new slide an unused ID', () => {
+        expect(plan.order).to.eql([
+          previousPlan.order[0],
+          `${SYNC_ID_PREFIX}4`,
+          previousPlan.order[1],
+          previousPlan.order[2],
+        ]);
+      });
+    });
+
+    it('should remove slides deleted from the markdown', () => {
+      const plan = planSync(presentation, [slide('One'), slide('Three')]);
+      expect(plan.create).to.be.empty;
+      expect(plan.remove).to.eql([previousPlan.order[1]]);
+      expect(plan.order).to.eql([previousPlan.order[0], previousPlan.order[2]]);
+    });
+
+    it('should rewrite slides without a fingerprint', () => {
+      const plan = planSync({slides: [{objectId: `${SYNC_ID_PREFIX}1`}]}, [
+        slide('One'),
+      ]);
+      expect(plan.replace).to.eql([`${SYNC_ID_PREFIX}1`]);
+      expect(plan.order).to.eql([`${SYNC_ID_PREFIX}1`]);
+    });
+  });
+
+  describe('appendReorderRequests', () => {
+    it('should not move slides already in order', () => {
+      const requests = appendReorderRequests(['a', 'b', 'x'], ['a', 'b'], []);
+      expect(requests).to.be.empty;
+    });
+
+    it('should move new slides into position', () => {
+      const requests = appendReorderRequests(
+        ['a', 'x', 'c', 'b'],
+        ['a', 'b', 'c'],
+        []
+      );
+      expect(requests).to.eql([
+        {updateSlidesPosition: {slideObjectIds: ['b'], insertionIndex: 1}},
+        {updateSlidesPosition: {slideObjectIds: ['c'], insertionIndex: 2}},
+      ]);
+    });
+  });
+});
@@ -0,0 +1,269 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import chai from 'chai';
+import path from 'path';
+import jsonfile from 'jsonfile';
+import validate, {formatDiagnostic} from '../src/validate';
+
+const expect = chai.expect;
+
+describe('validate', () => {
+  const fixtures = path.join(path.dirname(__dirname), 'test', 'fixtures');
+  const presentation = jsonfile.readFileSync(
+    path.join(fixtures, 'blank_presentation.json')
+  );
+
+  function codes(markdown: string): [number | undefined, string][] {
+    return validate(markdown, {presentation, baseDir: fixtures}).map(d => [
+      d.line,
+      d.code,
+    ]);
+  }
+
+  it('should accept valid markdown', () => {
+    expect(codes('# Title\n\n* one\n* <b>two</b>\n')).to.eql([]);
+  });
+
+  it('should report every problem with its line', () => {
+    const markdown =
+      '# Title\n' +
+      '\n' +
+      'Some <div>text</div>\n' +
+      'and <blink>more</blink>\n' +
+      '\n' +
+      '* one\n' +
+      '    1. two\n' +
+      '{bullets=squiggles}\n';
+    expect(codes(markdown)).to.eql([
+      [3, 'unsupported-html'],
+      [4, 'unsupported-html'],
+      [7, 'unknown-bullets'],
+    ]);
+  });
+
+  it('should report every invalid attribute with its line', () => {
+    const markdown =
+      '# Attributes\n' +
+      '\n' +
+      '![](https://example.com/a.png){crop=50%}\n' +
+      '\n' +
+      '![](https://example.com/b.png){rotate=abc}\n' +
+      '\n' +
+      '$x$ {color=notacolor}\n' +
+      '\n' +
+      '@[youtube](abc) {start=xx}\n';
+    expect(validate(markdown)).to.eql([
+      {
+        line: 3,
+        severity: 'error',
+        code: 'invalid-attribute',
+        message: 'Invalid crop: 50%',
+      },
+      {
+        line: 5,
+        severity: 'error',
+        code: 'invalid-attribute',
+        message: 'Invalid rotation: abc',
+      },
+      {
+        line: 7,
+        severity: 'error',
+        code: 'invalid-attribute',
+        message: 'Invalid math color: notacolor',
+      },
+      {
+        line: 9,
+        severity: 'error',
+        code: 'invalid-attribute',
+        message: 'Invalid video time: xx',
+      },
+    ]);
+  });
+
+  it('should report unsupported embeds', () => {
+    const markdown =
+      '# Frame\n' +
+      '\n' +
+      '<iframe src="page.html"></iframe>\n' +
+      '\n' +
+      '![](missing.png)\n';
+    expect(codes(markdown)).to.eql([
+      [3, 'unsupported-html'],
+      [5, 'missing-image'],
+    ]);
+  });
+
+  it('should accept videos shown as thumbnails', () => {
+    expect(codes('# Video\n\n@[vimeo](123)\n')).to.eql([]);
+  });
+
+  it('should report invalid video times', () => {
+    const markdown =
+      '# Video\n' +
+      '\n' +
+      '@[youtube](abc) {start=1:30}\n' +
+      '\n' +
+      '@[youtube](abc) {start=soon end=1:x}\n';
+    expect(codes(markdown)).to.eql([[5, 'invalid-attribute']]);
+  });
+
+  it('should check speaker notes', () => {
+    const markdown = '# Notes\n\n::: notes\nSome <div>text</div>\n:::\n';
+    expect(codes(markdown)).to.eql([[4, 'unsupported-html']]);
+  });
+
+  it('should report invalid callout colors', () => {
+    expect(codes('# Callout\n\n::: callout {color=nope}\nHi\n:::\n')).to.eql([
+      [3, 'invalid-color'],
+    ]);
+  });
+
+  it('should report missing local images', () => {
+    const markdown =
+      '# Images\n' +
+      '\n' +
+      '![](blank_presentation.json)\n' +
+      '\n' +
+      '![](missing.png)\n';
+    expect(codes(markdown)).to.eql([[5, 'missing-image']]);
+  });
+
+  it('should report unknown layouts', () => {
+    const markdown =
+      '---\n' +
+      'layout: Nope\n' +
+      '---\n' +
+      '\n' +
+      '# One\n' +
+      '\n' +
+      '{layout="Title only"}\n' +
+      '\n' +
+      '---\n' +
+      '\n' +
+      '# Two\n' +
+      '\n' +
+      '{layout="Also nope"}\n';
+    expect(codes(markdown)).to.eql([
+      [1, 'unknown-layout'],
+      [13, 'unknown-layout'],
+    ]);
+  });
+
+  it('should report invalid numbers of columns', () => {
+    const markdown =
+      '# Images\n' +
+      '\n' +
+      '![](https://example.com/a.png) {layout=grid cols=2}\n' +
+      '\n' +
+      '---\n' +
+      '\n' +
+      '# More\n' +
+      '\n' +
+      '![](https://example.com/b.png) {layout=grid cols=none}\n';
+    expect(codes(markdown)).to.eql([[9, 'invalid-attribute']]);
+  });
+
+  it('should report invalid crops, opacities and rotations', () => {
+    const markdown =
+      '# Images\n' +
+      '\n' +
+      '![](https://example.com/a.png){crop="10% 0" opacity=50% rotate=-5}\n' +
+      '![](https://example.com/b.png){crop=50%}\n' +
+      '![](https://example.com/c.png){opacity=2}\n' +
+      '![](https://example.com/d.png){rotate=abc}\n';
+    expect(codes(markdown)).to.eql([
+      [4, 'invalid-attribute'],
+      [5, 'invalid-attribute'],
+      [6, 'invalid-attribute'],
+    ]);
+  });
+
+  it('should report invalid image sizes and fits', () => {
+    const markdown =
+      '# Images\n' +
+      '\n' +
+      '![](https://example.com/a.png){width=200 height=100px fit=cover}\n' +
+      '![](https://example.com/b.png){width=50% height=100}\n' +
+      '![](https://example.com/c.png){width=big}\n' +
+      '![](https://example.com/d.png){width=50% fit=cover}\n' +
+      '![](https://example.com/e.png){fit=squash}\n';
+    expect(codes(markdown)).to.eql([
+      [4, 'invalid-attribute'],
+      [5, 'invalid-attribute'],
+      [6, 'invalid-attribute'],
+      [7, 'invalid-attribute'],
+    ]);
+  });
+
+  it('should report invalid math colors and sizes', () => {
+    const markdown =
+      '# Math\n' +
+      '\n' +
+      '$x$ {color=red size=20pt}\n' +
+      '\n' +
+      '$x$ {color=notacolor}\n' +
+      '\n' +
+      '$$\n' +
+      '\\frac{1}{2}\n' +
+      '$$\n' +
+      '{size=huge}\n' +
+      '\n' +
+      'Half is $\\frac{1}{2}$ {color=nope}\n';
+    expect(codes(markdown)).to.eql([
+      [5, 'invalid-attribute'],
+      [7, 'invalid-attribute'],
+      [12, 'invalid-attribute'],
+    ]);
+  });
+
+  it('should warn about empty tables', () => {
+    const diagnostics = validate(
+      '# Table\n\n| a | b |\n|---|---|\n|   |   |\n'
+    );
+    expect(diagnostics).to.eql([
+      {
+        line: 3,
+        severity: 'warning',
+        code: 'empty-table',
+        message: 'Table has no rows with content',
+      },
+    ]);
+  });
+
+  it('should warn about math left as TeX', () => {
+    const diagnostics = validate(
+      '# Math\n\n::: notes\nSee $\\begin{pmatrix}1\\end{pmatrix}$\n:::\n'
+    );
+    expect(diagnostics).to.eql([
+      {
+        line: 4,
+        severity: 'warning',
+        code: 'math-as-tex',
+        message:
+          'Unable to write $\\begin{pmatrix}1\\end{pmatrix}$ as text or ' +
+          'draw it here, leaving it as TeX',
+      },
+    ]);
+  });
+
+  it('should format diagnostics', () => {
+    expect(
+      formatDiagnostic(
+        {line: 3, severity: 'error', code: 'x', message: 'Broken'},
+        'slides.md'
+      )
+    ).to.equal('slides.md:3: error: Broken (x)');
+  });
+});
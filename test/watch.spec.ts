@@ -0,0 +1,73 @@
+// Copyright 2019 Google Inc.
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//    http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import chai from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Watcher, {findLocalImages} from '../src/watch';
+
+const expect = chai.expect;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('watch', () => {
+  describe('findLocalImages', () => {
+    it('should find local images and backgrounds', () => {
+      const markdown =
+        '# Images\n\n![](a.png)\n![](https://example.com/b.png)\n\n' +
+        '---\n\n![](c.png){.background}\n\n---\n\n![](a.png)\n';
+      expect(findLocalImages(markdown)).to.deep.equal([
+        path.resolve('a.png'),
+        path.resolve('c.png'),
+      ]);
+    });
+  });
+
+  describe('Watcher', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'md2gslides-'));
+      file = path.join(dir, 'slides.md');
+      fs.writeFileSync(file, '# One');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, {recursive: true, force: true});
+    });
+
+    it('should run once per batch of changes', async () => {
+      const runs: string[][] = [];
+      const watcher = new Watcher(
+        async changed => {
+          runs.push(changed);
+          return [file];
+        },
+        {debounce: 100, interval: 20}
+      );
+      await watcher.start([file]);
+      await sleep(50);
+      fs.writeFileSync(file, '# Two');
+      await sleep(40);
+      fs.writeFileSync(file, '# Three!');
+      await sleep(400);
+      await watcher.stop();
+      expect(runs).to.deep.equal([[], [file]]);
+    });
+  });
+});